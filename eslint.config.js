@@ -21,6 +21,7 @@ module.exports = [
         console: 'readonly',
         process: 'readonly',
         Buffer: 'readonly',
+        AbortSignal: 'readonly',
         __VERSION__: 'readonly',
       },
     },
@@ -89,6 +90,7 @@ module.exports = [
         afterEach: 'readonly',
         jest: 'readonly',
         setTimeout: 'readonly',
+        AbortController: 'readonly',
       },
     },
     plugins: {
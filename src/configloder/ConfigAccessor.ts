@@ -0,0 +1,337 @@
+import objectPath from 'object-path';
+
+/**
+ * 設定内の値のパスの型
+ * 文字列の場合はドット区切り（「\.」でキー内のドット、「[0]」または「.0」で配列インデックス）、
+ * 配列の場合はキー・インデックスの並び
+ */
+export type ConfigPath = string | (string | number)[];
+
+/**
+ * パスのトークン（エスケープした文字・[0]形式のインデックス・キーの文字列・「.」・それ以外の不正な文字）
+ */
+const PATH_TOKEN = /\\([\s\S])|\[(\d+)\]|([^\\.[]+)|\.|[\s\S]/g;
+
+/**
+ * パスのトークンの型
+ */
+interface PathToken {
+  /** 種類（キーの文字列・[0]形式のインデックス・区切りの「.」） */
+  kind: 'key' | 'index' | 'dot';
+  /** トークンの文字列（エスケープは解除済み） */
+  text: string;
+  /** エスケープした文字を含むか（数字だけのキーをインデックスとして扱わない） */
+  escaped: boolean;
+  /** パス内の位置 */
+  position: number;
+}
+
+/**
+ * 処理名: パスによる設定値へのアクセス
+ *
+ * 処理概要:
+ * 読み込み・デシリアライズ済みの設定オブジェクトに対して、パスで値の取得・設定・存在確認・削除を行う。
+ * 型付きの取得メソッドは値の型が一致しない場合にパスと実際の型を含むエラーを返す
+ *
+ * 実装理由:
+ * config?.database?.replicas?.[0]?.host のような記述を利用側で繰り返さず、
+ * 型の誤りを設定のどこで起きたか分かる形で検出するため
+ */
+export class ConfigAccessor {
+  private data: Record<string, unknown> | unknown[];
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {Record<string, unknown> | unknown[]} [data] 設定オブジェクト（変更は元のオブジェクトに反映される）
+   */
+  constructor(data: Record<string, unknown> | unknown[] = {}) {
+    this.data = data;
+  }
+
+  /**
+   * 処理名: パスの分解
+   *
+   * 処理概要:
+   * ドット区切りのパスをキー・インデックスの配列に分解する。
+   * 「\.」「\[」「\\」はキーの一部として扱い、「[0]」とエスケープを含まない数字だけのキーは配列インデックス（数値）にする
+   *
+   * 実装理由:
+   * ドットを含むキー（例: ホスト名）も指定できるようにするため
+   * @param {ConfigPath} path パス
+   * @returns {(string | number)[]} キー・インデックスの配列
+   * @throws {Error} 空のセグメント、閉じていない「[」、末尾の「\」がある場合
+   */
+  static parsePath(path: ConfigPath): (string | number)[] {
+    if (Array.isArray(path)) {
+      return path;
+    }
+    const tokens = ConfigAccessor.tokenize(path);
+    ConfigAccessor.validateTokens(path, tokens);
+    return tokens
+      .filter((token) => token.kind !== 'dot')
+      .map((token) =>
+        token.kind === 'index' || (!token.escaped && /^\d+$/.test(token.text)) ? Number(token.text) : token.text
+      );
+  }
+
+  /**
+   * 処理名: パスのトークン分割
+   * @param {string} path ドット区切りのパス
+   * @returns {PathToken[]} トークンの配列（連続するキーの文字列は1つにまとめる）
+   * @throws {Error} 閉じていない「[」、または末尾の「\」がある場合
+   * @private
+   */
+  private static tokenize(path: string): PathToken[] {
+    const tokens: PathToken[] = [];
+    for (const match of path.matchAll(PATH_TOKEN)) {
+      const token = ConfigAccessor.toToken(path, match);
+      const last = tokens[tokens.length - 1];
+      if (token.kind === 'key' && last?.kind === 'key') {
+        last.text += token.text;
+        last.escaped = last.escaped || token.escaped;
+      } else {
+        tokens.push(token);
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * 処理名: トークンの生成
+   * @param {string} path ドット区切りのパス（エラー表示用）
+   * @param {RegExpMatchArray} match PATH_TOKENに一致した結果
+   * @returns {PathToken} トークン
+   * @throws {Error} 閉じていない「[」、または末尾の「\」の場合
+   * @private
+   */
+  private static toToken(path: string, match: RegExpMatchArray): PathToken {
+    const [token, escapedChar, index, text] = match;
+    const position = match.index as number;
+    if (index !== undefined) {
+      return { kind: 'index', text: index, escaped: false, position };
+    }
+    if (escapedChar !== undefined || text !== undefined) {
+      return { kind: 'key', text: escapedChar ?? text, escaped: escapedChar !== undefined, position };
+    }
+    if (token === '.') {
+      return { kind: 'dot', text: token, escaped: false, position };
+    }
+    const reason = token === '\\' ? 'trailing backslash' : 'expected an array index like [0]';
+    throw new Error(`invalid path '${path}': ${reason} at position ${position}`);
+  }
+
+  /**
+   * 処理名: トークンの並びの検証
+   * @param {string} path ドット区切りのパス（エラー表示用）
+   * @param {PathToken[]} tokens トークンの配列
+   * @returns {void}
+   * @throws {Error} 空のセグメント、または「[0]」の直後にキーが続く場合
+   * @private
+   */
+  private static validateTokens(path: string, tokens: PathToken[]): void {
+    const invalid = (reason: string, position: number): Error =>
+      new Error(`invalid path '${path}': ${reason} at position ${position}`);
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1]?.kind;
+      if (token.kind === 'dot' && (previous === undefined || previous === 'dot')) {
+        throw invalid('empty segment', token.position);
+      }
+      if (token.kind === 'key' && previous === 'index') {
+        throw invalid("expected '.' or '['", token.position);
+      }
+    });
+    if (tokens.length === 0 || tokens[tokens.length - 1].kind === 'dot') {
+      throw invalid('empty segment', path.length);
+    }
+  }
+
+  /**
+   * 処理名: 値の型の表示名
+   * @param {unknown} value 値
+   * @returns {string} 型の表示名（null・array・RegExp・Buffer、Serializerの特殊な値はtype値）
+   */
+  static typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (Buffer.isBuffer(value)) return 'Buffer';
+    if (Object.prototype.toString.call(value) === '[object RegExp]') return 'RegExp';
+    const type = typeof value === 'object' ? (value as Record<string, unknown>).type : undefined;
+    return typeof type === 'string' ? `${type} (not deserialized)` : typeof value;
+  }
+
+  /**
+   * 処理名: パスの表示用文字列
+   * @param {(string | number)[]} segments キー・インデックスの配列
+   * @returns {string} ドット区切りのパス（キー内のドットはエスケープする。ルートは「(root)」）
+   */
+  static formatPath(segments: (string | number)[]): string {
+    return segments.map((segment) => String(segment).replace(/[\\.[]/g, '\\$&')).join('.') || '(root)';
+  }
+
+  /**
+   * 処理名: 値の取得
+   * @param {ConfigPath} path パス
+   * @param {unknown} [defaultValue] 値が無い場合に返す値
+   * @returns {unknown} パスの値（無い場合はdefaultValue）
+   * @throws {Error} パスの形式が不正な場合
+   */
+  get<T = unknown>(path: ConfigPath, defaultValue?: T): T {
+    return objectPath.get(this.data, ConfigAccessor.parsePath(path), defaultValue) as T;
+  }
+
+  /**
+   * 処理名: 値の存在確認
+   * @param {ConfigPath} path パス
+   * @returns {boolean} パスに値（nullを含む）がある場合true
+   * @throws {Error} パスの形式が不正な場合
+   */
+  has(path: ConfigPath): boolean {
+    return objectPath.has(this.data, ConfigAccessor.parsePath(path));
+  }
+
+  /**
+   * 処理名: 値の設定
+   *
+   * 処理概要:
+   * パスに値を設定する。途中のオブジェクト・配列が無い場合は作成する（次のセグメントが数値なら配列）
+   *
+   * 実装理由:
+   * 途中がスカラーの場合に黙って置き換えると設定が壊れるため、エラーにする
+   * @param {ConfigPath} path パス
+   * @param {unknown} value 設定する値
+   * @returns {ConfigAccessor} メソッドチェーン用の自身
+   * @throws {Error} パスの形式が不正な場合、または途中の値がオブジェクト・配列でない場合
+   */
+  set(path: ConfigPath, value: unknown): ConfigAccessor {
+    const segments = ConfigAccessor.parsePath(path);
+    for (let depth = 1; depth < segments.length; depth++) {
+      const parent = objectPath.get(this.data, segments.slice(0, depth));
+      if (parent !== undefined && parent !== null && typeof parent !== 'object') {
+        throw new Error(
+          `cannot set ${ConfigAccessor.formatPath(segments)}: ${ConfigAccessor.formatPath(segments.slice(0, depth))} is ${ConfigAccessor.typeOf(parent)}, not an object or array`
+        );
+      }
+    }
+    objectPath.set(this.data, segments, value);
+    return this;
+  }
+
+  /**
+   * 処理名: 値の削除
+   * @param {ConfigPath} path パス（配列の要素は後ろの要素を詰めて削除する）
+   * @returns {boolean} 値があって削除した場合true
+   * @throws {Error} パスの形式が不正な場合
+   */
+  delete(path: ConfigPath): boolean {
+    const segments = ConfigAccessor.parsePath(path);
+    if (!objectPath.has(this.data, segments)) {
+      return false;
+    }
+    objectPath.del(this.data, segments);
+    return true;
+  }
+
+  /**
+   * 処理名: 型を検査した値の取得
+   * @param {ConfigPath} path パス
+   * @param {string} expected 期待する型の表示名
+   * @param {(value: unknown) => boolean} matches 型の判定
+   * @param {unknown} defaultValue 値が無い場合に返す値
+   * @returns {unknown} パスの値
+   * @throws {Error} 値が無く既定値も無い場合、または型が一致しない場合
+   * @private
+   */
+  private typed(
+    path: ConfigPath,
+    expected: string,
+    matches: (value: unknown) => boolean,
+    defaultValue: unknown
+  ): unknown {
+    const segments = ConfigAccessor.parsePath(path);
+    const value = objectPath.get(this.data, segments);
+    if (value === undefined && defaultValue !== undefined) {
+      return defaultValue;
+    }
+    if (!matches(value)) {
+      throw new Error(
+        `expected ${expected} at ${ConfigAccessor.formatPath(segments)}, but got ${ConfigAccessor.typeOf(value)}`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: 文字列の取得
+   * @param {ConfigPath} path パス
+   * @param {string} [defaultValue] 値が無い場合に返す値
+   * @returns {string} パスの値
+   * @throws {Error} 値が無く既定値も無い場合、または文字列でない場合
+   */
+  getString(path: ConfigPath, defaultValue?: string): string {
+    return this.typed(path, 'string', (value) => typeof value === 'string', defaultValue) as string;
+  }
+
+  /**
+   * 処理名: 数値の取得
+   * @param {ConfigPath} path パス
+   * @param {number} [defaultValue] 値が無い場合に返す値
+   * @returns {number} パスの値
+   * @throws {Error} 値が無く既定値も無い場合、または数値（NaNを除く）でない場合
+   */
+  getNumber(path: ConfigPath, defaultValue?: number): number {
+    return this.typed(
+      path,
+      'number',
+      (value) => typeof value === 'number' && !Number.isNaN(value),
+      defaultValue
+    ) as number;
+  }
+
+  /**
+   * 処理名: 真偽値の取得
+   * @param {ConfigPath} path パス
+   * @param {boolean} [defaultValue] 値が無い場合に返す値
+   * @returns {boolean} パスの値
+   * @throws {Error} 値が無く既定値も無い場合、または真偽値でない場合
+   */
+  getBoolean(path: ConfigPath, defaultValue?: boolean): boolean {
+    return this.typed(path, 'boolean', (value) => typeof value === 'boolean', defaultValue) as boolean;
+  }
+
+  /**
+   * 処理名: 正規表現の取得
+   * @param {ConfigPath} path パス
+   * @param {RegExp} [defaultValue] 値が無い場合に返す値
+   * @returns {RegExp} パスの値（デシリアライズ済みのRegExp）
+   * @throws {Error} 値が無く既定値も無い場合、またはRegExpでない場合
+   */
+  getRegExp(path: ConfigPath, defaultValue?: RegExp): RegExp {
+    return this.typed(
+      path,
+      'RegExp',
+      (value) => Object.prototype.toString.call(value) === '[object RegExp]',
+      defaultValue
+    ) as RegExp;
+  }
+
+  /**
+   * 処理名: Bufferの取得
+   * @param {ConfigPath} path パス
+   * @param {Buffer} [defaultValue] 値が無い場合に返す値
+   * @returns {Buffer} パスの値（デシリアライズ済みのBuffer）
+   * @throws {Error} 値が無く既定値も無い場合、またはBufferでない場合
+   */
+  getBuffer(path: ConfigPath, defaultValue?: Buffer): Buffer {
+    return this.typed(path, 'Buffer', (value) => Buffer.isBuffer(value), defaultValue) as Buffer;
+  }
+
+  /**
+   * 処理名: 設定オブジェクトの取得
+   * @returns {Record<string, unknown> | unknown[]} 変更を反映した設定オブジェクト
+   */
+  toObject(): Record<string, unknown> | unknown[] {
+    return this.data;
+  }
+}
+
+export default ConfigAccessor;
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigAccessor } from './ConfigAccessor';
+import ConfigLoder from './ConfigLoder';
+import FormatRegistry, { ConfigFormat } from './FormatRegistry';
+import { Interpolator } from './Interpolator';
+import Serializer from './Serializer';
+
+/**
+ * 設定ファイルの変換のオプション型
+ */
+export interface ConfigConverterOptions {
+  /** 出力先の拡張子に関わらず使用する形式名（'json'・'yaml'・'toml'・'json5'・'jsonc'、または登録した形式） */
+  to?: string;
+  /** インデント幅（デフォルト: 出力形式の既定値。TOMLでは無視される） */
+  indent?: number;
+  /** オブジェクトのキーを名前順に並べ替える（デフォルト: false） */
+  sortKeys?: boolean;
+  /** config.jsのシリアライズ、未暗号化のSecret（YAMLの!secret 平文等）の暗号化に使用するSerializer */
+  serializer?: Serializer;
+  /** 使用する形式の登録簿（デフォルト: JSON・JSON5・JSONC・YAML・TOMLを登録した登録簿） */
+  formats?: FormatRegistry;
+}
+
+/**
+ * config.jsとして評価する拡張子
+ */
+const SCRIPT_EXTENSIONS = ['.js', '.cjs'];
+
+/**
+ * 処理名: 設定ファイルの形式変換
+ *
+ * 処理概要:
+ * config.js・JSON・YAML・TOML等の設定ファイルを読み込み、出力先の拡張子または指定した形式の文字列に変換する。
+ * config.jsはSerializerでシリアライズし、その他の形式はデシリアライズせずに読み込むため、
+ * Serializerの特殊値（Secret・Env・RegExp・Buffer）はそのままの形で出力される。
+ * 未暗号化のSecretは暗号化してから出力する（鍵が無い場合はエラー）
+ *
+ * 実装理由:
+ * 暗号化済みのSecretを復号せずに、デプロイ先が読める形式の設定ファイルを作れるようにするため
+ */
+export class ConfigConverter {
+  private to: string | undefined;
+  private indent: number | undefined;
+  private sortKeys: boolean;
+  private serializer: Serializer | undefined;
+  private formats: FormatRegistry;
+  private loader: ConfigLoder;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {ConfigConverterOptions} [options] 変換のオプション
+   * @throws {Error} インデント幅が0以上の整数でない場合、形式が登録されていない場合
+   */
+  constructor(options: ConfigConverterOptions = {}) {
+    if (options.indent !== undefined && !(Number.isInteger(options.indent) && options.indent >= 0)) {
+      throw new Error(`indent must be a non-negative integer (got ${options.indent})`);
+    }
+    this.formats = options.formats || FormatRegistry.createDefault();
+    if (options.to) {
+      this.formats.get(options.to);
+    }
+    this.to = options.to;
+    this.indent = options.indent;
+    this.sortKeys = options.sortKeys || false;
+    this.serializer = options.serializer;
+    this.loader = new ConfigLoder(false, { formats: this.formats });
+  }
+
+  /**
+   * 処理名: 設定ファイルの変換
+   * @param {string} inputPath 変換元の設定ファイルのパス
+   * @param {string} [outputPath] 出力先のパス（形式の判定のみに使用。省略時はtoの形式、toも無ければJSON）
+   * @returns {Promise<string>} 変換した設定ファイルの内容
+   * @throws {Error} 読み込み・変換に失敗した場合
+   */
+  async convertFile(inputPath: string, outputPath?: string): Promise<string> {
+    return this.stringify(await this.read(inputPath), outputPath);
+  }
+
+  /**
+   * 処理名: 設定ファイルの読み込み
+   *
+   * 処理概要:
+   * config.jsはSerializerでシリアライズし、その他の形式はConfigLoderで読み込む。
+   * いずれもデシリアライズしないため、Secretは暗号化されたまま返る。
+   * 未暗号化のSecretはSerializerの鍵で暗号化する
+   *
+   * 実装理由:
+   * 変換の途中で暗号化済みのSecretを復号せず、秘密情報を平文のまま出力しないようにするため
+   * @param {string} inputPath 設定ファイルのパス
+   * @returns {Promise<unknown>} シリアライズ済みの設定オブジェクト
+   * @throws {Error} config.jsまたは未暗号化のSecretがあるのにSerializerが指定されていない場合、読み込みに失敗した場合
+   */
+  async read(inputPath: string): Promise<unknown> {
+    if (!ConfigConverter.isScript(inputPath)) {
+      return this.encryptPlaintext(JSON.parse(await this.loader.readConfig(inputPath)));
+    }
+    if (!this.serializer) {
+      throw new Error(`a crypto key is required to serialize ${inputPath}`);
+    }
+    const code = await fs.promises.readFile(inputPath, 'utf8');
+    return this.serializer.serializeObject(code, { filename: inputPath });
+  }
+
+  /**
+   * 処理名: 未暗号化のSecretの暗号化
+   * @param {unknown} data シリアライズ済みの設定オブジェクト
+   * @returns {unknown} 未暗号化のSecretを暗号化した設定オブジェクト
+   * @throws {Error} 未暗号化のSecretがあり、Serializerが指定されていない場合
+   * @private
+   */
+  private encryptPlaintext(data: unknown): unknown {
+    if (this.serializer) {
+      return this.serializer.encryptPlaintextSecrets(data);
+    }
+    const plaintext = Interpolator.findSecretPaths(data).find((segments) =>
+      Serializer.isPlaintextSecret(
+        segments.reduce((value: unknown, key) => (value as Record<string, unknown>)[key], data)
+      )
+    );
+    if (plaintext) {
+      throw new Error(`a crypto key is required to encrypt the plaintext Secret at ${ConfigAccessor.formatPath(plaintext)}`);
+    }
+    return data;
+  }
+
+  /**
+   * 処理名: config.jsの判定
+   * @param {string} filepath ファイルパス
+   * @returns {boolean} Serializerで評価するファイル（.js・.cjs）の場合true
+   */
+  static isScript(filepath: string): boolean {
+    return SCRIPT_EXTENSIONS.includes(path.extname(filepath).toLowerCase());
+  }
+
+  /**
+   * 処理名: 設定オブジェクトの文字列化
+   * @param {unknown} data シリアライズ済みの設定オブジェクト
+   * @param {string} [outputPath] 出力先のパス（形式の判定のみに使用）
+   * @returns {string} 出力形式の文字列
+   * @throws {Error} 出力形式で表現できないデータの場合（TOMLのルートが配列等）
+   */
+  stringify(data: unknown, outputPath?: string): string {
+    const format = this.formatFor(outputPath);
+    const options = this.indent === undefined ? { ...format.options } : { ...format.options, indent: this.indent };
+    return format.stringify(this.sortKeys ? this.sort(data) : data, options);
+  }
+
+  /**
+   * 処理名: 出力形式の判定
+   * @param {string} [outputPath] 出力先のパス
+   * @returns {ConfigFormat} 指定した形式、出力先の拡張子の形式、またはJSON
+   * @private
+   */
+  private formatFor(outputPath?: string): ConfigFormat {
+    return outputPath ? this.formats.resolve(outputPath, this.to) : this.formats.get(this.to || 'json');
+  }
+
+  /**
+   * 処理名: キーの並べ替え
+   * @param {unknown} value 値
+   * @returns {unknown} オブジェクトのキーを名前順に並べ替えた値（Serializerの特殊値の中は並べ替えない）
+   * @private
+   */
+  private sort(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sort(item));
+    }
+    if (!value || typeof value !== 'object' || Serializer.isTaggedValue(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, this.sort((value as Record<string, unknown>)[key])])
+    );
+  }
+}
+
+export default ConfigConverter;
@@ -0,0 +1,301 @@
+import ConfigLoder from './ConfigLoder';
+import { DifferenceEvent, FindDifferences, FindDifferencesOptions } from './FindDifferences';
+import { Interpolator } from './Interpolator';
+import Serializer from './Serializer';
+
+/**
+ * 設定ファイルの比較のオプション型
+ */
+export interface ConfigDiffOptions extends Omit<FindDifferencesOptions, 'trackValues'> {
+  /** 読み込み後にデシリアライズするSerializer（Secretは復号した内容で比較する） */
+  serializer?: Serializer;
+  /** 読み込みに使用するConfigLoder */
+  loader?: ConfigLoder;
+  /** 差分の値にSecretの内容をそのまま含める（デフォルト: false） */
+  revealSecrets?: boolean;
+  /** 比較結果に関する警告（Serializerが無く、Secretの内容を比較できない場合等）の通知先 */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * 差分の出力オプション型
+ */
+export interface DiffFormatOptions {
+  /** ANSIエスケープシーケンスで色付けする（デフォルト: false） */
+  color?: boolean;
+}
+
+/**
+ * 差分の値でSecretの内容を置き換える文字列
+ */
+const MASK = '********';
+
+/**
+ * 差分の種類ごとの記号とANSIの色
+ */
+const MARKERS: Record<DifferenceEvent['type'], { symbol: string; color: string }> = {
+  added: { symbol: '+', color: '\u001b[32m' },
+  removed: { symbol: '-', color: '\u001b[31m' },
+  modified: { symbol: '~', color: '\u001b[33m' },
+  moved: { symbol: '>', color: '\u001b[36m' },
+};
+
+/**
+ * ANSIの色のリセット
+ */
+const RESET = '\u001b[0m';
+
+/**
+ * Serializerが無い場合にSecretを置き換える値（暗号文・IVに関わらず等しいものとして比較する）
+ */
+const OPAQUE_SECRET = Object.freeze({ type: 'Secret' });
+
+/**
+ * 処理名: 設定ファイルの比較
+ *
+ * 処理概要:
+ * 2つの設定ファイル（ConfigLoderが読み込める任意の形式）を読み込み、FindDifferencesで
+ * 追加・削除・変更（配列のsequence比較では移動も）されたパスと前後の値を検出する。
+ * Serializerを指定した場合はデシリアライズしてから比較し、差分の値のSecretの内容は伏せ字にする。
+ * Serializerが無い場合、Secretは内容を比較できないため（同じ内容でもIVごとに暗号文が変わる）
+ * 全て等しいものとして比較し、両方にあるSecretの数をonWarningで通知する
+ *
+ * 実装理由:
+ * デプロイ前に環境ごとの設定の違いをスクリプトで確認できるようにするため
+ */
+export class ConfigDiff {
+  private serializer: Serializer | undefined;
+  private loader: ConfigLoder;
+  private revealSecrets: boolean;
+  private findOptions: FindDifferencesOptions;
+  private onWarning: ((message: string) => void) | undefined;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {ConfigDiffOptions} [options] 比較のオプション
+   */
+  constructor(options: ConfigDiffOptions = {}) {
+    this.serializer = options.serializer;
+    this.loader = options.loader || new ConfigLoder();
+    this.revealSecrets = options.revealSecrets || false;
+    this.findOptions = { arrayDiff: options.arrayDiff, arrayKey: options.arrayKey };
+    this.onWarning = options.onWarning;
+  }
+
+  /**
+   * 処理名: 設定ファイルの比較
+   * @param {string} oldPath 変更前の設定ファイルのパス
+   * @param {string} newPath 変更後の設定ファイルのパス
+   * @returns {Promise<DifferenceEvent[]>} 差分（パス順。値はoldValue/newValueに含める）
+   * @throws {Error} 読み込み・デシリアライズに失敗した場合
+   */
+  async compareFiles(oldPath: string, newPath: string): Promise<DifferenceEvent[]> {
+    const [oldText, newText] = await Promise.all([this.loader.readConfig(oldPath), this.loader.readConfig(newPath)]);
+    return this.compareSerialized(oldText, newText);
+  }
+
+  /**
+   * 処理名: シリアライズ済みのJSON文字列の比較
+   * @param {string} oldJson 変更前のシリアライズ済みのJSON文字列
+   * @param {string} newJson 変更後のシリアライズ済みのJSON文字列
+   * @returns {DifferenceEvent[]} 差分（パス順）
+   * @throws {Error} デシリアライズに失敗した場合
+   */
+  compareSerialized(oldJson: string, newJson: string): DifferenceEvent[] {
+    const oldSecrets = Interpolator.findSecretPaths(JSON.parse(oldJson));
+    const newSecrets = Interpolator.findSecretPaths(JSON.parse(newJson));
+    const differences = this.compare(this.load(oldJson, oldSecrets), this.load(newJson, newSecrets));
+    if (!this.serializer) {
+      this.warnOpaqueSecrets(oldSecrets, newSecrets);
+      return differences;
+    }
+    if (this.revealSecrets) {
+      return differences;
+    }
+    return differences.map((difference) => ({
+      ...difference,
+      oldValue: this.mask(difference.oldValue, difference.fromSegments || difference.segments, oldSecrets),
+      newValue: this.mask(difference.newValue, difference.segments, newSecrets),
+    }));
+  }
+
+  /**
+   * 処理名: 設定オブジェクトの比較
+   * @param {unknown} oldData 変更前の設定オブジェクト
+   * @param {unknown} newData 変更後の設定オブジェクト
+   * @returns {DifferenceEvent[]} 差分（パス順）
+   */
+  compare(oldData: unknown, newData: unknown): DifferenceEvent[] {
+    const differences: DifferenceEvent[] = [];
+    const finder = new FindDifferences({ ...this.findOptions, trackValues: true });
+    finder.on('difference', (difference: DifferenceEvent) => differences.push(difference));
+    finder.initialize(this.toComparable(oldData));
+    finder.detectChanges(this.toComparable(newData));
+    return differences.sort((a, b) => (a.path < b.path ? -1 : Number(a.path > b.path)));
+  }
+
+  /**
+   * 処理名: 差分のテキスト出力
+   *
+   * 処理概要:
+   * 差分を1行ずつ「+ path: value」「- path: value」「~ path: old -> new」「> path <- from」の形式で出力する
+   *
+   * 実装理由:
+   * 端末で差分の種類を一目で見分けられるようにするため
+   * @param {DifferenceEvent[]} differences 差分
+   * @param {DiffFormatOptions} [options] 出力オプション
+   * @returns {string} 差分のテキスト（差分が無い場合は空文字）
+   */
+  static formatText(differences: DifferenceEvent[], options: DiffFormatOptions = {}): string {
+    return differences
+      .map((difference) => {
+        const { symbol, color } = MARKERS[difference.type];
+        const line = `${symbol} ${difference.path}${ConfigDiff.describe(difference)}`;
+        return options.color ? color + line + RESET : line;
+      })
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  /**
+   * 処理名: 差分のJSON出力
+   * @param {DifferenceEvent[]} differences 差分
+   * @returns {string} type・path・segments・fromPath・oldValue・newValueの配列のJSON文字列
+   */
+  static formatJson(differences: DifferenceEvent[]): string {
+    return `${JSON.stringify(differences, null, 2)}\n`;
+  }
+
+  /**
+   * 処理名: 差分の値の表示
+   * @param {DifferenceEvent} difference 差分
+   * @returns {string} パスに続けて表示する値
+   * @private
+   */
+  private static describe(difference: DifferenceEvent): string {
+    switch (difference.type) {
+      case 'added':
+        return `: ${ConfigDiff.formatValue(difference.newValue)}`;
+      case 'removed':
+        return `: ${ConfigDiff.formatValue(difference.oldValue)}`;
+      case 'modified':
+        return `: ${ConfigDiff.formatValue(difference.oldValue)} -> ${ConfigDiff.formatValue(difference.newValue)}`;
+      default:
+        return ` <- ${difference.fromPath}`;
+    }
+  }
+
+  /**
+   * 処理名: 値の表示用文字列
+   * @param {unknown} value 値
+   * @returns {string} JSON文字列（Serializerの特殊値は/source/flags・<Buffer hex>等の短い表記）
+   * @private
+   */
+  private static formatValue(value: unknown): string {
+    if (!Serializer.isTaggedValue(value)) {
+      return value === undefined ? 'undefined' : JSON.stringify(value);
+    }
+    const tagged = value as Record<string, unknown>;
+    switch (tagged.type) {
+      case 'RegExp':
+        return `/${tagged.source}/${tagged.flags || ''}`;
+      case 'Buffer':
+        return `<Buffer ${tagged.hex}>`;
+      case 'Env':
+        return `<Env ${tagged.name}>`;
+      default:
+        return '<Secret>';
+    }
+  }
+
+  /**
+   * 処理名: シリアライズ済みのJSON文字列の読み込み
+   * @param {string} json シリアライズ済みのJSON文字列
+   * @param {(string | number)[][]} secretPaths Secretのパス
+   * @returns {unknown} Serializerを指定した場合はデシリアライズしたオブジェクト、
+   *   それ以外はSecretを内容に関わらず等しい値に置き換えたオブジェクト
+   * @private
+   */
+  private load(json: string, secretPaths: (string | number)[][]): unknown {
+    if (this.serializer) {
+      return this.serializer.deserializeObject(json);
+    }
+    const data = JSON.parse(json);
+    if (secretPaths.some((segments) => segments.length === 0)) {
+      return OPAQUE_SECRET;
+    }
+    for (const segments of secretPaths) {
+      const parent = segments
+        .slice(0, -1)
+        .reduce((value: Record<string | number, unknown>, key) => value[key] as Record<string | number, unknown>, data);
+      parent[segments[segments.length - 1]] = OPAQUE_SECRET;
+    }
+    return data;
+  }
+
+  /**
+   * 処理名: 比較できないSecretの警告
+   * @param {(string | number)[][]} oldSecrets 変更前のSecretのパス
+   * @param {(string | number)[][]} newSecrets 変更後のSecretのパス
+   * @private
+   */
+  private warnOpaqueSecrets(oldSecrets: (string | number)[][], newSecrets: (string | number)[][]): void {
+    const oldPaths = new Set(oldSecrets.map((segments) => JSON.stringify(segments.map(String))));
+    const count = newSecrets.filter((segments) => oldPaths.has(JSON.stringify(segments.map(String)))).length;
+    if (count > 0 && this.onWarning) {
+      this.onWarning(
+        `${count} Secret value${count === 1 ? ' was' : 's were'} compared without a key; changes to their contents are not detected`
+      );
+    }
+  }
+
+  /**
+   * 処理名: 比較用の値への変換
+   * @param {unknown} value デシリアライズ済みの値
+   * @returns {unknown} RegExp・BufferをSerializerの形式に戻した値（JSONとして比較できる）
+   * @private
+   */
+  private toComparable(value: unknown): unknown {
+    if (Buffer.isBuffer(value)) {
+      return { type: 'Buffer', hex: value.toString('hex') };
+    }
+    if (Object.prototype.toString.call(value) === '[object RegExp]') {
+      const regExp = value as RegExp;
+      return { type: 'RegExp', source: regExp.source, flags: regExp.flags };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toComparable(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.toComparable(item)]));
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: Secretの内容の伏せ字化
+   * @param {unknown} value 差分の値
+   * @param {string[]} segments 値のパス
+   * @param {(string | number)[][]} secretPaths Secretのパス
+   * @returns {unknown} Secretの内容（値の中に含まれるものを含む）を伏せ字にした値
+   * @private
+   */
+  private mask(value: unknown, segments: string[], secretPaths: (string | number)[][]): unknown {
+    if (value === undefined) {
+      return value;
+    }
+    const inside = secretPaths.some(
+      (path) => path.length <= segments.length && path.every((key, index) => String(key) === segments[index])
+    );
+    if (inside) {
+      return MASK;
+    }
+    if (!value || typeof value !== 'object' || Serializer.isTaggedValue(value)) {
+      return value;
+    }
+    const entries = Object.entries(value).map(([key, item]) => [key, this.mask(item, [...segments, key], secretPaths)]);
+    return Array.isArray(value) ? entries.map(([, item]) => item) : Object.fromEntries(entries);
+  }
+}
+
+export default ConfigDiff;
@@ -0,0 +1,721 @@
+import * as jsonc from 'jsonc-parser';
+import * as YAML from 'yaml';
+import * as jsYaml from 'js-yaml';
+import ConfigAccessor, { ConfigPath } from './ConfigAccessor';
+import { CONFIG_YAML_SCHEMA } from './FormatRegistry';
+import Serializer from './Serializer';
+
+/**
+ * 編集対象のパスの型（ConfigAccessorと同じ形式。例: db.hosts[0].name、キー内のドットは「\.」）
+ */
+export type EditPath = ConfigPath;
+
+/**
+ * 編集操作の型
+ * - set: 値を設定する（存在しないキーは追加、配列は末尾のインデックスで追加）
+ * - delete: 値を削除する（存在しない場合は何もしない）
+ */
+export type EditOperation =
+  | { op: 'set'; path: EditPath; value: unknown }
+  | { op: 'delete'; path: EditPath };
+
+/**
+ * ConfigEditorのオプション型
+ */
+export interface ConfigEditorOptions {
+  /** 新しく追加する入れ子の値のインデックス幅（JSONは既存の内容から判定、デフォルト: 2） */
+  indent?: number;
+}
+
+type YamlCollection = YAML.YAMLMap<unknown, unknown> | YAML.YAMLSeq<unknown>;
+
+/**
+ * YAMLの編集位置の型
+ */
+interface YamlTarget {
+  /** 編集対象を含むコレクション */
+  parent: YamlCollection;
+  /** コレクション内の位置（見つからない場合は-1） */
+  index: number;
+  /** 親コレクションの編集位置（ルートの場合はundefined） */
+  outer?: YamlTarget;
+}
+
+/**
+ * 処理名: 書式を保った設定ファイルの編集
+ *
+ * 処理概要:
+ * YAML/JSON(JSONC)のテキストに対して、指定したパスの値の設定・削除を行う。
+ * 変更するノードの範囲だけを書き換え、コメント・キーの順序・引用符等のそれ以外の部分は元の文字列のまま残す
+ *
+ * 実装理由:
+ * writeConfigSyncは設定全体を出力し直すため、手で管理しているYAMLのコメントや書式が
+ * 1つの値の変更で失われてしまうため
+ */
+export class ConfigEditor {
+  private indent: number;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {ConfigEditorOptions} [options] 編集オプション
+   */
+  constructor(options: ConfigEditorOptions = {}) {
+    this.indent = options.indent || 2;
+  }
+
+  /**
+   * 処理名: 設定テキストの編集
+   *
+   * 処理概要:
+   * 形式に応じてYAMLまたはJSON(JSONC)の編集を操作の順に適用する。
+   * JSON5は引用符の無いキー等を解析できないため、内容に関わらず未対応のエラーにする
+   *
+   * 実装理由:
+   * 複数の値の変更を1回の読み書きで行えるようにするため
+   * @param {string} text 設定ファイルの内容
+   * @param {string} format 形式名（yaml・json・jsonc）
+   * @param {EditOperation[]} operations 編集操作
+   * @returns {string} 編集後の内容
+   * @throws {Error} 未対応の形式、構文エラー、またはパスの途中が値の場合
+   */
+  edit(text: string, format: string, operations: EditOperation[]): string {
+    if (format === 'yaml') {
+      const edited = operations.reduce((current, operation) => this.editYaml(current, operation), text);
+      this.parseYaml(edited);
+      return edited;
+    }
+    if (format === 'json' || format === 'jsonc') {
+      return operations.reduce((current, operation) => this.editJson(current, operation), text);
+    }
+    if (format === 'json5') {
+      throw new Error('editing json5 files is not supported (convert the file to JSONC or YAML to edit it in place)');
+    }
+    throw new Error(`editing ${format} files is not supported`);
+  }
+
+  /**
+   * 処理名: パスの分解
+   * @param {EditPath} path 編集対象のパス
+   * @returns {string[]} パスのセグメント配列
+   * @throws {Error} パスの形式が不正な場合
+   * @private
+   */
+  private toSegments(path: EditPath): string[] {
+    const segments = ConfigAccessor.parsePath(path).map(String);
+    if (segments.length === 0) {
+      throw new Error(`invalid path '${path}': empty path`);
+    }
+    return segments;
+  }
+
+  /**
+   * 処理名: 入れ子の値の生成
+   * @param {string[]} segments 存在しない部分のパス
+   * @param {unknown} value 末端の値
+   * @returns {unknown} パスに沿って入れ子にした値
+   * @private
+   */
+  private nest(segments: string[], value: unknown): unknown {
+    return segments.reduceRight((nested, segment) => ({ [segment]: nested }), value);
+  }
+
+  /**
+   * 処理名: 配列インデックスの解析
+   * @param {string} segment パスのセグメント
+   * @param {number} length 配列の長さ
+   * @param {string} label エラー表示用のパス
+   * @returns {number} インデックス（末尾への追加はlength）
+   * @throws {Error} インデックスが数値でないか範囲外の場合
+   * @private
+   */
+  private arrayIndex(segment: string, length: number, label: string): number {
+    const index = Number(segment);
+    if (!/^\d+$/.test(segment) || index > length) {
+      throw new Error(`invalid array index '${segment}' in ${label} (length ${length})`);
+    }
+    return index;
+  }
+
+  /**
+   * 処理名: 値でない位置のエラー生成
+   * @param {string} label エラー表示用のパス
+   * @param {string[]} segments パスのセグメント配列
+   * @param {number} depth 値だった位置
+   * @returns {Error} エラー
+   * @private
+   */
+  private notContainer(label: string, segments: string[], depth: number): Error {
+    const prefix = segments.slice(0, depth).join('.') || 'the root';
+    return new Error(`cannot set ${label}: ${prefix} is not an object or array`);
+  }
+
+  /**
+   * 処理名: JSONのインデント単位の判定
+   * @param {string} text JSONテキスト
+   * @returns {string} 既存の内容の最初の字下げ（無い場合はオプションの幅の空白）
+   * @private
+   */
+  private jsonIndent(text: string): string {
+    const indent = /\n([ \t]+)\S/.exec(text)?.[1];
+    return indent || ' '.repeat(this.indent);
+  }
+
+  /**
+   * 処理名: JSONの解析
+   * @param {string} text JSONテキスト
+   * @returns {jsonc.Node | undefined} 構文木
+   * @throws {Error} 構文エラーの場合
+   * @private
+   */
+  private parseJson(text: string): jsonc.Node | undefined {
+    const errors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(text, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+      const lines = text.slice(0, errors[0].offset).split('\n');
+      throw new Error(
+        `parse error at ${lines.length}:${lines[lines.length - 1].length + 1}: ${jsonc.printParseErrorCode(errors[0].error)}`
+      );
+    }
+    return root;
+  }
+
+  /**
+   * 処理名: JSONの編集位置の解決
+   * @param {jsonc.Node} root 構文木
+   * @param {string[]} segments パスのセグメント配列
+   * @param {string} label エラー表示用のパス
+   * @returns {{parent: jsonc.Node, key: string | number, node?: jsonc.Node, rest: string[]}}
+   *   既存部分の末端のオブジェクト・配列、そのキー・値と、存在しない部分のパス
+   * @throws {Error} パスの途中が値の場合
+   * @private
+   */
+  private resolveJson(
+    root: jsonc.Node,
+    segments: string[],
+    label: string
+  ): { parent: jsonc.Node; key: string | number; node?: jsonc.Node; rest: string[] } {
+    let parent = root;
+    for (const [depth, segment] of segments.entries()) {
+      if (parent.type !== 'object' && parent.type !== 'array') {
+        throw this.notContainer(label, segments, depth);
+      }
+      const key = parent.type === 'array' ? this.arrayIndex(segment, parent.children?.length || 0, label) : segment;
+      const node = jsonc.findNodeAtLocation(parent, [key]);
+      if (depth === segments.length - 1 || !node || node.type === 'null') {
+        return { parent, key, node, rest: segments.slice(depth + 1) };
+      }
+      parent = node;
+    }
+    throw this.notContainer(label, segments, 0);
+  }
+
+  /**
+   * 処理名: 1行形式のJSONの出力
+   * @param {unknown} value 値
+   * @returns {string} 「, 」「: 」区切りで1行にしたJSON
+   * @private
+   */
+  private inlineJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.inlineJson(item)).join(', ')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => JSON.stringify(key) + ': ' + this.inlineJson(item));
+      return `{${entries.join(', ')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  /**
+   * 処理名: JSONの値の出力
+   * @param {string} text JSONテキスト
+   * @param {jsonc.Node} parent 値を含むオブジェクト・配列
+   * @param {number} offset 値を書き込む位置（複数行の場合はこの行の字下げに合わせる）
+   * @param {unknown} value 値
+   * @returns {string} 親が複数行の場合は字下げした複数行、1行の場合は1行のJSON
+   * @private
+   */
+  private renderJson(text: string, parent: jsonc.Node, offset: number, value: unknown): string {
+    if (!text.slice(parent.offset, parent.offset + parent.length).includes('\n')) {
+      return this.inlineJson(value);
+    }
+    const lineStart = offset - this.column(text, offset);
+    const base = /^[ \t]*/.exec(text.slice(lineStart))?.[0] || '';
+    return JSON.stringify(value, null, this.jsonIndent(text)).split('\n').join(`\n${base}`);
+  }
+
+  /**
+   * 処理名: JSONの値の追加
+   * @param {string} text JSONテキスト
+   * @param {jsonc.Node} parent 追加先のオブジェクト・配列
+   * @param {string | number} key 追加するキー（配列の場合は無視）
+   * @param {unknown} value 追加する値
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private insertJson(text: string, parent: jsonc.Node, key: string | number, value: unknown): string {
+    const children = parent.children || [];
+    const last = children[children.length - 1];
+    const render = (offset: number): string => {
+      const rendered = this.renderJson(text, parent, offset, value);
+      return parent.type === 'object' ? `${JSON.stringify(String(key))}: ${rendered}` : rendered;
+    };
+    if (!last) {
+      return this.splice(text, parent.offset + 1, parent.offset + 1, render(parent.offset));
+    }
+    const end = last.offset + last.length;
+    const multiline = text.slice(parent.offset, parent.offset + parent.length).includes('\n');
+    const separator = multiline
+      ? `,\n${' '.repeat(this.column(text, last.offset))}`
+      : ', ';
+    return this.splice(text, end, end, separator + render(last.offset));
+  }
+
+  /**
+   * 処理名: JSONの値の削除
+   *
+   * 処理概要:
+   * 値を削除し、親のオブジェクト・配列が空白だけになった場合は「{}」「[]」にまとめる
+   *
+   * 実装理由:
+   * 最後のキーを削除したときに「{\n  }」のような字下げだけの行を残さないため
+   * @param {string} text JSONテキスト
+   * @param {jsonc.Node} parent 値を含むオブジェクト・配列
+   * @param {jsonc.Node} node 削除する値
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private deleteJson(text: string, parent: jsonc.Node, node: jsonc.Node): string {
+    const edited = jsonc.applyEdits(text, jsonc.modify(text, jsonc.getNodePath(node), undefined, {}));
+    const emptied = jsonc.findNodeAtLocation(this.parseJson(edited) as jsonc.Node, jsonc.getNodePath(parent));
+    if (!emptied || (emptied.children?.length || 0) > 0) {
+      return edited;
+    }
+    const inner = edited.slice(emptied.offset + 1, emptied.offset + emptied.length - 1);
+    if (inner.trim() !== '') {
+      return edited;
+    }
+    const empty = emptied.type === 'array' ? '[]' : '{}';
+    return this.splice(edited, emptied.offset, emptied.offset + emptied.length, empty);
+  }
+
+  /**
+   * 処理名: JSONの編集
+   * @param {string} text JSONテキスト
+   * @param {EditOperation} operation 編集操作
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private editJson(text: string, operation: EditOperation): string {
+    const segments = this.toSegments(operation.path);
+    if (text.trim() === '') {
+      return operation.op === 'delete'
+        ? text
+        : `${JSON.stringify(this.nest(segments, operation.value), null, this.indent)}\n`;
+    }
+    const root = this.parseJson(text) as jsonc.Node;
+    const { parent, key, node, rest } = this.resolveJson(root, segments, segments.join('.'));
+    if (operation.op === 'delete') {
+      return node && rest.length === 0 ? this.deleteJson(text, parent, node) : text;
+    }
+    const value = this.nest(rest, operation.value);
+    return node
+      ? this.splice(text, node.offset, node.offset + node.length, this.renderJson(text, parent, node.offset, value))
+      : this.insertJson(text, parent, key, value);
+  }
+
+  /**
+   * 処理名: YAMLの解析
+   * @param {string} text YAMLテキスト
+   * @returns {YAML.Document.Parsed} ドキュメント
+   * @throws {Error} 構文エラーの場合
+   * @private
+   */
+  private parseYaml(text: string): YAML.Document.Parsed {
+    const doc = YAML.parseDocument(text);
+    if (doc.errors.length > 0) {
+      throw new Error(`parse error: ${doc.errors[0].message}`);
+    }
+    return doc;
+  }
+
+  /**
+   * 処理名: YAMLの子ノードの取得
+   * @param {YamlCollection} parent コレクション
+   * @param {number} index コレクション内の位置
+   * @returns {YAML.Node | null} 子ノード（値が無い場合はnull）
+   * @private
+   */
+  private yamlChild(parent: YamlCollection, index: number): YAML.Node | null {
+    const item = parent.items[index];
+    const node = YAML.isPair(item) ? item.value : item;
+    return YAML.isNode(node) ? node : null;
+  }
+
+  /**
+   * 処理名: YAMLのコレクション内の位置の検索
+   * @param {YamlCollection} parent コレクション
+   * @param {string} segment パスのセグメント
+   * @param {string} label エラー表示用のパス
+   * @returns {number} 位置（キーが無い場合は-1、配列の末尾への追加は要素数）
+   * @private
+   */
+  private yamlIndex(parent: YamlCollection, segment: string, label: string): number {
+    if (YAML.isSeq(parent)) {
+      return this.arrayIndex(segment, parent.items.length, label);
+    }
+    return parent.items.findIndex((pair) => String(YAML.isScalar(pair.key) ? pair.key.value : pair.key) === segment);
+  }
+
+  /**
+   * 処理名: YAMLの編集位置の解決
+   * @param {YAML.Document.Parsed} doc ドキュメント
+   * @param {string[]} segments パスのセグメント配列
+   * @param {string} label エラー表示用のパス
+   * @returns {{target: YamlTarget, depth: number}} 既存部分の末端の位置と、そのセグメントの位置
+   * @throws {Error} パスの途中が値の場合
+   * @private
+   */
+  private resolveYaml(
+    doc: YAML.Document.Parsed,
+    segments: string[],
+    label: string
+  ): { target: YamlTarget; depth: number } {
+    let node: unknown = doc.contents;
+    let outer: YamlTarget | undefined;
+    for (const [depth, segment] of segments.entries()) {
+      if (!YAML.isMap(node) && !YAML.isSeq(node)) {
+        throw this.notContainer(label, segments, depth);
+      }
+      const target: YamlTarget = { parent: node, index: this.yamlIndex(node, segment, label), outer };
+      const child = target.index < 0 ? null : this.yamlChild(node, target.index);
+      if (depth === segments.length - 1 || this.isEmptyYaml(child)) {
+        return { target, depth };
+      }
+      node = child;
+      outer = target;
+    }
+    throw this.notContainer(label, segments, 0);
+  }
+
+  /**
+   * 処理名: YAMLの編集
+   * @param {string} text YAMLテキスト
+   * @param {EditOperation} operation 編集操作
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private editYaml(text: string, operation: EditOperation): string {
+    const segments = this.toSegments(operation.path);
+    const doc = this.parseYaml(text);
+    if (this.isEmptyYaml(doc.contents)) {
+      return operation.op === 'delete' ? text : this.initYaml(text, segments, operation.value);
+    }
+    const { target, depth } = this.resolveYaml(doc, segments, segments.join('.'));
+    const exists = target.index >= 0 && target.index < target.parent.items.length;
+    if (operation.op === 'delete') {
+      return exists && depth === segments.length - 1 ? this.deleteYaml(text, target) : text;
+    }
+    const value = this.nest(segments.slice(depth + 1), operation.value);
+    return exists
+      ? this.replaceYaml(text, target, value)
+      : this.insertYaml(text, target.parent, segments[depth], value);
+  }
+
+  /**
+   * 処理名: 値の無いノードかの判定
+   * @param {unknown} node ノード
+   * @returns {boolean} ノードが無いかnullのスカラーの場合true
+   * @private
+   */
+  private isEmptyYaml(node: unknown): boolean {
+    return !node || (YAML.isScalar(node) && node.value === null);
+  }
+
+  /**
+   * 処理名: 空のYAMLへの値の設定
+   * @param {string} text 値の無いYAMLテキスト（コメントのみ等）
+   * @param {string[]} segments パスのセグメント配列
+   * @param {unknown} value 設定する値
+   * @returns {string} 末尾に値を追加したテキスト
+   * @private
+   */
+  private initYaml(text: string, segments: string[], value: unknown): string {
+    const separator = text === '' || text.endsWith('\n') ? '' : '\n';
+    return `${text}${separator}${this.renderBlock(this.nest(segments, value))}\n`;
+  }
+
+  /**
+   * 処理名: 文字列の置き換え
+   * @param {string} text 元の文字列
+   * @param {number} start 開始位置
+   * @param {number} end 終了位置
+   * @param {string} replacement 置き換える文字列（改行は元のテキストの改行コードに合わせる）
+   * @returns {string} 置き換え後の文字列
+   * @private
+   */
+  private splice(text: string, start: number, end: number, replacement: string): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    return text.slice(0, start) + replacement.replace(/\r?\n/g, eol) + text.slice(end);
+  }
+
+  /**
+   * 処理名: 桁位置の取得
+   * @param {string} text テキスト
+   * @param {number} offset 位置
+   * @returns {number} 行頭からの桁位置
+   * @private
+   */
+  private column(text: string, offset: number): number {
+    return offset - (text.lastIndexOf('\n', offset - 1) + 1);
+  }
+
+  /**
+   * 処理名: 次の行頭位置の取得
+   * @param {string} text テキスト
+   * @param {number} offset 位置
+   * @returns {number} offsetを含む行の次の行頭（最終行の場合はテキストの末尾）
+   * @private
+   */
+  private nextLine(text: string, offset: number): number {
+    if (offset > 0 && text[offset - 1] === '\n') {
+      return offset;
+    }
+    const newline = text.indexOf('\n', offset);
+    return newline < 0 ? text.length : newline + 1;
+  }
+
+  /**
+   * 処理名: ノードの終了位置の取得
+   * @param {string} text テキスト
+   * @param {YAML.Node} node ノード
+   * @returns {number} 値の終了位置（ブロック形式のコレクション・ブロックスカラーは末尾の改行を含めない）
+   * @private
+   */
+  private valueEnd(text: string, node: YAML.Node): number {
+    const end = (node.range as YAML.Range)[1];
+    const block = YAML.isCollection(node)
+      ? !node.flow
+      : YAML.isScalar(node) && (node.type === 'BLOCK_LITERAL' || node.type === 'BLOCK_FOLDED');
+    return block && text[end - 1] === '\n' ? end - 1 : end;
+  }
+
+  /**
+   * 処理名: 要素の開始位置の取得
+   * @param {string} text テキスト
+   * @param {YamlCollection} parent コレクション
+   * @param {number} index コレクション内の位置
+   * @returns {number} キー、またはブロック形式の配列では「-」の位置
+   * @private
+   */
+  private itemStart(text: string, parent: YamlCollection, index: number): number {
+    const item = parent.items[index];
+    const node = (YAML.isPair(item) ? item.key : item) as YAML.Node;
+    const start = (node.range as YAML.Range)[0];
+    return YAML.isSeq(parent) && !parent.flow ? text.lastIndexOf('-', start) : start;
+  }
+
+  /**
+   * 処理名: 要素の終了位置の取得
+   * @param {YamlCollection} parent コレクション
+   * @param {number} index コレクション内の位置
+   * @param {boolean} withComment 行末のコメントを含めるか
+   * @returns {number} 値の終了位置
+   * @private
+   */
+  private itemEnd(parent: YamlCollection, index: number, withComment: boolean): number {
+    const item = parent.items[index];
+    const node = (YAML.isPair(item) ? (YAML.isNode(item.value) ? item.value : item.key) : item) as YAML.Node;
+    return (node.range as YAML.Range)[withComment ? 2 : 1];
+  }
+
+  /**
+   * 処理名: ブロック形式で出力する値かの判定
+   * @param {unknown} value 値
+   * @returns {boolean} 空でないオブジェクト・配列（Serializerの特殊な値を除く）の場合true
+   * @private
+   */
+  private isBlockValue(value: unknown): boolean {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    return Object.keys(value).length > 0 && !Serializer.isTaggedValue(value);
+  }
+
+  /**
+   * 処理名: 1行形式の値の出力
+   * @param {unknown} value 値
+   * @param {string} [quoting] 元の値の引用符の種類（文字列のみ引き継ぐ）
+   * @returns {string} フロー形式のYAML
+   * @private
+   */
+  private renderInline(value: unknown, quoting?: string): string {
+    const quoted = typeof value === 'string' && (quoting === 'QUOTE_DOUBLE' || quoting === 'QUOTE_SINGLE');
+    return jsYaml
+      .dump(value, {
+        schema: CONFIG_YAML_SCHEMA,
+        flowLevel: 0,
+        lineWidth: -1,
+        forceQuotes: quoted || (typeof value === 'string' && value.includes('\n')),
+        quotingType: quoting === 'QUOTE_SINGLE' ? "'" : '"',
+      })
+      .replace(/\n$/, '');
+  }
+
+  /**
+   * 処理名: ブロック形式の値の出力
+   * @param {unknown} value 値
+   * @param {number} [column] 2行目以降の字下げ幅
+   * @returns {string} ブロック形式のYAML（末尾の改行を除く）
+   * @private
+   */
+  private renderBlock(value: unknown, column = 0): string {
+    return jsYaml
+      .dump(value, { schema: CONFIG_YAML_SCHEMA, indent: this.indent, lineWidth: -1 })
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line, index) => (index === 0 || line === '' ? line : ' '.repeat(column) + line))
+      .join('\n');
+  }
+
+  /**
+   * 処理名: キーと値の組の出力
+   * @param {string} key キー
+   * @param {unknown} value 値
+   * @param {number} column キーの桁位置
+   * @returns {string} 「key: value」形式のYAML（ブロック形式の値は次の行から出力）
+   * @private
+   */
+  private renderEntry(key: string, value: unknown, column: number): string {
+    const renderedKey = this.renderInline(key);
+    if (!this.isBlockValue(value)) {
+      return `${renderedKey}: ${this.renderInline(value)}`;
+    }
+    return `${renderedKey}:\n${' '.repeat(column + this.indent)}${this.renderBlock(value, column + this.indent)}`;
+  }
+
+  /**
+   * 処理名: YAMLの既存の値の置き換え
+   * @param {string} text YAMLテキスト
+   * @param {YamlTarget} target 編集位置
+   * @param {unknown} value 新しい値
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private replaceYaml(text: string, target: YamlTarget, value: unknown): string {
+    const { parent, index } = target;
+    const item = parent.items[index];
+    const old = this.yamlChild(parent, index);
+    const oldIsBlock = YAML.isCollection(old) && !old.flow;
+    if (YAML.isPair(item) && !parent.flow && (!this.hasSource(old) || oldIsBlock || this.isBlockValue(value))) {
+      return this.replacePairValue(text, item.key as YAML.Node, old, value);
+    }
+    const node = old as YAML.Node;
+    const start = (node.range as YAML.Range)[0];
+    const rendered =
+      this.isBlockValue(value) && !parent.flow
+        ? this.renderBlock(value, this.column(text, start))
+        : this.renderInline(value, YAML.isScalar(node) ? node.type : undefined);
+    return this.splice(text, start, this.valueEnd(text, node), rendered);
+  }
+
+  /**
+   * 処理名: ソース上に値があるノードかの判定
+   * @param {YAML.Node | null} node ノード
+   * @returns {boolean} 「key:」のように値が省略されていない場合true
+   * @private
+   */
+  private hasSource(node: YAML.Node | null): node is YAML.Node {
+    return !!node?.range && node.range[0] !== node.range[1];
+  }
+
+  /**
+   * 処理名: ブロック形式のマッピングの値の置き換え
+   *
+   * 処理概要:
+   * 「:」の直後から値の終わりまでを置き換える。オブジェクト・配列はキーより1段深く字下げして次の行から出力する
+   *
+   * 実装理由:
+   * 値が省略されたキーや、スカラーとブロック形式のコレクションの入れ替えでも正しい字下げにするため
+   * @param {string} text YAMLテキスト
+   * @param {YAML.Node} key キーのノード
+   * @param {YAML.Node | null} old 元の値のノード
+   * @param {unknown} value 新しい値
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private replacePairValue(text: string, key: YAML.Node, old: YAML.Node | null, value: unknown): string {
+    const keyRange = key.range as YAML.Range;
+    const colon = text.indexOf(':', keyRange[1]);
+    const end = this.hasSource(old) ? this.valueEnd(text, old) : colon + 1;
+    const column = this.column(text, keyRange[0]) + this.indent;
+    const rendered = this.isBlockValue(value)
+      ? `\n${' '.repeat(column)}${this.renderBlock(value, column)}`
+      : ` ${this.renderInline(value)}`;
+    return this.splice(text, colon + 1, end, rendered);
+  }
+
+  /**
+   * 処理名: YAMLの値の追加
+   * @param {string} text YAMLテキスト
+   * @param {YamlCollection} parent 追加先のコレクション
+   * @param {string} key 追加するキー（配列の場合は無視）
+   * @param {unknown} value 追加する値
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private insertYaml(text: string, parent: YamlCollection, key: string, value: unknown): string {
+    const isMap = YAML.isMap(parent);
+    const last = parent.items.length - 1;
+    if (parent.flow) {
+      const entry = isMap ? `${this.renderInline(key)}: ${this.renderInline(value)}` : this.renderInline(value);
+      return last < 0
+        ? this.splice(text, (parent.range as YAML.Range)[0] + 1, (parent.range as YAML.Range)[0] + 1, entry)
+        : this.splice(text, this.itemEnd(parent, last, false), this.itemEnd(parent, last, false), `, ${entry}`);
+    }
+    const column = this.column(text, this.itemStart(text, parent, 0));
+    const entry = isMap
+      ? this.renderEntry(key, value, column)
+      : `- ${this.isBlockValue(value) ? this.renderBlock(value, column + 2) : this.renderInline(value)}`;
+    const position = this.nextLine(text, this.itemEnd(parent, last, true));
+    const separator = position === text.length && !text.endsWith('\n') ? '\n' : '';
+    return this.splice(text, position, position, `${separator}${' '.repeat(column)}${entry}\n`);
+  }
+
+  /**
+   * 処理名: YAMLの値の削除
+   * @param {string} text YAMLテキスト
+   * @param {YamlTarget} target 削除する位置
+   * @returns {string} 編集後のテキスト
+   * @private
+   */
+  private deleteYaml(text: string, target: YamlTarget): string {
+    const { parent, index } = target;
+    if (parent.items.length === 1) {
+      const empty = YAML.isMap(parent) ? {} : [];
+      if (target.outer) {
+        return this.replaceYaml(text, target.outer, empty);
+      }
+      return this.splice(text, (parent.range as YAML.Range)[0], this.valueEnd(text, parent), this.renderInline(empty));
+    }
+    if (parent.flow) {
+      return index > 0
+        ? this.splice(text, this.itemEnd(parent, index - 1, false), this.itemEnd(parent, index, false), '')
+        : this.splice(text, this.itemStart(text, parent, 0), this.itemStart(text, parent, 1), '');
+    }
+    const start = this.itemStart(text, parent, index);
+    const lineStart = start - this.column(text, start);
+    if (text.slice(lineStart, start).trim() !== '') {
+      // 「- key: value」のように親の要素と同じ行にある最初の要素は、次の要素を同じ行に詰める
+      return this.splice(text, start, this.itemStart(text, parent, index + 1), '');
+    }
+    return this.splice(text, lineStart, this.nextLine(text, this.itemEnd(parent, index, true)), '');
+  }
+}
+
+export default ConfigEditor;
@@ -1,24 +1,79 @@
-import * as path from 'path';
 import * as fs from 'fs';
-import * as yaml from 'js-yaml';
+import * as fsPromises from 'fs/promises';
 import * as sourceMapSupport from 'source-map-support';
+import ConfigEditor, { EditOperation } from './ConfigEditor';
+import ConfigMerger, { MergeOptions } from './ConfigMerger';
+import FormatRegistry, { ConfigFormat } from './FormatRegistry';
 
 // デバッグ用のsourceMap設定
 sourceMapSupport.install();
 
+/**
+ * 非同期入出力のオプション型
+ */
+export interface ConfigIoOptions {
+  /** 処理を中断するためのシグナル */
+  signal?: AbortSignal;
+}
+
+/**
+ * 形式指定のオプション型
+ */
+export interface FormatOptions {
+  /** 拡張子に関わらず使用する形式名（'json'・'yaml'・'toml'・'json5'・'jsonc'、または登録した形式） */
+  format?: string;
+}
+
+/**
+ * 読み込みのオプション型
+ */
+export interface ReadOptions extends ConfigIoOptions, FormatOptions {}
+
+/**
+ * 書き込みのオプション型
+ */
+export interface WriteOptions extends ConfigIoOptions, FormatOptions {
+  /** 一時ファイルに書き込んでからリネームする（書き込み途中の内容を読まれないようにする） */
+  atomic?: boolean;
+}
+
+/**
+ * ConfigLoderのオプション型
+ */
+export interface ConfigLoderOptions {
+  /** .jsonファイルもコメント・末尾カンマを許容して読み込む（デフォルト: false） */
+  lenientJson?: boolean;
+  /** 使用する形式の登録簿（デフォルト: JSON・JSON5・JSONC・YAML・TOMLを登録した登録簿） */
+  formats?: FormatRegistry;
+}
+
+/**
+ * 設定レイヤーの型
+ * 文字列の場合はファイルパス。optionalなレイヤーはファイルが無ければ読み飛ばす
+ */
+export type ConfigLayer = string | { path: string; optional?: boolean; format?: string };
+
+/**
+ * レイヤー読み込みのオプション型
+ */
+export interface LayerOptions extends MergeOptions, ConfigIoOptions {}
+
 /**
  * 処理名: 設定ファイル読み込み・書き込みライブラリ
  *
  * 処理概要:
- * JSON/YAML形式の設定ファイルを読み込み・書き込みするためのクラス。
- * 同期処理で設定ファイルを管理し、フォーマット変換機能を提供する
+ * JSON/YAML/TOML形式の設定ファイルを読み込み・書き込みするためのクラス。
+ * 同期処理・非同期処理の双方で設定ファイルを管理し、フォーマット変換機能を提供する
  *
  * 実装理由:
  * アプリケーション起動時に設定ファイルを即座に読み込む必要があり、
- * JSON/YAMLの双方に対応する必要があるため
+ * JSON/YAMLの双方に対応する必要があるため。
+ * また稼働中のサーバでの再読み込み時にイベントループを止めないため
  */
 export class ConfigLoder {
   private debug: boolean;
+  private options: ConfigLoderOptions;
+  private formats: FormatRegistry;
 
   /**
    * 処理名: コンストラクタ
@@ -29,9 +84,28 @@ export class ConfigLoder {
    * 実装理由:
    * デバッグフラグを設定し、詳細なログ出力をコントロールするため
    * @param {boolean} [debug] デバッグモード（省略可能、デフォルト: false）
+   * @param {ConfigLoderOptions} [options] 読み込みオプション
    */
-  constructor(debug?: boolean) {
+  constructor(debug?: boolean, options: ConfigLoderOptions = {}) {
     this.debug = debug || false;
+    this.options = options;
+    this.formats = options.formats || FormatRegistry.createDefault();
+  }
+
+  /**
+   * 処理名: 形式の登録
+   *
+   * 処理概要:
+   * このConfigLoderの登録簿に独自の形式を登録する（同じ名前の形式は置き換える）
+   *
+   * 実装理由:
+   * INI等の組み込み以外の形式も同じAPIで読み書きできるようにするため
+   * @param {ConfigFormat} format 設定ファイル形式
+   * @returns {ConfigLoder} メソッドチェーン用の自身
+   */
+  registerFormat(format: ConfigFormat): ConfigLoder {
+    this.formats.register(format);
+    return this;
   }
 
   /**
@@ -62,30 +136,139 @@ export class ConfigLoder {
    * 処理名: 設定ファイル読み込み
    *
    * 処理概要:
-   * JSON/YAML形式の設定ファイルを読み込み、JSON文字列として返す。
+   * JSON/YAML/TOML形式の設定ファイルを読み込み、JSON文字列として返す。
    * YAMLは自動的にJSONに変換される
    *
    * 実装理由:
    * 複数のフォーマットに対応しながら、内部的にはJSONで統一处理するため
    * @param {string} filepath ファイルパス
+   * @param {FormatOptions} [options] 形式の強制指定
    * @returns {string} JSON形式の文字列
    * @throws {Error} ファイルが存在しないか読み込みに失敗した場合
    */
-  readConfigSync(filepath: string): string {
+  readConfigSync(filepath: string, options: FormatOptions = {}): string {
     try {
       if (!fs.existsSync(filepath)) {
         throw new Error(`no such list file: ${filepath}`);
       }
       const content = fs.readFileSync(filepath, 'utf8');
-      const ext = path.extname(filepath);
-      return (ext === '.yaml' || ext === '.yml')
-        ? JSON.stringify(yaml.load(content))
-        : content;
+      return this.parseConfigText(filepath, content, options.format);
     } catch (error) {
       throw new Error(`readConfigSync error: ${error}`);
     }
   }
 
+  /**
+   * 処理名: リスト形式の設定ファイル非同期読み込み
+   *
+   * 処理概要:
+   * readListSyncの非同期版。fs/promisesで改行区切りのテキストファイルを読み込む
+   *
+   * 実装理由:
+   * 多数のファイル読み込み時にイベントループをブロックしないため
+   * @param {string} filepath ファイルパス
+   * @param {ConfigIoOptions} [options] 中断シグナル等のオプション
+   * @returns {Promise<string[]>} 行単位に分割された文字列配列
+   * @throws {Error} ファイルが存在しないか読み込みに失敗した場合（中断時はAbortError）
+   */
+  async readList(filepath: string, options: ConfigIoOptions = {}): Promise<string[]> {
+    try {
+      if (!(await this.exists(filepath))) {
+        throw new Error(`no such list file: ${filepath}`);
+      }
+      const data = await fsPromises.readFile(filepath, {
+        encoding: 'utf8',
+        signal: options.signal,
+      });
+      return data.split(/\r?\n/);
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      throw new Error(`read error: ${filepath}`);
+    }
+  }
+
+  /**
+   * 処理名: 設定ファイル非同期読み込み
+   *
+   * 処理概要:
+   * readConfigSyncの非同期版。拡張子でJSON/YAML/TOMLを判定し、JSON文字列として返す
+   *
+   * 実装理由:
+   * 稼働中の再読み込みでイベントループをブロックしないため
+   * @param {string} filepath ファイルパス
+   * @param {ReadOptions} [options] 中断シグナル・形式の強制指定等のオプション
+   * @returns {Promise<string>} JSON形式の文字列
+   * @throws {Error} ファイルが存在しないか読み込みに失敗した場合（中断時はAbortError）
+   */
+  async readConfig(filepath: string, options: ReadOptions = {}): Promise<string> {
+    try {
+      if (!(await this.exists(filepath))) {
+        throw new Error(`no such list file: ${filepath}`);
+      }
+      const content = await fsPromises.readFile(filepath, {
+        encoding: 'utf8',
+        signal: options.signal,
+      });
+      return this.parseConfigText(filepath, content, options.format);
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      throw new Error(`readConfig error: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: 階層化された設定ファイルの読み込み
+   *
+   * 処理概要:
+   * 順序付きのレイヤー（JSON/YAML/TOML/シリアライズ済み出力）を読み込み、
+   * 後のレイヤーを優先してディープマージした1つのオブジェクトを返す。
+   * Secret/Env等のシリアライズ済み特殊値は分解せずに丸ごと置き換える
+   *
+   * 実装理由:
+   * default → 環境別 → ローカル設定を利用者が手作業でマージしなくて済むようにするため
+   * @param {ConfigLayer[]} layers 優先度の低い順に並べたレイヤー
+   * @param {LayerOptions} [options] マージオプション
+   * @returns {unknown} マージされた設定オブジェクト
+   * @throws {Error} 必須レイヤーが存在しないか読み込みに失敗した場合
+   */
+  readLayersSync(layers: ConfigLayer[], options: LayerOptions = {}): unknown {
+    const contents = layers
+      .map((layer) => this.normalizeLayer(layer))
+      .filter((layer) => !layer.optional || fs.existsSync(layer.path))
+      .map((layer) => JSON.parse(this.readConfigSync(layer.path, { format: layer.format })));
+    return new ConfigMerger(options).mergeAll(contents);
+  }
+
+  /**
+   * 処理名: 階層化された設定ファイルの非同期読み込み
+   *
+   * 処理概要:
+   * readLayersSyncの非同期版。各レイヤーを並行して読み込み、順序どおりにマージする
+   *
+   * 実装理由:
+   * 多数のレイヤー読み込みでイベントループをブロックしないため
+   * @param {ConfigLayer[]} layers 優先度の低い順に並べたレイヤー
+   * @param {LayerOptions} [options] マージオプション・中断シグナル
+   * @returns {Promise<unknown>} マージされた設定オブジェクト
+   * @throws {Error} 必須レイヤーが存在しないか読み込みに失敗した場合（中断時はAbortError）
+   */
+  async readLayers(layers: ConfigLayer[], options: LayerOptions = {}): Promise<unknown> {
+    const normalized = layers.map((layer) => this.normalizeLayer(layer));
+    const existence = await Promise.all(
+      normalized.map((layer) => !layer.optional || this.exists(layer.path))
+    );
+    const contents = await Promise.all(
+      normalized
+        .filter((_layer, index) => existence[index])
+        .map(async (layer) =>
+          JSON.parse(
+            await this.readConfig(layer.path, { signal: options.signal, format: layer.format })
+          )
+        )
+    );
+    return new ConfigMerger(options).mergeAll(contents);
+  }
+
   /**
    * 処理名: YAML形式への変換
    *
@@ -98,7 +281,25 @@ export class ConfigLoder {
    * @returns {string} YAML形式の文字列
    */
   toYamlText(json: unknown): string {
-    return yaml.dump(JSON.parse(JSON.stringify(json)));
+    return this.stringifyAs('yaml', json);
+  }
+
+  /**
+   * 処理名: TOML形式への変換
+   *
+   * 処理概要:
+   * JavaScriptオブジェクトをTOML形式のテキストに変換する。
+   * ネストしたオブジェクトはテーブル、オブジェクトの配列はテーブルの配列、Dateは日時として出力する。
+   * TOMLにnullは無いため、null・undefinedの値は出力しない
+   *
+   * 実装理由:
+   * TOMLで設定を管理しているツール向けに、シリアライズ済みの設定をTOMLで保存できるようにするため
+   * @param {unknown} json 変換元のオブジェクト
+   * @returns {string} TOML形式の文字列
+   * @throws {Error} ルートがオブジェクトでない場合
+   */
+  toTomlText(json: unknown): string {
+    return this.stringifyAs('toml', json);
   }
 
   /**
@@ -113,7 +314,7 @@ export class ConfigLoder {
    * @returns {string} フォーマット済みJSON文字列
    */
   toJsonText(json: unknown): string {
-    return JSON.stringify(json, null, 2);
+    return this.stringifyAs('json', json);
   }
 
   /**
@@ -127,20 +328,270 @@ export class ConfigLoder {
    * 変更された設定を指定フォーマットで永続化するため
    * @param {string} filepath ファイルパス
    * @param {unknown} data 書き込むデータ
+   * @param {FormatOptions} [options] 形式の強制指定
    * @throws {Error} 書き込みに失敗した場合
    */
-  writeConfigSync(filepath: string, data: unknown): void {
+  writeConfigSync(filepath: string, data: unknown, options: FormatOptions = {}): void {
     try {
-      const ext = path.extname(filepath);
-      if (ext === '.yaml' || ext === '.yml') {
-        fs.writeFileSync(filepath, this.toYamlText(data));
-      } else {
-        fs.writeFileSync(filepath, this.toJsonText(data));
-      }
+      fs.writeFileSync(filepath, this.stringifyConfig(filepath, data, options.format));
     } catch (error) {
       throw new Error(`writeConfigSync error: ${error}`);
     }
   }
+
+  /**
+   * 処理名: 設定ファイル非同期書き込み
+   *
+   * 処理概要:
+   * writeConfigSyncの非同期版。拡張子からJSON/YAML/TOMLを判定して書き込む。
+   * atomic指定時は同じディレクトリの一時ファイルに書き込んでからリネームする
+   *
+   * 実装理由:
+   * 稼働中の設定保存でイベントループをブロックしないため
+   * @param {string} filepath ファイルパス
+   * @param {unknown} data 書き込むデータ
+   * @param {WriteOptions} [options] 中断シグナル・アトミック書き込み等のオプション
+   * @returns {Promise<void>} 書き込み完了
+   * @throws {Error} 書き込みに失敗した場合（中断時はAbortError）
+   */
+  async writeConfig(
+    filepath: string,
+    data: unknown,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    try {
+      await this.writeText(filepath, this.stringifyConfig(filepath, data, options.format), options);
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      throw new Error(`writeConfig error: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: 設定ファイルの部分編集
+   *
+   * 処理概要:
+   * YAML/JSON(JSONC)の設定ファイルの指定したパスの値だけを書き換える。
+   * editsにドット区切りのパスを指定した場合はvalueを設定し、編集操作の配列を指定した場合は順に適用する。
+   * 変更しない部分のコメント・キーの順序・引用符は元の文字列のまま残す
+   *
+   * 実装理由:
+   * 手で管理している設定ファイルの1つの値をプログラムから変更しても、
+   * 設定全体を出力し直してコメントや書式が失われないようにするため
+   * @param {string} filepath ファイルパス
+   * @param {string | EditOperation[]} edits 設定するパス、または編集操作の配列
+   * @param {unknown} [value] 設定する値（editsにパスを指定した場合）
+   * @param {FormatOptions} [options] 形式の強制指定
+   * @throws {Error} ファイルが存在しない、未対応の形式、または編集に失敗した場合
+   */
+  editConfigSync(
+    filepath: string,
+    edits: string | EditOperation[],
+    value?: unknown,
+    options: FormatOptions = {}
+  ): void {
+    try {
+      const content = fs.readFileSync(filepath, 'utf8');
+      fs.writeFileSync(filepath, this.editConfigText(filepath, content, edits, value, options.format));
+    } catch (error) {
+      throw new Error(`editConfigSync error: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: 設定ファイルの非同期部分編集
+   *
+   * 処理概要:
+   * editConfigSyncの非同期版。atomic指定時は一時ファイルに書き込んでからリネームする
+   *
+   * 実装理由:
+   * 稼働中の設定変更でイベントループをブロックしないため
+   * @param {string} filepath ファイルパス
+   * @param {string | EditOperation[]} edits 設定するパス、または編集操作の配列
+   * @param {unknown} [value] 設定する値（editsにパスを指定した場合）
+   * @param {WriteOptions} [options] 中断シグナル・アトミック書き込み等のオプション
+   * @returns {Promise<void>} 書き込み完了
+   * @throws {Error} ファイルが存在しない、未対応の形式、または編集に失敗した場合（中断時はAbortError）
+   */
+  async editConfig(
+    filepath: string,
+    edits: string | EditOperation[],
+    value?: unknown,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    try {
+      const content = await fsPromises.readFile(filepath, {
+        encoding: 'utf8',
+        signal: options.signal,
+      });
+      await this.writeText(
+        filepath,
+        this.editConfigText(filepath, content, edits, value, options.format),
+        options
+      );
+    } catch (error) {
+      if (this.isAbortError(error)) throw error;
+      throw new Error(`editConfig error: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: ファイルの形式の判定
+   * @param {string} filepath ファイルパス（拡張子判定用）
+   * @param {string} [forced] 強制する形式名
+   * @returns {ConfigFormat} 設定ファイル形式
+   * @private
+   */
+  private resolveFormat(filepath: string, forced?: string): ConfigFormat {
+    const format = this.formats.resolve(filepath, forced);
+    return format.name === 'json' && this.options.lenientJson
+      ? this.formats.get('jsonc')
+      : format;
+  }
+
+  /**
+   * 処理名: 形式を指定した文字列化
+   * @param {string} name 形式名
+   * @param {unknown} data 変換元のデータ
+   * @returns {string} 形式の既定の整形オプションで変換した文字列
+   * @private
+   */
+  private stringifyAs(name: string, data: unknown): string {
+    const format = this.formats.get(name);
+    return format.stringify(data, { ...format.options });
+  }
+
+  /**
+   * 処理名: 読み込みテキストの変換
+   * @param {string} filepath ファイルパス（拡張子判定用）
+   * @param {string} content ファイル内容
+   * @param {string} [forced] 強制する形式名
+   * @returns {string} JSON形式の文字列
+   * @private
+   */
+  private parseConfigText(filepath: string, content: string, forced?: string): string {
+    return this.resolveFormat(filepath, forced).parse(content, filepath);
+  }
+
+  /**
+   * 処理名: 書き込みテキストの生成
+   * @param {string} filepath ファイルパス（拡張子判定用）
+   * @param {unknown} data 書き込むデータ
+   * @param {string} [forced] 強制する形式名
+   * @returns {string} 判定した形式の文字列
+   * @private
+   */
+  private stringifyConfig(filepath: string, data: unknown, forced?: string): string {
+    return this.stringifyAs(this.resolveFormat(filepath, forced).name, data);
+  }
+
+  /**
+   * 処理名: 編集後のテキストの生成
+   * @param {string} filepath ファイルパス（拡張子判定用）
+   * @param {string} content ファイル内容
+   * @param {string | EditOperation[]} edits 設定するパス、または編集操作の配列
+   * @param {unknown} value 設定する値（editsにパスを指定した場合）
+   * @param {string} [forced] 強制する形式名
+   * @returns {string} 編集後の内容
+   * @private
+   */
+  private editConfigText(
+    filepath: string,
+    content: string,
+    edits: string | EditOperation[],
+    value: unknown,
+    forced?: string
+  ): string {
+    const format = this.resolveFormat(filepath, forced);
+    const operations: EditOperation[] =
+      typeof edits === 'string' ? [{ op: 'set', path: edits, value }] : edits;
+    return new ConfigEditor({ indent: format.options?.indent }).edit(content, format.name, operations);
+  }
+
+  /**
+   * 処理名: テキストの書き込み
+   *
+   * 処理概要:
+   * atomic指定時は同じディレクトリの一時ファイルに書き込み、既存のファイルと同じパーミッションにしてからリネームする。
+   * 失敗時は一時ファイルを削除する（削除の失敗は無視し、元のエラーを通知する）
+   * @param {string} filepath ファイルパス
+   * @param {string} text 書き込む内容
+   * @param {WriteOptions} options 中断シグナル・アトミック書き込み等のオプション
+   * @returns {Promise<void>} 書き込み完了
+   * @private
+   */
+  private async writeText(filepath: string, text: string, options: WriteOptions): Promise<void> {
+    const tempPath = options.atomic
+      ? `${filepath}.${process.pid}.${Date.now()}.tmp`
+      : filepath;
+    try {
+      const mode = tempPath !== filepath ? await this.fileMode(filepath) : undefined;
+      await fsPromises.writeFile(tempPath, text, { signal: options.signal, mode });
+      if (mode !== undefined) await fsPromises.chmod(tempPath, mode);
+      if (tempPath !== filepath) await fsPromises.rename(tempPath, filepath);
+    } catch (error) {
+      if (tempPath !== filepath) await fsPromises.rm(tempPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * 処理名: ファイルのパーミッション取得
+   * @param {string} filepath ファイルパス
+   * @returns {Promise<number | undefined>} パーミッション（ファイルが無い場合はundefined）
+   * @private
+   */
+  private async fileMode(filepath: string): Promise<number | undefined> {
+    try {
+      return (await fsPromises.stat(filepath)).mode & 0o7777;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * 処理名: レイヤー指定の正規化
+   * @param {ConfigLayer} layer レイヤー指定
+   * @returns {{path: string, optional: boolean, format?: string}} 正規化されたレイヤー
+   * @private
+   */
+  private normalizeLayer(
+    layer: ConfigLayer
+  ): { path: string; optional: boolean; format?: string } {
+    return typeof layer === 'string'
+      ? { path: layer, optional: false }
+      : { path: layer.path, optional: layer.optional || false, format: layer.format };
+  }
+
+  /**
+   * 処理名: ファイル存在確認（非同期）
+   * @param {string} filepath ファイルパス
+   * @returns {Promise<boolean>} 存在する場合true
+   * @private
+   */
+  private async exists(filepath: string): Promise<boolean> {
+    try {
+      await fsPromises.access(filepath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 処理名: 中断エラー判定
+   * @param {unknown} error エラー
+   * @returns {boolean} AbortSignalによる中断の場合true
+   * @private
+   */
+  private isAbortError(error: unknown): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      (error as { name?: unknown }).name === 'AbortError'
+    );
+  }
 }
 
 export default ConfigLoder;
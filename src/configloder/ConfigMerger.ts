@@ -0,0 +1,176 @@
+import Serializer from './Serializer';
+
+/**
+ * 配列のマージ方式
+ * - replace: 後のレイヤーの配列で置き換える
+ * - concat: 前のレイヤーの配列の後ろに連結する
+ * - mergeByKey: 識別キーが一致する要素同士をマージし、それ以外は追加する
+ */
+export type ArrayMergeStrategy = 'replace' | 'concat' | 'mergeByKey';
+
+/**
+ * マージオプションの型
+ */
+export interface MergeOptions {
+  /** 配列のマージ方式（デフォルト: replace） */
+  arrayStrategy?: ArrayMergeStrategy;
+  /** mergeByKey時の識別キー（デフォルト: id） */
+  mergeKey?: string;
+}
+
+type PlainObject = Record<string, unknown>;
+
+/**
+ * 処理名: 設定オブジェクトのディープマージ
+ *
+ * 処理概要:
+ * 複数の設定オブジェクトを順番に重ね合わせ、1つのオブジェクトにマージする。
+ * 配列は指定された方式でマージし、Serializerの特殊値（Secret/Env等）は分解せずに置き換える
+ *
+ * 実装理由:
+ * default/環境別/ローカル設定のような階層化された設定ファイルを
+ * 利用者側で手作業でマージしなくて済むようにするため
+ */
+export class ConfigMerger {
+  private arrayStrategy: ArrayMergeStrategy;
+  private mergeKey: string;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * ConfigMergerインスタンスを初期化し、配列のマージ方式を設定する
+   *
+   * 実装理由:
+   * レイヤー全体で同じマージ方式を適用するため
+   * @param {MergeOptions} [options] マージオプション
+   */
+  constructor(options: MergeOptions = {}) {
+    this.arrayStrategy = options.arrayStrategy || 'replace';
+    this.mergeKey = options.mergeKey || 'id';
+  }
+
+  /**
+   * 処理名: プレーンオブジェクト判定
+   * @param {unknown} value 値
+   * @returns {boolean} 再帰マージ対象のオブジェクトの場合true
+   * @private
+   */
+  private isMergeableObject(value: unknown): value is PlainObject {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !Serializer.isTaggedValue(value)
+    );
+  }
+
+  /**
+   * 処理名: 値の複製
+   * @param {unknown} value 値
+   * @returns {unknown} 入力と参照を共有しない複製
+   * @private
+   */
+  private cloneValue(value: unknown): unknown {
+    if (value === undefined) {
+      return value;
+    }
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * 処理名: 識別キーによる配列マージ
+   * @param {unknown[]} target マージ先の配列
+   * @param {unknown[]} source マージ元の配列
+   * @returns {unknown[]} マージ結果の配列
+   * @private
+   */
+  private mergeArrayByKey(target: unknown[], source: unknown[]): unknown[] {
+    const result = target.map((item) => this.cloneValue(item));
+    for (const item of source) {
+      const index = this.isMergeableObject(item) && this.mergeKey in item
+        ? result.findIndex(
+          (current) =>
+            this.isMergeableObject(current) &&
+              current[this.mergeKey] === item[this.mergeKey]
+        )
+        : -1;
+      if (index >= 0) {
+        result[index] = this.merge(result[index], item);
+      } else {
+        result.push(this.cloneValue(item));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 処理名: 配列マージ
+   * @param {unknown[]} target マージ先の配列
+   * @param {unknown[]} source マージ元の配列
+   * @returns {unknown[]} マージ結果の配列
+   * @private
+   */
+  private mergeArray(target: unknown[], source: unknown[]): unknown[] {
+    switch (this.arrayStrategy) {
+      case 'concat':
+        return this.cloneValue([...target, ...source]) as unknown[];
+      case 'mergeByKey':
+        return this.mergeArrayByKey(target, source);
+      default:
+        return this.cloneValue(source) as unknown[];
+    }
+  }
+
+  /**
+   * 処理名: 2つの値のマージ
+   *
+   * 処理概要:
+   * targetにsourceを重ねた新しい値を返す。入力値は変更しない。
+   * 双方がオブジェクトの場合は再帰的にマージし、双方が配列の場合は配列のマージ方式に従う。
+   * それ以外（特殊値・プリミティブ・型の不一致）はsourceで置き換える
+   *
+   * 実装理由:
+   * 後のレイヤーの値を優先しつつ、指定されていないキーは前のレイヤーの値を残すため
+   * @param {unknown} target マージ先の値
+   * @param {unknown} source マージ元の値（優先）
+   * @returns {unknown} マージ結果
+   */
+  merge(target: unknown, source: unknown): unknown {
+    if (Array.isArray(target) && Array.isArray(source)) {
+      return this.mergeArray(target, source);
+    }
+    if (!this.isMergeableObject(target) || !this.isMergeableObject(source)) {
+      return this.cloneValue(source);
+    }
+    const result = this.cloneValue(target) as PlainObject;
+    for (const key of Object.keys(source)) {
+      const value = Object.prototype.hasOwnProperty.call(result, key)
+        ? this.merge(result[key], source[key])
+        : this.cloneValue(source[key]);
+      // __proto__への代入でプロトタイプが変わらないよう、プロパティとして定義する
+      Object.defineProperty(result, key, { value, writable: true, enumerable: true, configurable: true });
+    }
+    return result;
+  }
+
+  /**
+   * 処理名: 複数レイヤーのマージ
+   *
+   * 処理概要:
+   * 配列の先頭から順にレイヤーを重ね合わせる。後のレイヤーほど優先される
+   *
+   * 実装理由:
+   * base → 環境別 → ローカル といった順序付きの設定を1つにまとめるため
+   * @param {unknown[]} layers 設定オブジェクトの配列
+   * @returns {unknown} マージ結果（レイヤーが空の場合は空オブジェクト）
+   */
+  mergeAll(layers: unknown[]): unknown {
+    return layers.reduce(
+      (merged: unknown, layer) => this.merge(merged, layer),
+      {}
+    );
+  }
+}
+
+export default ConfigMerger;
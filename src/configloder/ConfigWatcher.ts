@@ -0,0 +1,323 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setTimeout, clearTimeout } from 'timers';
+import ConfigLoder, { ConfigLayer } from './ConfigLoder';
+import { MergeOptions } from './ConfigMerger';
+import FindDifferences, { DifferenceEvent } from './FindDifferences';
+import Serializer from './Serializer';
+
+/**
+ * 設定監視のオプション型
+ */
+export interface ConfigWatcherOptions extends MergeOptions {
+  /** デシリアライズに使用するSerializer（省略時はJSONのまま扱う） */
+  serializer?: Serializer;
+  /** ファイル読み込みに使用するConfigLoder */
+  loader?: ConfigLoder;
+  /** 連続した保存をまとめる待ち時間（ミリ秒、デフォルト: 100） */
+  debounce?: number;
+}
+
+/**
+ * 'changed'イベントの型
+ */
+export interface ConfigChangeEvent {
+  /** 今回の再読み込みで検出された差分 */
+  differences: DifferenceEvent[];
+  /** 再読み込み後の設定 */
+  config: unknown;
+  /** 再読み込み前の設定 */
+  previous: unknown;
+}
+
+/**
+ * 処理名: 設定ファイル監視
+ *
+ * 処理概要:
+ * 設定ファイル（または階層化された複数ファイル）を監視し、変更時にConfigLoderで再読み込みする。
+ * Serializerでデシリアライズした結果をFindDifferencesで比較し、
+ * 差分ごとの'difference'イベントと、再読み込み単位の'changed'イベントを発行する。
+ * 読み込みに失敗した場合は'error'イベントを発行し、直前の正常な設定を保持し続ける
+ *
+ * 実装理由:
+ * ホットリロードのためのファイル監視・差分検出を利用者ごとに実装しなくて済むようにするため
+ */
+export class ConfigWatcher extends EventEmitter {
+  private layers: ConfigLayer[];
+  private options: ConfigWatcherOptions;
+  private loader: ConfigLoder;
+  private finder: FindDifferences;
+  private watchers: fs.FSWatcher[];
+  private timer: ReturnType<typeof setTimeout> | null;
+  private reloading: Promise<void> | null;
+  private pending: boolean;
+  private closed: boolean;
+  private config: unknown;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * 監視対象のファイルとオプションを保持する。監視はstart()で開始する
+   *
+   * 実装理由:
+   * イベントリスナーを登録してから初回読み込みを行えるようにするため
+   * @param {ConfigLayer | ConfigLayer[]} target 監視対象のファイル（配列の場合は優先度の低い順のレイヤー）
+   * @param {ConfigWatcherOptions} [options] 監視オプション
+   */
+  constructor(target: ConfigLayer | ConfigLayer[], options: ConfigWatcherOptions = {}) {
+    super();
+    this.layers = Array.isArray(target) ? target : [target];
+    this.options = options;
+    this.loader = options.loader || new ConfigLoder();
+    this.finder = new FindDifferences();
+    this.watchers = [];
+    this.timer = null;
+    this.reloading = null;
+    this.pending = false;
+    this.closed = false;
+    this.config = undefined;
+  }
+
+  /**
+   * 処理名: 比較用の値への変換
+   * @param {unknown} value デシリアライズ済みの値
+   * @returns {unknown} RegExpをtype付きオブジェクトに置き換えた値
+   * @private
+   */
+  private toComparable(value: unknown): unknown {
+    if (value instanceof RegExp) {
+      return { type: 'RegExp', source: value.source, flags: value.flags };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toComparable(item));
+    }
+    if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.toComparable(item)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: 設定の読み込み
+   * @returns {Promise<unknown>} デシリアライズ済みの設定
+   * @private
+   */
+  private async load(): Promise<unknown> {
+    const merged = await this.loader.readLayers(this.layers, this.options);
+    return this.options.serializer
+      ? this.options.serializer.deserializeObject(JSON.stringify(merged))
+      : merged;
+  }
+
+  /**
+   * 処理名: 監視対象ファイルのパス一覧取得
+   * @returns {string[]} 監視対象ファイルの絶対パス
+   * @private
+   */
+  private layerPaths(): string[] {
+    return this.layers.map((layer) =>
+      path.resolve(typeof layer === 'string' ? layer : layer.path)
+    );
+  }
+
+  /**
+   * 処理名: 再読み込みの予約
+   * @returns {void}
+   * @private
+   */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    const debounce = this.options.debounce ?? 100;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.reload().catch(() => undefined);
+    }, debounce);
+  }
+
+  /**
+   * 処理名: 再読み込みと差分通知
+   * @returns {Promise<void>} 処理完了
+   * @private
+   */
+  private async applyReload(): Promise<void> {
+    let next: unknown;
+    try {
+      next = await this.load();
+    } catch (error) {
+      // 直前の正常な設定を保持したままエラーを通知する
+      if (!this.closed) this.emit('error', error);
+      return;
+    }
+    // 読み込み中にclose()された場合は設定を更新せず、イベントも発行しない
+    if (this.closed) {
+      return;
+    }
+    const differences: DifferenceEvent[] = [];
+    const collect = (diff: DifferenceEvent): void => {
+      differences.push(diff);
+      this.emit('difference', diff);
+    };
+    this.finder.on('difference', collect);
+    try {
+      this.finder.detectChanges(this.toComparable(next));
+    } finally {
+      this.finder.removeListener('difference', collect);
+    }
+    const previous = this.config;
+    this.config = next;
+    if (differences.length > 0) {
+      this.emit('changed', { differences, config: next, previous } as ConfigChangeEvent);
+    }
+  }
+
+  /**
+   * 処理名: 監視するディレクトリの一覧取得
+   *
+   * 処理概要:
+   * 各ファイルのディレクトリ（存在しない場合は存在する最も近い親ディレクトリ）と、
+   * その中で変更を監視するエントリ名（ファイル名、または作成を待つディレクトリ名）を返す
+   *
+   * 実装理由:
+   * 存在しないディレクトリはfs.watchできないため、optionalなレイヤーのディレクトリが
+   * 後から作成された場合も親ディレクトリの監視で検出できるようにするため
+   * @returns {Map<string, Set<string>>} ディレクトリごとの監視するエントリ名
+   * @private
+   */
+  private watchTargets(): Map<string, Set<string>> {
+    const targets = new Map<string, Set<string>>();
+    for (const file of this.layerPaths()) {
+      let directory = path.dirname(file);
+      let entry = path.basename(file);
+      while (!fs.existsSync(directory) && path.dirname(directory) !== directory) {
+        entry = path.basename(directory);
+        directory = path.dirname(directory);
+      }
+      targets.set(directory, (targets.get(directory) || new Set()).add(entry));
+    }
+    return targets;
+  }
+
+  /**
+   * 処理名: ディレクトリの監視
+   *
+   * 処理概要:
+   * 監視中のディレクトリを閉じ、watchTargetsのディレクトリの監視を開始し直す。
+   * 作成を待つディレクトリが変更された場合は監視し直して、そのディレクトリ内のファイルを監視する
+   * @returns {void}
+   * @private
+   */
+  private watch(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    const files = this.layerPaths();
+    for (const [directory, entries] of this.watchTargets()) {
+      this.watchers.push(
+        fs.watch(directory, (_eventType, filename) => {
+          if (!filename || !entries.has(filename.toString()) || this.closed) {
+            return;
+          }
+          if (!files.includes(path.join(directory, filename.toString()))) {
+            this.watch();
+          }
+          this.schedule();
+        })
+      );
+    }
+  }
+
+  /**
+   * 処理名: 監視開始
+   *
+   * 処理概要:
+   * 初回の読み込みを行って差分検出の基準を作成し、各ファイルのディレクトリの監視を開始する
+   *
+   * 実装理由:
+   * エディタの置き換え保存（rename）でもファイルの変更を取りこぼさないよう、
+   * ファイルではなくディレクトリを監視するため
+   * @returns {Promise<unknown>} 初回読み込みした設定
+   * @throws {Error} 初回読み込みに失敗した場合
+   */
+  async start(): Promise<unknown> {
+    this.closed = false;
+    const config = await this.load();
+    // 読み込み中にclose()された場合は監視を開始しない
+    if (this.closed) {
+      return config;
+    }
+    this.config = config;
+    this.finder.initialize(this.toComparable(this.config));
+    this.watch();
+    return this.config;
+  }
+
+  /**
+   * 処理名: 再読み込み
+   *
+   * 処理概要:
+   * 設定を再読み込みし、差分があれば'difference'・'changed'イベントを発行する。
+   * 再読み込み中に呼ばれた場合は、完了後にもう一度だけ再読み込みする。
+   * close()後は何もせず、読み込み中にclose()された場合は結果を破棄する
+   *
+   * 実装理由:
+   * ファイル監視以外のきっかけ（シグナル受信等）でも再読み込みできるようにするため
+   * @returns {Promise<void>} 処理完了
+   */
+  async reload(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    if (this.reloading) {
+      this.pending = true;
+      return this.reloading;
+    }
+    this.reloading = (async () => {
+      do {
+        this.pending = false;
+        await this.applyReload();
+      } while (this.pending && !this.closed);
+    })();
+    try {
+      await this.reloading;
+    } finally {
+      this.reloading = null;
+    }
+  }
+
+  /**
+   * 処理名: 現在の設定取得
+   *
+   * 処理概要:
+   * 最後に正常に読み込めた設定を返す
+   *
+   * 実装理由:
+   * 読み込みエラー時も直前の正常な設定で動作を継続できるようにするため
+   * @returns {unknown} デシリアライズ済みの設定
+   */
+  getConfig(): unknown {
+    return this.config;
+  }
+
+  /**
+   * 処理名: 監視終了
+   *
+   * 処理概要:
+   * ファイル監視と予約済みの再読み込みを停止する。実行中の再読み込みの結果は破棄する
+   *
+   * 実装理由:
+   * プロセス終了やテスト後にイベントループを残さないため
+   * @returns {void}
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+  }
+}
+
+export default ConfigWatcher;
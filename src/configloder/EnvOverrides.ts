@@ -0,0 +1,239 @@
+import { ConfigAccessor } from './ConfigAccessor';
+import Serializer from './Serializer';
+
+/**
+ * 環境変数による上書きのオプション型
+ */
+export interface EnvOverrideOptions {
+  /** 対象とする環境変数名の接頭辞（例: APP） */
+  prefix: string;
+  /** 接頭辞・キーの区切り文字（デフォルト: __） */
+  separator?: string;
+  /** 環境変数（デフォルト: process.env） */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * 上書きした値の型
+ */
+export interface EnvOverride {
+  /** 環境変数名 */
+  variable: string;
+  /** 上書きしたキーのパス */
+  path: (string | number)[];
+  /** 上書き前の値 */
+  previous: unknown;
+  /** 上書き後の値（上書き前の値の型に変換済み） */
+  value: unknown;
+}
+
+/**
+ * 上書きの結果の型
+ */
+export interface EnvOverrideResult {
+  /** 上書きした設定オブジェクト */
+  data: unknown;
+  /** 上書きした値（環境変数名順） */
+  overridden: EnvOverride[];
+  /** 接頭辞が一致したが、対応するキーが無かった環境変数名 */
+  unmatched: string[];
+}
+
+/**
+ * 処理名: 環境変数による設定値の上書き
+ *
+ * 処理概要:
+ * 接頭辞と区切り文字で始まる環境変数（例: APP__DATABASE__POOL__MAX=20）の値で、
+ * 対応する入れ子のキー（database.pool.max）を上書きする。
+ * キーは大文字・小文字と「_」「-」の違いを無視して既存のキーと照合し、数字は配列インデックスとして扱う。
+ * 値は上書き前の値の型（number/boolean/オブジェクト・配列はJSON等）に変換する
+ *
+ * 実装理由:
+ * コンテナ環境で設定ファイルを編集せずに任意の設定を上書きできるようにするため
+ */
+export class EnvOverrides {
+  private prefix: string;
+  private separator: string;
+  private env: Record<string, string | undefined>;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {EnvOverrideOptions} options 上書きのオプション
+   * @throws {Error} 接頭辞が指定されていない場合
+   */
+  constructor(options: EnvOverrideOptions) {
+    if (!options.prefix) {
+      throw new Error('prefix is required');
+    }
+    this.prefix = options.prefix;
+    this.separator = options.separator || '__';
+    this.env = options.env || process.env;
+  }
+
+  /**
+   * 処理名: 環境変数による上書き
+   *
+   * 処理概要:
+   * ConfigLoder・Serializerが返した設定オブジェクトに環境変数の値を上書きした新しいオブジェクトと、
+   * 上書きしたキーの一覧を返す（元のオブジェクトは変更しない）
+   *
+   * 実装理由:
+   * どの設定が環境変数で変わったかを起動時のログ等で確認できるようにするため
+   * @param {unknown} data 設定オブジェクト（JSON.parse済みまたはデシリアライズ済み）
+   * @returns {EnvOverrideResult} 上書きの結果
+   * @throws {Error} 値を変換できない場合等（全ての環境変数を確認してから1つのエラーで通知）
+   */
+  apply(data: unknown): EnvOverrideResult {
+    const result: EnvOverrideResult = { data, overridden: [], unmatched: [] };
+    const errors: string[] = [];
+    for (const variable of this.variables()) {
+      let path: (string | number)[] | undefined;
+      try {
+        path = this.matchPath(result.data, variable.slice(this.prefix.length + this.separator.length));
+        if (!path) {
+          result.unmatched.push(variable);
+          continue;
+        }
+        const previous = path.reduce((value: unknown, key) => (value as Record<string, unknown>)[key], result.data);
+        const value = this.coerce(this.env[variable] as string, previous);
+        result.data = this.replaceAt(result.data, path, value);
+        result.overridden.push({ variable, path, previous, value });
+      } catch (error) {
+        // 値が秘密情報の場合があるため、エラーには値を含めない
+        const at = path ? ' (at ' + ConfigAccessor.formatPath(path) + ')' : '';
+        errors.push(`${variable}${at} ${(error as Error).message}`);
+      }
+    }
+    if (errors.length > 0) {
+      throw new Error(`invalid environment overrides:\n${errors.map((error) => '  - ' + error).join('\n')}`);
+    }
+    return result;
+  }
+
+  /**
+   * 処理名: 対象の環境変数名の取得
+   * @returns {string[]} 接頭辞と区切り文字で始まる環境変数名（名前順）
+   * @private
+   */
+  private variables(): string[] {
+    const start = this.prefix + this.separator;
+    return Object.keys(this.env)
+      .filter((name) => name.startsWith(start) && this.env[name] !== undefined)
+      .sort();
+  }
+
+  /**
+   * 処理名: 環境変数名に対応するパスの検索
+   * @param {unknown} data 設定オブジェクト
+   * @param {string} name 接頭辞を除いた環境変数名
+   * @returns {(string | number)[] | undefined} 既存のキーのパス（対応するキーが無い場合はundefined）
+   * @private
+   */
+  private matchPath(data: unknown, name: string): (string | number)[] | undefined {
+    const path: (string | number)[] = [];
+    let current = data;
+    for (const segment of name.split(this.separator)) {
+      const key = this.matchKey(current, segment);
+      if (key === undefined) {
+        return undefined;
+      }
+      path.push(key);
+      current = (current as Record<string, unknown>)[key];
+    }
+    return path;
+  }
+
+  /**
+   * 処理名: キーの照合
+   * @param {unknown} container 配列またはオブジェクト
+   * @param {string} segment 環境変数名の区切り文字の間の部分
+   * @returns {string | number | undefined} 一致したキーまたは配列インデックス
+   * @throws {Error} 大文字・小文字等を無視すると複数のキーに一致する場合
+   * @private
+   */
+  private matchKey(container: unknown, segment: string): string | number | undefined {
+    if (Array.isArray(container)) {
+      return /^\d+$/.test(segment) && Number(segment) < container.length ? Number(segment) : undefined;
+    }
+    if (Object.prototype.toString.call(container) !== '[object Object]' || Serializer.isTaggedValue(container)) {
+      return undefined;
+    }
+    const keys = Object.keys(container as Record<string, unknown>);
+    if (keys.includes(segment)) {
+      return segment;
+    }
+    const normalize = (key: string): string => key.replace(/[-_]/g, '').toLowerCase();
+    const candidates = keys.filter((key) => normalize(key) === normalize(segment));
+    if (candidates.length > 1) {
+      throw new Error(`matches more than one key (${candidates.join(', ')})`);
+    }
+    return candidates[0];
+  }
+
+  /**
+   * 処理名: 上書き前の値の型への変換
+   * @param {string} raw 環境変数の値
+   * @param {unknown} previous 上書き前の値
+   * @returns {unknown} 変換した値
+   * @throws {Error} 変換できない場合、上書き前の値がSerializerの特殊値（デシリアライズ前）の場合
+   * @private
+   */
+  private coerce(raw: string, previous: unknown): unknown {
+    if (Serializer.isTaggedValue(previous)) {
+      throw new Error(`targets ${ConfigAccessor.typeOf(previous)}, which cannot be overridden`);
+    }
+    if (typeof previous === 'number' || typeof previous === 'boolean') {
+      return Serializer.coerceEnv(raw, typeof previous as 'number' | 'boolean');
+    }
+    if (Buffer.isBuffer(previous)) {
+      if (!/^([0-9a-fA-F]{2})*$/.test(raw)) {
+        throw new Error('is not a hex string');
+      }
+      return Buffer.from(raw, 'hex');
+    }
+    if (Object.prototype.toString.call(previous) === '[object RegExp]') {
+      return this.toRegExp(raw, (previous as RegExp).flags);
+    }
+    // オブジェクト・配列はJSON、文字列・nullは文字列のまま
+    return previous !== null && typeof previous === 'object' ? Serializer.coerceEnv(raw, 'json') : raw;
+  }
+
+  /**
+   * 処理名: 正規表現への変換
+   * @param {string} source 正規表現のパターン
+   * @param {string} flags 上書き前の正規表現のフラグ
+   * @returns {RegExp} 正規表現
+   * @throws {Error} パターンが不正な場合
+   * @private
+   */
+  private toRegExp(source: string, flags: string): RegExp {
+    try {
+      return new RegExp(source, flags);
+    } catch {
+      throw new Error('is not a valid regular expression');
+    }
+  }
+
+  /**
+   * 処理名: パスの値の置き換え
+   * @param {unknown} data 配列またはオブジェクト
+   * @param {(string | number)[]} path 置き換えるキーのパス
+   * @param {unknown} value 新しい値
+   * @returns {unknown} パス上の配列・オブジェクトを複製して値を置き換えたもの
+   * @private
+   */
+  private replaceAt(data: unknown, path: (string | number)[], value: unknown): unknown {
+    if (path.length === 0) {
+      return value;
+    }
+    const [key, ...rest] = path;
+    const copy = (Array.isArray(data) ? [...data] : { ...(data as Record<string, unknown>) }) as Record<
+      string | number,
+      unknown
+    >;
+    copy[key] = this.replaceAt(copy[key], rest, value);
+    return copy;
+  }
+}
+
+export default EnvOverrides;
@@ -6,15 +6,64 @@ import * as crypto from 'crypto';
  */
 interface HashTreeNode {
   __hash: string;
+  /** 配列・オブジェクトから構築したノードの種類（プリミティブ値・type付きオブジェクトは無し） */
+  __kind?: 'array' | 'object';
   [key: string]: unknown;
 }
 
+/**
+ * ハッシュツリーの管理用キー
+ */
+const META_KEYS = ['__hash', '__kind'];
+
+/**
+ * sequenceモードで最長共通部分列を求める範囲の上限（変更前後の要素数の積）
+ * 長さ表は要素数の積に比例するメモリ（1要素4バイト）を使用するため、超える場合はインデックス単位で対応付ける
+ */
+const MAX_LCS_CELLS = 4194304;
+
+/**
+ * 差分検出中の位置の型
+ * 配列要素の移動を扱うため、新旧のデータそれぞれでのパスを保持する
+ */
+interface PathLocation {
+  segments: string[];
+  oldSegments: string[];
+}
+
 /**
  * 差分イベントの型
  */
-interface DifferenceEvent {
-  type: 'added' | 'removed' | 'modified';
+export interface DifferenceEvent {
+  type: 'added' | 'removed' | 'modified' | 'moved';
+  /** ドット区切りのパス（変更後のデータでのパス。removedの末尾のキーのみ変更前のデータでのキー） */
   path: string;
+  /** パスのセグメント配列（ドットを含むキーも曖昧にならない） */
+  segments: string[];
+  /** 移動元のドット区切りのパス（movedのみ） */
+  fromPath?: string;
+  /** 移動元のパスのセグメント配列（movedのみ） */
+  fromSegments?: string[];
+  /** 変更前の値（trackValues有効時のみ） */
+  oldValue?: unknown;
+  /** 変更後の値（trackValues有効時のみ） */
+  newValue?: unknown;
+}
+
+/**
+ * 差分検出オプションの型
+ */
+export interface FindDifferencesOptions {
+  /** 前回のデータを保持し、イベントにoldValue/newValueを含める（デフォルト: false） */
+  trackValues?: boolean;
+  /**
+   * 配列の差分検出方式（デフォルト: index）
+   * - index: 要素をインデックスで比較する
+   * - sequence: 要素のハッシュで系列を対応付け、要素単位の追加・削除・移動を検出する
+   */
+  arrayDiff?: 'index' | 'sequence';
+  /** sequence時にオブジェクト要素の同一性を判定するキー（例: id, name） */
+  arrayKey?: string;
 }
 
 /**
@@ -30,6 +79,11 @@ interface DifferenceEvent {
  */
 export class FindDifferences extends EventEmitter {
   private previousHashTree: HashTreeNode;
+  private trackValues: boolean;
+  private arrayDiff: 'index' | 'sequence';
+  private arrayKey: string | undefined;
+  private previousData: unknown;
+  private currentData: unknown;
 
   /**
    * 処理名: コンストラクタ
@@ -39,10 +93,90 @@ export class FindDifferences extends EventEmitter {
    *
    * 実装理由:
    * EventEmitterの初期化と、差分検出のための状態を保持するため
+   * @param {FindDifferencesOptions} [options] 差分検出オプション
    */
-  constructor() {
+  constructor(options: FindDifferencesOptions = {}) {
     super();
     this.previousHashTree = { __hash: '' };
+    this.trackValues = options.trackValues || false;
+    this.arrayDiff = options.arrayDiff || 'index';
+    this.arrayKey = options.arrayKey;
+    this.previousData = undefined;
+    this.currentData = undefined;
+  }
+
+  /**
+   * 処理名: データの複製
+   * @param {unknown} data 複製対象のデータ
+   * @returns {unknown} 呼び出し元と参照を共有しない複製
+   * @private
+   */
+  private cloneData(data: unknown): unknown {
+    return data === undefined ? data : JSON.parse(JSON.stringify(data));
+  }
+
+  /**
+   * 処理名: セグメント配列による値取得
+   * @param {unknown} data 取得元のデータ
+   * @param {string[]} segments パスのセグメント配列
+   * @returns {unknown} 該当する値（存在しない場合はundefined）
+   * @private
+   */
+  private valueAt(data: unknown, segments: string[]): unknown {
+    return segments.reduce(
+      (current: unknown, segment) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      data
+    );
+  }
+
+  /**
+   * 処理名: 子要素の位置取得
+   * @param {PathLocation} location 親の位置
+   * @param {string} key 変更後のデータでのキー
+   * @param {string} [oldKey] 変更前のデータでのキー（省略時はkeyと同じ）
+   * @returns {PathLocation} 子要素の位置
+   * @private
+   */
+  private childLocation(location: PathLocation, key: string, oldKey = key): PathLocation {
+    return {
+      segments: [...location.segments, key],
+      oldSegments: [...location.oldSegments, oldKey],
+    };
+  }
+
+  /**
+   * 処理名: 差分イベント発行
+   * @param {DifferenceEvent['type']} type 差分の種類
+   * @param {PathLocation} location 差分の位置
+   * @returns {void}
+   * @private
+   */
+  private emitDifference(type: DifferenceEvent['type'], location: PathLocation): void {
+    // 削除された要素は変更後のデータに存在しないため、親は変更後・キーは変更前のパスで示す
+    const segments = type === 'removed'
+      ? [...location.segments.slice(0, -1), ...location.oldSegments.slice(-1)]
+      : location.segments;
+    const event: DifferenceEvent = {
+      type,
+      path: segments.join('.'),
+      segments,
+    };
+    if (type === 'moved') {
+      event.fromPath = location.oldSegments.join('.');
+      event.fromSegments = location.oldSegments;
+    }
+    if (this.trackValues) {
+      event.oldValue = type === 'added'
+        ? undefined
+        : this.valueAt(this.previousData, location.oldSegments);
+      event.newValue = type === 'removed'
+        ? undefined
+        : this.valueAt(this.currentData, location.segments);
+    }
+    this.emit('difference', event);
   }
 
   /**
@@ -61,6 +195,30 @@ export class FindDifferences extends EventEmitter {
     return crypto.createHash('sha256').update(value).digest('hex');
   }
 
+  /**
+   * 処理名: 子要素のハッシュの結合
+   * @param {'array' | 'object'} kind ノードの種類
+   * @param {string[]} parts 子要素のハッシュ（オブジェクトはキー付き）
+   * @returns {string} ハッシュ文字列
+   * @private
+   */
+  private combineHashes(kind: 'array' | 'object', parts: string[]): string {
+    // 空の配列と空のオブジェクトが同じハッシュにならないよう、種類を含めてハッシュ化する
+    return this.calculateHash(`${kind}:${parts.join('')}`);
+  }
+
+  /**
+   * 処理名: ノードの種類判定
+   * @param {unknown} value JSON 値
+   * @returns {'array' | 'object' | undefined} ハッシュツリーのノードの種類（プリミティブ値・type付きオブジェクトはundefined）
+   * @private
+   */
+  private kindOf(value: unknown): HashTreeNode['__kind'] {
+    if (Array.isArray(value)) return 'array';
+    const plain = typeof value === 'object' && value !== null && !(value as Record<string, unknown>).type;
+    return plain ? 'object' : undefined;
+  }
+
   /**
    * 処理名: ハッシュツリー構築
    *
@@ -85,9 +243,10 @@ export class FindDifferences extends EventEmitter {
     if (Array.isArray(data)) {
       // 配列の場合、各要素のハッシュ値を結合してハッシュ化
       const childHashes = data.map((item) => this.buildHashTree(item));
-      const combinedHash = this.calculateHash(childHashes.map((h) => h.__hash).join(''));
+      const combinedHash = this.combineHashes('array', childHashes.map((h) => h.__hash));
       return {
         __hash: combinedHash,
+        __kind: 'array',
         ...Object.fromEntries(childHashes.map((h, i) => [i.toString(), h])),
       } as HashTreeNode;
     }
@@ -107,39 +266,35 @@ export class FindDifferences extends EventEmitter {
         return tree;
       }, {});
 
-    const combinedHash = this.calculateHash(
-      Object.entries(childHashes)
-        .map(([key, value]) => `${key}:${value.__hash}`)
-        .join('')
+    const combinedHash = this.combineHashes(
+      'object',
+      Object.entries(childHashes).map(([key, value]) => `${key}:${value.__hash}`)
     );
-    return { __hash: combinedHash, ...childHashes };
+    return { __hash: combinedHash, __kind: 'object', ...childHashes };
   }
 
   /**
    * 処理名: 削除・更新キーの処理
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {Record<string, unknown>} jsonData JSON データ
-   * @param {string} path パス
+   * @param {PathLocation} location 位置
    * @returns {void}
    * @private
    */
   private processExistingKeys(
     hashTree: HashTreeNode,
     jsonData: Record<string, unknown>,
-    path: string
+    location: PathLocation
   ): void {
     for (const key in hashTree) {
-      if (key === '__hash') continue;
-      const currentPath = path ? `${path}.${key}` : key;
+      if (META_KEYS.includes(key)) continue;
+      const currentLocation = this.childLocation(location, key);
 
       if (!(key in jsonData)) {
-        this.emit('difference', {
-          type: 'removed',
-          path: currentPath,
-        } as DifferenceEvent);
+        this.emitDifference('removed', currentLocation);
         delete hashTree[key];
       } else {
-        this.processKeyValue(hashTree, jsonData, key, currentPath);
+        this.processKeyValue(hashTree, jsonData, key, currentLocation);
       }
     }
   }
@@ -149,7 +304,7 @@ export class FindDifferences extends EventEmitter {
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {Record<string, unknown>} jsonData JSON データ
    * @param {string} key キー
-   * @param {string} currentPath 現在のパス
+   * @param {PathLocation} location 現在の位置
    * @returns {void}
    * @private
    */
@@ -157,13 +312,17 @@ export class FindDifferences extends EventEmitter {
     hashTree: HashTreeNode,
     jsonData: Record<string, unknown>,
     key: string,
-    currentPath: string
+    location: PathLocation
   ): void {
     const jsonValue = jsonData[key];
-    if (typeof jsonValue === 'object' && jsonValue !== null) {
-      this.processObjectValue(hashTree, jsonValue as Record<string, unknown>, key, currentPath);
+    if (this.kindOf(jsonValue) !== (hashTree[key] as HashTreeNode).__kind) {
+      // オブジェクト・配列・それ以外の値の間で種類が変わった場合は、要素単位に分解せず値全体の変更として通知する
+      this.emitDifference('modified', location);
+      hashTree[key] = this.buildHashTree(jsonValue);
+    } else if (typeof jsonValue === 'object' && jsonValue !== null) {
+      this.processObjectValue(hashTree, jsonValue as Record<string, unknown>, key, location);
     } else {
-      this.processPrimitiveValue(hashTree, jsonValue, key, currentPath);
+      this.processPrimitiveValue(hashTree, jsonValue, key, location);
     }
   }
 
@@ -172,7 +331,7 @@ export class FindDifferences extends EventEmitter {
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {Record<string, unknown>} jsonValue JSON 値
    * @param {string} key キー
-   * @param {string} currentPath 現在のパス
+   * @param {PathLocation} location 現在の位置
    * @returns {void}
    * @private
    */
@@ -180,35 +339,266 @@ export class FindDifferences extends EventEmitter {
     hashTree: HashTreeNode,
     jsonValue: Record<string, unknown>,
     key: string,
-    currentPath: string
+    location: PathLocation
   ): void {
-    if (jsonValue.type) {
+    if (this.arrayDiff === 'sequence' && Array.isArray(jsonValue)) {
+      this.processArrayValue(hashTree, jsonValue, key, location);
+    } else if (jsonValue.type) {
       const newPrimitiveHash = this.calculateHash(JSON.stringify(jsonValue));
       if ((hashTree[key] as HashTreeNode).__hash !== newPrimitiveHash) {
-        this.emit('difference', {
-          type: 'modified',
-          path: currentPath,
-        } as DifferenceEvent);
+        this.emitDifference('modified', location);
         (hashTree[key] as HashTreeNode).__hash = newPrimitiveHash;
       }
     } else {
-      if (!hashTree[key] || typeof hashTree[key] !== 'object') {
-        hashTree[key] = { __hash: '' };
-      }
       this.findDifferencesAndUpdate(
         hashTree[key] as HashTreeNode,
         jsonValue,
-        currentPath
+        location
       );
     }
   }
 
+  /**
+   * 処理名: 配列ノードの要素一覧取得
+   * @param {HashTreeNode} node 配列から構築したハッシュツリーのノード
+   * @returns {HashTreeNode[]} インデックス順の要素ノード
+   * @private
+   */
+  private arrayItems(node: HashTreeNode): HashTreeNode[] {
+    return Object.keys(node)
+      .filter((key) => !META_KEYS.includes(key))
+      .sort((a, b) => Number(a) - Number(b))
+      .map((key) => node[key] as HashTreeNode);
+  }
+
+  /**
+   * 処理名: 配列要素の同一性キー取得
+   * @param {HashTreeNode} node 要素のハッシュツリーのノード
+   * @returns {string} 同一性キー（識別キーがあればその値のハッシュ、無ければ要素のハッシュ）
+   * @private
+   */
+  private identityOf(node: HashTreeNode): string {
+    const keyNode = this.arrayKey ? (node[this.arrayKey] as HashTreeNode | undefined) : undefined;
+    return keyNode ? `key:${keyNode.__hash}` : `hash:${node.__hash}`;
+  }
+
+  /**
+   * 処理名: 最長共通部分列の長さ表の作成
+   * @param {string[]} oldIds 変更前の同一性キー
+   * @param {string[]} newIds 変更後の同一性キー
+   * @returns {Uint32Array} (i, j)以降の最長共通部分列の長さを保持する表（幅は newIds.length + 1）
+   * @private
+   */
+  private buildLcsTable(oldIds: string[], newIds: string[]): Uint32Array {
+    const width = newIds.length + 1;
+    const table = new Uint32Array((oldIds.length + 1) * width);
+    for (let i = oldIds.length - 1; i >= 0; i--) {
+      for (let j = newIds.length - 1; j >= 0; j--) {
+        table[i * width + j] = oldIds[i] === newIds[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    return table;
+  }
+
+  /**
+   * 処理名: 最長共通部分列の算出
+   * @param {string[]} oldIds 変更前の同一性キー
+   * @param {string[]} newIds 変更後の同一性キー
+   * @returns {Array<number[]>} 対応付けられた[変更前インデックス, 変更後インデックス]の配列
+   * @private
+   */
+  private longestCommonSubsequence(oldIds: string[], newIds: string[]): Array<[number, number]> {
+    const width = newIds.length + 1;
+    const table = this.buildLcsTable(oldIds, newIds);
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldIds.length && j < newIds.length) {
+      if (oldIds[i] === newIds[j]) {
+        pairs.push([i++, j++]);
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * 処理名: 同じ位置の一致要素の対応付け
+   * @param {string[]} oldIds 変更前の同一性キー
+   * @param {string[]} newIds 変更後の同一性キー
+   * @returns {Array<number[]>} 対応付けられた[変更前インデックス, 変更後インデックス]の配列
+   * @private
+   */
+  private samePositionPairs(oldIds: string[], newIds: string[]): Array<[number, number]> {
+    const pairs: Array<[number, number]> = [];
+    for (let index = 0; index < Math.min(oldIds.length, newIds.length); index++) {
+      if (oldIds[index] === newIds[index]) pairs.push([index, index]);
+    }
+    return pairs;
+  }
+
+  /**
+   * 処理名: 系列の対応付け
+   *
+   * 処理概要:
+   * 先頭・末尾の一致部分を除いた範囲で最長共通部分列を求め、要素を対応付ける。
+   * 範囲の要素数の積がMAX_LCS_CELLSを超える場合は、同じ位置の一致要素だけを対応付ける
+   *
+   * 実装理由:
+   * 先頭への挿入のような典型的な変更で、全要素の組み合わせ表を作らずに済ませ、
+   * 大きな配列の並べ替えでも長さ表のメモリが際限なく増えないようにするため
+   * @param {string[]} oldIds 変更前の同一性キー
+   * @param {string[]} newIds 変更後の同一性キー
+   * @returns {Map<number, number>} 変更後インデックスから変更前インデックスへの対応
+   * @private
+   */
+  private alignSequences(oldIds: string[], newIds: string[]): Map<number, number> {
+    let start = 0;
+    while (start < oldIds.length && start < newIds.length && oldIds[start] === newIds[start]) {
+      start++;
+    }
+    let oldEnd = oldIds.length;
+    let newEnd = newIds.length;
+    while (oldEnd > start && newEnd > start && oldIds[oldEnd - 1] === newIds[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+    const oldRange = oldIds.slice(start, oldEnd);
+    const newRange = newIds.slice(start, newEnd);
+    const pairs = oldRange.length * newRange.length > MAX_LCS_CELLS
+      ? this.samePositionPairs(oldRange, newRange)
+      : this.longestCommonSubsequence(oldRange, newRange);
+    const matches = new Map<number, number>();
+    for (let index = 0; index < start; index++) matches.set(index, index);
+    pairs.forEach(([i, j]) => matches.set(j + start, i + start));
+    for (let offset = 0; offset < oldIds.length - oldEnd; offset++) {
+      matches.set(newEnd + offset, oldEnd + offset);
+    }
+    return matches;
+  }
+
+  /**
+   * 処理名: 移動した配列要素の対応付け
+   * @param {string[]} oldIds 変更前の同一性キー
+   * @param {string[]} newIds 変更後の同一性キー
+   * @param {Map<number, number>} matches 共通部分列による対応
+   * @param {number[]} unmatched 対応の無い変更前インデックス（昇順）
+   * @returns {Map<number, number>} 変更後インデックスから移動元インデックスへの対応
+   * @private
+   */
+  private matchMovedItems(
+    oldIds: string[],
+    newIds: string[],
+    matches: Map<number, number>,
+    unmatched: number[]
+  ): Map<number, number> {
+    // 対応の無い要素が多い場合も要素数の積の時間がかからないよう、同一性キーごとの候補を先頭から割り当てる
+    // 候補は末尾から取り出すため、インデックスの降順に積む
+    const candidates = new Map<string, number[]>();
+    [...unmatched].reverse().forEach((oldIndex) => {
+      const stack = candidates.get(oldIds[oldIndex]) || [];
+      stack.push(oldIndex);
+      candidates.set(oldIds[oldIndex], stack);
+    });
+    const moved = new Map<number, number>();
+    newIds.forEach((id, newIndex) => {
+      const oldIndex = matches.has(newIndex) ? undefined : candidates.get(id)?.pop();
+      if (oldIndex !== undefined) moved.set(newIndex, oldIndex);
+    });
+    return moved;
+  }
+
+  /**
+   * 処理名: 対応付けされた配列要素の比較
+   * @param {HashTreeNode} oldNode 変更前の配列ノード
+   * @param {unknown[]} jsonValue 変更後の配列
+   * @param {number[]} indexes [変更前インデックス, 変更後インデックス]
+   * @param {PathLocation} location 配列の位置
+   * @returns {void}
+   * @private
+   */
+  private compareArrayItem(
+    oldNode: HashTreeNode,
+    jsonValue: unknown[],
+    [oldIndex, newIndex]: [number, number],
+    location: PathLocation
+  ): void {
+    const oldKey = oldIndex.toString();
+    this.processKeyValue(
+      oldNode,
+      { [oldKey]: jsonValue[newIndex] },
+      oldKey,
+      this.childLocation(location, newIndex.toString(), oldKey)
+    );
+  }
+
+  /**
+   * 処理名: 配列値の処理（sequenceモード）
+   *
+   * 処理概要:
+   * 要素の同一性キーで新旧の配列を対応付け、対応しない要素を追加・削除、
+   * 共通部分列の外で対応する要素を移動として通知する。
+   * 識別キーで対応付けた要素の内容が変わっていれば、要素内の差分も通知する
+   *
+   * 実装理由:
+   * 先頭への1件の挿入が全要素のmodifiedとして通知されないようにするため
+   * @param {HashTreeNode} hashTree ハッシュツリー
+   * @param {unknown[]} jsonValue 変更後の配列
+   * @param {string} key キー
+   * @param {PathLocation} location 配列の位置
+   * @returns {void}
+   * @private
+   */
+  private processArrayValue(
+    hashTree: HashTreeNode,
+    jsonValue: unknown[],
+    key: string,
+    location: PathLocation
+  ): void {
+    const oldNode = hashTree[key] as HashTreeNode;
+    const newNode = this.buildHashTree(jsonValue);
+    if (oldNode.__hash === newNode.__hash) return;
+
+    const oldItems = this.arrayItems(oldNode);
+    const newItems = this.arrayItems(newNode);
+    const oldIds = oldItems.map((item) => this.identityOf(item));
+    const newIds = newItems.map((item) => this.identityOf(item));
+    const matches = this.alignSequences(oldIds, newIds);
+    const matchedOld = new Set(matches.values());
+    const unmatched = oldIds.map((_id, index) => index).filter((index) => !matchedOld.has(index));
+    const moved = this.matchMovedItems(oldIds, newIds, matches, unmatched);
+    const movedOld = new Set(moved.values());
+
+    unmatched.filter((oldIndex) => !movedOld.has(oldIndex)).forEach((oldIndex) =>
+      this.emitDifference('removed', this.childLocation(location, oldIndex.toString()))
+    );
+    newItems.forEach((item, newIndex) => {
+      const oldIndex = matches.get(newIndex) ?? moved.get(newIndex);
+      if (oldIndex === undefined) {
+        this.emitDifference('added', this.childLocation(location, newIndex.toString()));
+        return;
+      }
+      if (moved.has(newIndex)) {
+        this.emitDifference('moved', this.childLocation(location, newIndex.toString(), oldIndex.toString()));
+      }
+      if (oldItems[oldIndex].__hash !== item.__hash) {
+        this.compareArrayItem(oldNode, jsonValue, [oldIndex, newIndex], location);
+      }
+    });
+    hashTree[key] = newNode;
+  }
+
   /**
    * 処理名: プリミティブ値の処理
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {unknown} jsonValue JSON 値
    * @param {string} key キー
-   * @param {string} currentPath 現在のパス
+   * @param {PathLocation} location 現在の位置
    * @returns {void}
    * @private
    */
@@ -216,14 +606,11 @@ export class FindDifferences extends EventEmitter {
     hashTree: HashTreeNode,
     jsonValue: unknown,
     key: string,
-    currentPath: string
+    location: PathLocation
   ): void {
     const newPrimitiveHash = this.calculateHash(JSON.stringify(jsonValue));
     if ((hashTree[key] as HashTreeNode).__hash !== newPrimitiveHash) {
-      this.emit('difference', {
-        type: 'modified',
-        path: currentPath,
-      } as DifferenceEvent);
+      this.emitDifference('modified', location);
       (hashTree[key] as HashTreeNode).__hash = newPrimitiveHash;
     }
   }
@@ -232,22 +619,18 @@ export class FindDifferences extends EventEmitter {
    * 処理名: 追加されたキーの処理
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {Record<string, unknown>} jsonData JSON データ
-   * @param {string} path パス
+   * @param {PathLocation} location 位置
    * @returns {void}
    * @private
    */
   private processAddedKeys(
     hashTree: HashTreeNode,
     jsonData: Record<string, unknown>,
-    path: string
+    location: PathLocation
   ): void {
     for (const key in jsonData) {
-      const currentPath = path ? `${path}.${key}` : key;
       if (!(key in hashTree)) {
-        this.emit('difference', {
-          type: 'added',
-          path: currentPath,
-        } as DifferenceEvent);
+        this.emitDifference('added', this.childLocation(location, key));
         const jsonValue = jsonData[key];
         hashTree[key] =
           typeof jsonValue === 'object' && jsonValue !== null
@@ -268,14 +651,14 @@ export class FindDifferences extends EventEmitter {
    * ハッシュ値の比較で不要な再帰を避け、変更箇所のみを検出するため
    * @param {HashTreeNode} hashTree ハッシュツリー
    * @param {unknown} jsonData JSON データ
-   * @param {string} path パス
+   * @param {PathLocation} location 位置
    * @returns {void}
    * @private
    */
   private findDifferencesAndUpdate(
     hashTree: HashTreeNode,
     jsonData: unknown,
-    path = ''
+    location: PathLocation = { segments: [], oldSegments: [] }
   ): void {
     const newHash = this.calculateHash(JSON.stringify(jsonData));
     if (hashTree.__hash === newHash) {
@@ -283,14 +666,14 @@ export class FindDifferences extends EventEmitter {
     }
 
     const data = jsonData as Record<string, unknown>;
-    this.processExistingKeys(hashTree, data, path);
-    this.processAddedKeys(hashTree, data, path);
+    this.processExistingKeys(hashTree, data, location);
+    this.processAddedKeys(hashTree, data, location);
 
-    (hashTree as Record<string, unknown>).__hash = this.calculateHash(
+    (hashTree as Record<string, unknown>).__hash = this.combineHashes(
+      hashTree.__kind || 'object',
       Object.entries(hashTree)
-        .filter(([key]) => key !== '__hash')
+        .filter(([key]) => !META_KEYS.includes(key))
         .map(([key, value]) => `${key}:${(value as HashTreeNode).__hash}`)
-        .join('')
     );
   }
 
@@ -306,6 +689,9 @@ export class FindDifferences extends EventEmitter {
    * @returns {HashTreeNode} 構築されたハッシュツリー
    */
   initialize(jsonData: unknown): HashTreeNode {
+    if (this.trackValues) {
+      this.previousData = this.cloneData(jsonData);
+    }
     return (this.previousHashTree = this.buildHashTree(jsonData)); // 初期ハッシュツリー構築
   }
 
@@ -315,7 +701,8 @@ export class FindDifferences extends EventEmitter {
    * 処理概要:
    * 新しいJSONデータと前回のハッシュツリーを比較し、
    * 差分を検出して'difference'イベントで通知。
-   * 内部的にハッシュツリーを更新して次回検出に備える
+   * 内部的にハッシュツリーを更新して次回検出に備える。
+   * trackValues有効時は前回のデータも保持し、イベントにoldValue/newValueを含める
    *
    * 実装理由:
    * ファイル監視やリアルタイム変更検出のため、継続的に差分を検出するため
@@ -323,7 +710,17 @@ export class FindDifferences extends EventEmitter {
    * @returns {HashTreeNode} 更新上のハッシュツリー
    */
   detectChanges(jsonData: unknown): HashTreeNode {
-    this.findDifferencesAndUpdate(this.previousHashTree, jsonData);
+    if (!this.trackValues) {
+      this.findDifferencesAndUpdate(this.previousHashTree, jsonData);
+      return this.previousHashTree;
+    }
+    this.currentData = this.cloneData(jsonData);
+    try {
+      this.findDifferencesAndUpdate(this.previousHashTree, jsonData);
+    } finally {
+      this.previousData = this.currentData;
+      this.currentData = undefined;
+    }
     return this.previousHashTree;
   }
 }
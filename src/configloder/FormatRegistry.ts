@@ -0,0 +1,456 @@
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import * as TOML from 'smol-toml';
+import JSON5 from 'json5';
+import * as jsonc from 'jsonc-parser';
+import ConfigAccessor from './ConfigAccessor';
+
+/**
+ * 書き込み時の整形オプション型
+ */
+export interface StringifyOptions {
+  /** インデント幅 */
+  indent?: number;
+  /** 1行の最大幅（YAML、-1で折り返さない） */
+  lineWidth?: number;
+}
+
+/**
+ * 設定ファイル形式の型
+ */
+export interface ConfigFormat {
+  /** 形式名（強制指定時に使用） */
+  name: string;
+  /** 対応する拡張子（'.yaml'のようにドット付き） */
+  extensions: string[];
+  /**
+   * ファイル内容をJSON形式の文字列に変換する
+   * @param content ファイル内容
+   * @param filepath ファイルパス（エラー表示用）
+   */
+  parse(content: string, filepath: string): string;
+  /**
+   * データをファイル内容の文字列に変換する
+   * @param data 書き込むデータ
+   * @param options 整形オプション
+   */
+  stringify(data: unknown, options: StringifyOptions): string;
+  /** 整形オプションの既定値 */
+  options?: StringifyOptions;
+}
+
+/**
+ * jsonc-parserで解析する
+ * @param {string} content ファイル内容
+ * @param {string} filepath ファイルパス（エラー表示用）
+ * @param {jsonc.ParseOptions} options 解析オプション
+ * @returns {unknown} 解析した値
+ * @throws {Error} 構文エラーの場合（最初のエラーの行・列を含む）
+ */
+const parseJsonc = (content: string, filepath: string, options: jsonc.ParseOptions): unknown => {
+  const errors: jsonc.ParseError[] = [];
+  const data = jsonc.parse(content, errors, options);
+  if (errors.length > 0) {
+    const lines = content.slice(0, errors[0].offset).split('\n');
+    const position = `${lines.length}:${lines[lines.length - 1].length + 1}`;
+    throw new Error(`parse error at ${filepath}:${position}: ${jsonc.printParseErrorCode(errors[0].error)}`);
+  }
+  return data;
+};
+
+/**
+ * JSON形式（読み込み時は構文を検査し、内容をそのまま返す）
+ */
+const JSON_FORMAT: ConfigFormat = {
+  name: 'json',
+  extensions: ['.json'],
+  parse: (content, filepath) => {
+    try {
+      JSON.parse(content);
+    } catch {
+      // JSON.parseのメッセージは位置を含まない場合があり、内容の一部を含むため、行・列を求め直す
+      parseJsonc(content, filepath, { disallowComments: true, allowTrailingComma: false, allowEmptyContent: false });
+      throw new Error(`parse error at ${filepath}: invalid JSON`);
+    }
+    return content;
+  },
+  stringify: (data, options) => JSON.stringify(data, null, options.indent),
+  options: { indent: 2 },
+};
+
+/**
+ * JSONC形式（コメント・末尾カンマを除いた厳密なJSONに変換する）
+ */
+const JSONC_FORMAT: ConfigFormat = {
+  name: 'jsonc',
+  extensions: ['.jsonc'],
+  parse: (content, filepath) => JSON.stringify(parseJsonc(content, filepath, { allowTrailingComma: true })),
+  stringify: (data, options) => JSON.stringify(data, null, options.indent),
+  options: { indent: 2 },
+};
+
+/**
+ * JSON5形式（コメント・末尾カンマ・引用符の無いキー等を除いた厳密なJSONに変換する）
+ */
+const JSON5_FORMAT: ConfigFormat = {
+  name: 'json5',
+  extensions: ['.json5'],
+  parse: (content, filepath) => {
+    try {
+      return JSON.stringify(JSON5.parse(content));
+    } catch (error) {
+      const { lineNumber, columnNumber, message } = error as SyntaxError & {
+        lineNumber?: number;
+        columnNumber?: number;
+      };
+      throw new Error(`parse error at ${filepath}:${lineNumber}:${columnNumber}: ${message}`);
+    }
+  },
+  stringify: (data, options) => JSON.stringify(data, null, options.indent),
+  options: { indent: 2 },
+};
+
+/**
+ * 値が指定したtype値を持つオブジェクトかを判定する
+ * @param {unknown} data 値
+ * @param {string} type type値
+ * @returns {boolean} 一致する場合true
+ */
+const isTagged = (data: unknown, type: string): boolean =>
+  !!data && typeof data === 'object' && !Array.isArray(data) && (data as Record<string, unknown>).type === type;
+
+/**
+ * type値を除いたオブジェクトを返す
+ * @param {unknown} data type値を持つオブジェクト
+ * @returns {Record<string, unknown>} type値以外のプロパティ
+ */
+const withoutType = (data: unknown): Record<string, unknown> => {
+  const { type: _type, ...rest } = data as Record<string, unknown>;
+  return rest;
+};
+
+/**
+ * undefinedのプロパティを除いたオブジェクトを返す
+ * @param {Record<string, unknown>} data オブジェクト
+ * @returns {Record<string, unknown>} 値が指定されたプロパティ
+ */
+const definedOnly = (data: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+/**
+ * !envのマッピングをSerializerのEnvの形式に変換する（値の型のtypeはvalueTypeにする）
+ * @param {Record<string, unknown>} data !envのマッピング
+ * @returns {Record<string, unknown>} Envのシリアライズ済みの値
+ */
+const toEnv = (data: Record<string, unknown>): Record<string, unknown> => {
+  const { type: valueType, ...rest } = data;
+  return definedOnly({ type: 'Env', ...rest, valueType });
+};
+
+/**
+ * SerializerのEnvを!envのマッピングに変換する（valueTypeはtypeにする）
+ * @param {Record<string, unknown>} env Envのシリアライズ済みの値
+ * @returns {Record<string, unknown>} !envのマッピング
+ */
+const fromEnv = (env: Record<string, unknown>): Record<string, unknown> => {
+  const { valueType, ...rest } = withoutType(env);
+  return definedOnly({ name: rest.name, type: valueType, ...rest });
+};
+
+const REGEXP_LITERAL = /^\/([\s\S]*)\/([a-z]*)$/;
+
+/**
+ * 正規表現リテラルとして解釈できるかを判定する
+ * @param {string} data 正規表現リテラル（/source/flags）
+ * @returns {boolean} 解釈できる場合true
+ */
+const isRegExpLiteral = (data: string): boolean => {
+  const match = REGEXP_LITERAL.exec(data);
+  if (!match) {
+    return false;
+  }
+  try {
+    return !!new RegExp(match[1], match[2]);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Serializerの特殊な値を表すYAMLタグ
+ * - !secret 平文の文字列（未暗号化のSecret）、または暗号化済みSecretのマッピング
+ * - !env 環境変数名、または{name, default, type, required, pattern, separator}のマッピング
+ * - !regexp /source/flags形式の正規表現リテラル、または{source, flags, label}のマッピング
+ * - !buffer HEX形式のバイト列
+ * 読み込み時は{type: 'Secret', ...}等のSerializerと同じ形式に変換し、書き込み時はタグ付きで出力する
+ */
+const CONFIG_YAML_TYPES = [
+  new yaml.Type('!secret', {
+    kind: 'scalar',
+    construct: (data: string) => ({ type: 'Secret', value: data }),
+    predicate: (data: unknown) => isTagged(data, 'Secret'),
+    represent: (data: object) => {
+      const secret = data as Record<string, unknown>;
+      return secret.hex === undefined && typeof secret.value === 'string' ? secret.value : withoutType(secret);
+    },
+  }),
+  new yaml.Type('!secret', {
+    kind: 'mapping',
+    resolve: (data: Record<string, unknown> | null) => typeof data?.hex === 'string',
+    construct: (data: Record<string, unknown>) => ({ type: 'Secret', ...data }),
+  }),
+  new yaml.Type('!env', {
+    kind: 'scalar',
+    resolve: (data: string | null) => !!data,
+    construct: (data: string) => ({ type: 'Env', name: data }),
+    predicate: (data: unknown) => isTagged(data, 'Env'),
+    represent: (data: object) => {
+      const env = fromEnv(data as Record<string, unknown>);
+      return Object.keys(env).length === 1 ? (env.name as string) : env;
+    },
+  }),
+  new yaml.Type('!env', {
+    kind: 'mapping',
+    resolve: (data: Record<string, unknown> | null) => typeof data?.name === 'string',
+    construct: (data: Record<string, unknown>) => toEnv(data),
+  }),
+  new yaml.Type('!regexp', {
+    kind: 'scalar',
+    resolve: (data: string | null) => data !== null && isRegExpLiteral(data),
+    construct: (data: string) => {
+      const [, source, flags] = REGEXP_LITERAL.exec(data) as RegExpExecArray;
+      return { type: 'RegExp', source, flags, label: '' };
+    },
+    predicate: (data: unknown) => isTagged(data, 'RegExp'),
+    represent: (data: object) => {
+      const regExp = data as Record<string, unknown>;
+      return regExp.label ? withoutType(regExp) : `/${regExp.source}/${regExp.flags || ''}`;
+    },
+  }),
+  new yaml.Type('!regexp', {
+    kind: 'mapping',
+    resolve: (data: Record<string, unknown> | null) =>
+      typeof data?.source === 'string' && isRegExpLiteral(`/${data.source}/${data.flags || ''}`),
+    construct: (data: Record<string, unknown>) => ({
+      type: 'RegExp',
+      source: data.source,
+      flags: data.flags || '',
+      label: data.label || '',
+    }),
+  }),
+  new yaml.Type('!buffer', {
+    kind: 'scalar',
+    resolve: (data: string | null) => data !== null && /^([0-9a-fA-F]{2})*$/.test(data),
+    construct: (data: string) => ({ type: 'Buffer', hex: data.toLowerCase() }),
+    predicate: (data: unknown) => isTagged(data, 'Buffer'),
+    represent: (data: object) => (data as Record<string, unknown>).hex as string,
+  }),
+];
+
+/**
+ * Serializerの特殊な値のタグ（!secret, !env, !regexp, !buffer）を追加したYAMLスキーマ
+ */
+export const CONFIG_YAML_SCHEMA = yaml.DEFAULT_SCHEMA.extend(CONFIG_YAML_TYPES);
+
+/**
+ * YAML形式（Serializerの特殊な値はタグで表現する）
+ */
+const YAML_FORMAT: ConfigFormat = {
+  name: 'yaml',
+  extensions: ['.yaml', '.yml'],
+  parse: (content) => JSON.stringify(yaml.load(content, { schema: CONFIG_YAML_SCHEMA })),
+  stringify: (data, options) =>
+    yaml.dump(JSON.parse(JSON.stringify(data)), {
+      schema: CONFIG_YAML_SCHEMA,
+      indent: options.indent,
+      lineWidth: options.lineWidth,
+    }),
+  options: { indent: 2, lineWidth: 80 },
+};
+
+/**
+ * 文字列をTOMLの日時に変換する
+ * @param {string} data 文字列
+ * @returns {TOML.TomlDate | undefined} TOMLの読み込み時と同じ形式の日時の文字列の場合はその日時、それ以外はundefined
+ */
+const toTomlDate = (data: string): TOML.TomlDate | undefined => {
+  if (!/^(\d{4}-\d{2}-\d{2}|\d{2}:\d{2}:\d{2})/.test(data)) {
+    return undefined;
+  }
+  try {
+    const date = new TOML.TomlDate(data);
+    return date.toISOString() === data ? date : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * TOMLで出力する値に変換する（日時の文字列はTOMLの日時にする）
+ * @param {unknown} data 値
+ * @param {(string | number)[]} segments 設定内のパス（エラー表示用）
+ * @returns {unknown} 変換した値
+ * @throws {Error} nullの値がある場合
+ */
+const toTomlValue = (data: unknown, segments: (string | number)[]): unknown => {
+  if (data === null) {
+    throw new Error(`TOML cannot represent null (at ${ConfigAccessor.formatPath(segments)})`);
+  }
+  if (typeof data === 'string') {
+    return toTomlDate(data) || data;
+  }
+  if (Array.isArray(data)) {
+    return data.map((item, index) => toTomlValue(item, [...segments, index]));
+  }
+  if (typeof data !== 'object' || data === undefined || Object.getPrototypeOf(data) !== Object.prototype) {
+    return data;
+  }
+  return Object.fromEntries(
+    Object.entries(data as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key, toTomlValue(item, [...segments, key])])
+  );
+};
+
+/**
+ * TOML形式
+ * 日時はISO 8601形式の文字列（オフセット付き日時はオフセットを保持）に変換し、
+ * 書き込み時は読み込み時と同じ形式の日時の文字列をTOMLの日時として出力する。
+ * TOMLにnullは無いため、nullの値はエラーにする（undefinedの値はJSONと同様に出力しない）
+ */
+const TOML_FORMAT: ConfigFormat = {
+  name: 'toml',
+  extensions: ['.toml'],
+  parse: (content) => JSON.stringify(TOML.parse(content)),
+  stringify: (data) => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('TOML requires a table (object) at the root');
+    }
+    return TOML.stringify(toTomlValue(data, []) as Record<string, unknown>);
+  },
+};
+
+/**
+ * 処理名: 設定ファイル形式の登録簿
+ *
+ * 処理概要:
+ * 形式名・拡張子ごとに設定ファイルの読み込み・書き込み方法を管理する。
+ * 拡張子が登録されていないファイルはJSONとして扱う
+ *
+ * 実装理由:
+ * 形式ごとの分岐をConfigLoderの各メソッドに持たせず、
+ * 利用者が独自の形式を追加・既定の整形オプションを変更できるようにするため
+ */
+export class FormatRegistry {
+  private formats: Map<string, ConfigFormat>;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * 形式が1つも登録されていない登録簿を生成する（組み込み形式はcreateDefaultで登録する）
+   *
+   * 実装理由:
+   * 組み込み形式を使わない構成も作れるようにするため
+   */
+  constructor() {
+    this.formats = new Map();
+  }
+
+  /**
+   * 処理名: 組み込み形式を登録した登録簿の生成
+   *
+   * 処理概要:
+   * JSON・JSON5・JSONC・YAML・TOMLを登録した登録簿を生成する
+   *
+   * 実装理由:
+   * ConfigLoderの既定の形式を1箇所で定義するため
+   * @returns {FormatRegistry} 組み込み形式を登録した登録簿
+   */
+  static createDefault(): FormatRegistry {
+    return new FormatRegistry()
+      .register(JSON_FORMAT)
+      .register(JSON5_FORMAT)
+      .register(JSONC_FORMAT)
+      .register(YAML_FORMAT)
+      .register(TOML_FORMAT);
+  }
+
+  /**
+   * 処理名: 形式の登録
+   *
+   * 処理概要:
+   * 形式を登録する。同じ名前の形式は置き換え、後から登録した形式の拡張子を優先する
+   *
+   * 実装理由:
+   * 組み込み形式の置き換えや独自形式の追加をできるようにするため
+   * @param {ConfigFormat} format 設定ファイル形式
+   * @returns {FormatRegistry} メソッドチェーン用の自身
+   */
+  register(format: ConfigFormat): FormatRegistry {
+    this.formats.delete(format.name);
+    this.formats.set(format.name, format);
+    return this;
+  }
+
+  /**
+   * 処理名: 既定の整形オプションの変更
+   * @param {string} name 形式名
+   * @param {StringifyOptions} options 整形オプション（指定した項目のみ変更）
+   * @returns {FormatRegistry} メソッドチェーン用の自身
+   * @throws {Error} 形式が登録されていない場合
+   */
+  configure(name: string, options: StringifyOptions): FormatRegistry {
+    const format = this.get(name);
+    return this.register({ ...format, options: { ...format.options, ...options } });
+  }
+
+  /**
+   * 処理名: 形式名による取得
+   * @param {string} name 形式名
+   * @returns {ConfigFormat} 設定ファイル形式
+   * @throws {Error} 形式が登録されていない場合
+   */
+  get(name: string): ConfigFormat {
+    const format = this.formats.get(name);
+    if (!format) {
+      throw new Error(`unknown config format '${name}'`);
+    }
+    return format;
+  }
+
+  /**
+   * 処理名: 形式名の一覧取得
+   * @returns {string[]} 登録済みの形式名
+   */
+  names(): string[] {
+    return [...this.formats.keys()];
+  }
+
+  /**
+   * 処理名: ファイルの形式の判定
+   *
+   * 処理概要:
+   * 強制指定された形式名、またはファイルの拡張子から形式を判定する。
+   * どの形式の拡張子にも一致しない場合はJSONとして扱う
+   *
+   * 実装理由:
+   * 拡張子と内容が一致しないファイルも読み書きできるようにするため
+   * @param {string} filepath ファイルパス
+   * @param {string} [forced] 強制する形式名
+   * @returns {ConfigFormat} 設定ファイル形式
+   * @throws {Error} 強制された形式、またはJSON形式が登録されていない場合
+   */
+  resolve(filepath: string, forced?: string): ConfigFormat {
+    if (forced) {
+      return this.get(forced);
+    }
+    const ext = path.extname(filepath).toLowerCase();
+    const matched = [...this.formats.values()]
+      .reverse()
+      .find((format) => format.extensions.includes(ext));
+    return matched || this.get('json');
+  }
+}
+
+export default FormatRegistry;
@@ -0,0 +1,322 @@
+import { ConfigAccessor } from './ConfigAccessor';
+import Serializer from './Serializer';
+
+/**
+ * 展開のオプション型
+ */
+export interface InterpolateOptions {
+  /** ${env:NAME}で参照する環境変数（デフォルト: process.env） */
+  env?: Record<string, string | undefined>;
+  /** 復号したSecretの内容の文字列も展開する（デフォルト: false） */
+  expandSecrets?: boolean;
+}
+
+/**
+ * キー・インデックスの並びで表したパスの型
+ */
+type Segments = (string | number)[];
+
+/**
+ * 展開中の状態の型
+ */
+interface ResolveContext {
+  /** 展開前の設定オブジェクト */
+  data: unknown;
+  /** 展開しないSecretのパス */
+  secretPaths: Segments[];
+  /** 展開済みの値（パスのJSON文字列ごと） */
+  resolved: Map<string, unknown>;
+  /** 展開中のパス（循環参照の検出用） */
+  stack: Segments[];
+}
+
+/**
+ * プレースホルダー（「$${...}」はエスケープ）
+ */
+const PLACEHOLDER = /\$(\$?)\{([^}]*)\}/g;
+
+/**
+ * 文字列全体が1つのプレースホルダーの場合
+ */
+const WHOLE_PLACEHOLDER = /^\$\{([^}]*)\}$/;
+
+/**
+ * 環境変数の参照（${env:NAME}・${env:NAME:-fallback}）
+ */
+const ENV_REFERENCE = /^env:([^:]+)(?::-([\s\S]*))?$/;
+
+/**
+ * 参照先が存在しないことを表す値
+ */
+const NOT_FOUND = Symbol('not found');
+
+/**
+ * 処理名: 設定値内の参照の展開
+ *
+ * 処理概要:
+ * デシリアライズ済みの設定オブジェクトの文字列に含まれる
+ * ${path.to.key}（設定内の別の値）・${env:NAME}・${env:NAME:-fallback}（環境変数）を展開する。
+ * 参照先の参照も順に展開し、循環参照は参照の経路を含むエラーにする。
+ * 文字列全体が1つの${path}の場合は参照先の値を型を保ったまま使用する。
+ * 復号したSecretの内容は、expandSecretsを指定しない限り展開しない
+ *
+ * 実装理由:
+ * 多数のキーで繰り返すホスト名やベースパスを1か所にまとめられるようにするため
+ */
+export class Interpolator {
+  private env: Record<string, string | undefined>;
+  private expandSecrets: boolean;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {InterpolateOptions} [options] 展開のオプション
+   */
+  constructor(options: InterpolateOptions = {}) {
+    this.env = options.env || process.env;
+    this.expandSecrets = options.expandSecrets || false;
+  }
+
+  /**
+   * 処理名: Secretのパスの収集
+   *
+   * 処理概要:
+   * シリアライズ済み（デシリアライズ前）の設定オブジェクトから{type:"Secret"}の値のパスを収集する
+   *
+   * 実装理由:
+   * デシリアライズ後は復号した値と通常の値を区別できないため
+   * @param {unknown} data シリアライズ済みの設定オブジェクト（JSON.parse済み）
+   * @param {(string | number)[]} [segments] dataのパス
+   * @returns {(string | number)[][]} Secretのパスの配列
+   */
+  static findSecretPaths(data: unknown, segments: Segments = []): Segments[] {
+    if (!data || typeof data !== 'object') {
+      return [];
+    }
+    if (Serializer.isTaggedValue(data)) {
+      return (data as Record<string, unknown>).type === 'Secret' ? [segments] : [];
+    }
+    const entries: [string | number, unknown][] = Array.isArray(data)
+      ? data.map((item, index) => [index, item])
+      : Object.entries(data as Record<string, unknown>);
+    return entries.flatMap(([key, value]) => Interpolator.findSecretPaths(value, [...segments, key]));
+  }
+
+  /**
+   * 処理名: JSON文字列のデシリアライズと展開
+   * @param {Serializer} serializer デシリアライズに使用するSerializer
+   * @param {string} json シリアライズ済みのJSON文字列
+   * @returns {unknown} デシリアライズして参照を展開したオブジェクト
+   * @throws {Error} デシリアライズ・展開に失敗した場合
+   */
+  deserialize(serializer: Serializer, json: string): unknown {
+    const secretPaths = Interpolator.findSecretPaths(JSON.parse(json));
+    return this.resolve(serializer.deserializeObject(json), secretPaths);
+  }
+
+  /**
+   * 処理名: 参照の展開
+   * @param {unknown} data デシリアライズ済みの設定オブジェクト（変更しない）
+   * @param {(string | number)[][]} [secretPaths] 展開しないSecretのパス（findSecretPathsの結果）
+   * @returns {unknown} 参照を展開した新しいオブジェクト
+   * @throws {Error} 参照先・環境変数が存在しない場合、循環参照の場合、オブジェクトを文字列に埋め込む場合
+   */
+  resolve(data: unknown, secretPaths: Segments[] = []): unknown {
+    return this.resolveValue(data, [], { data, secretPaths, resolved: new Map(), stack: [] });
+  }
+
+  /**
+   * 処理名: 値の展開（循環参照の検出とメモ化）
+   * @param {unknown} value 展開前の値
+   * @param {(string | number)[]} segments 値のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {unknown} 展開した値
+   * @private
+   */
+  private resolveValue(value: unknown, segments: Segments, context: ResolveContext): unknown {
+    const key = JSON.stringify(segments.map(String));
+    if (context.resolved.has(key)) {
+      return context.resolved.get(key);
+    }
+    const start = context.stack.findIndex((path) => JSON.stringify(path.map(String)) === key);
+    if (start >= 0) {
+      const chain = [...context.stack.slice(start), segments].map((path) => ConfigAccessor.formatPath(path));
+      throw new Error(`circular reference: ${chain.join(' -> ')}`);
+    }
+    context.stack.push(segments);
+    const result = this.expand(value, segments, context);
+    context.stack.pop();
+    context.resolved.set(key, result);
+    return result;
+  }
+
+  /**
+   * 処理名: 値の種類ごとの展開
+   * @param {unknown} value 展開前の値
+   * @param {(string | number)[]} segments 値のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {unknown} 展開した値（配列・オブジェクトは新しく作成する）
+   * @private
+   */
+  private expand(value: unknown, segments: Segments, context: ResolveContext): unknown {
+    if (typeof value === 'string') {
+      return this.isSecret(segments, context) ? value : this.interpolate(value, segments, context);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.resolveValue(item, [...segments, index], context));
+    }
+    if (!this.isPlainObject(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, this.resolveValue(item, [...segments, key], context)])
+    );
+  }
+
+  /**
+   * 処理名: 展開対象のオブジェクトの判定
+   * @param {unknown} value 値
+   * @returns {boolean} Buffer・RegExp・デシリアライズ前の特殊値以外のオブジェクトの場合true
+   * @private
+   */
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return Object.prototype.toString.call(value) === '[object Object]' && !Serializer.isTaggedValue(value);
+  }
+
+  /**
+   * 処理名: Secretの内容かの判定
+   * @param {(string | number)[]} segments 値のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {boolean} 展開しないSecretの内容の場合true
+   * @private
+   */
+  private isSecret(segments: Segments, context: ResolveContext): boolean {
+    return (
+      !this.expandSecrets &&
+      context.secretPaths.some(
+        (path) => path.length <= segments.length && path.every((key, index) => String(key) === String(segments[index]))
+      )
+    );
+  }
+
+  /**
+   * 処理名: 文字列内のプレースホルダーの展開
+   * @param {string} text 文字列
+   * @param {(string | number)[]} segments 文字列のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {unknown} 展開した文字列（全体が1つの${path}の場合は参照先の値）
+   * @private
+   */
+  private interpolate(text: string, segments: Segments, context: ResolveContext): unknown {
+    const whole = WHOLE_PLACEHOLDER.exec(text);
+    if (whole && !ENV_REFERENCE.test(whole[1])) {
+      return this.reference(whole[1], segments, context);
+    }
+    return text.replace(PLACEHOLDER, (match: string, escaped: string, expression: string) =>
+      escaped ? match.slice(1) : this.embed(expression, segments, context)
+    );
+  }
+
+  /**
+   * 処理名: プレースホルダーの文字列化
+   * @param {string} expression プレースホルダーの中身
+   * @param {(string | number)[]} segments 埋め込み先の文字列のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {string} 埋め込む文字列
+   * @private
+   */
+  private embed(expression: string, segments: Segments, context: ResolveContext): string {
+    const env = ENV_REFERENCE.exec(expression);
+    const value = env ? this.envValue(env[1], env[2], segments) : this.reference(expression, segments, context);
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      return String(value);
+    }
+    throw new Error(
+      `cannot embed ${ConfigAccessor.typeOf(value)} from '${expression}' into the string at ${ConfigAccessor.formatPath(segments)}`
+    );
+  }
+
+  /**
+   * 処理名: 環境変数の取得
+   * @param {string} name 環境変数名
+   * @param {string | undefined} fallback 未設定または空文字の場合の値（「:-」以降）
+   * @param {(string | number)[]} segments 参照元のパス
+   * @returns {string} 環境変数の値
+   * @private
+   */
+  private envValue(name: string, fallback: string | undefined, segments: Segments): string {
+    const value = this.env[name];
+    if (fallback !== undefined && !value) {
+      return fallback;
+    }
+    if (value === undefined) {
+      throw new Error(`environment variable ${name} is not set (referenced at ${ConfigAccessor.formatPath(segments)})`);
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: 設定内の別の値の参照
+   * @param {string} expression 参照先のパス
+   * @param {(string | number)[]} segments 参照元のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {unknown} 展開した参照先の値
+   * @private
+   */
+  private reference(expression: string, segments: Segments, context: ResolveContext): unknown {
+    const at = ConfigAccessor.formatPath(segments);
+    let target: Segments;
+    try {
+      target = ConfigAccessor.parsePath(expression.trim());
+    } catch (error) {
+      throw new Error(`${error} (referenced at ${at})`);
+    }
+    const value = this.lookup(target, context);
+    if (value === NOT_FOUND) {
+      throw new Error(`unresolved reference '${expression}' at ${at}`);
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: 子要素の取得
+   * @param {unknown} value 配列またはオブジェクト
+   * @param {string | number} key 配列インデックスまたはキー
+   * @returns {unknown} 子要素（存在しない場合はNOT_FOUND）
+   * @private
+   */
+  private child(value: unknown, key: string | number): unknown {
+    if (Array.isArray(value)) {
+      return typeof key === 'number' && key < value.length ? value[key] : NOT_FOUND;
+    }
+    if (this.isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, key)) {
+      return value[key];
+    }
+    return NOT_FOUND;
+  }
+
+  /**
+   * 処理名: 参照先の値の検索
+   * @param {(string | number)[]} target 参照先のパス
+   * @param {ResolveContext} context 展開中の状態
+   * @returns {unknown} 展開した参照先の値（存在しない場合はNOT_FOUND）
+   * @private
+   */
+  private lookup(target: Segments, context: ResolveContext): unknown {
+    let value = context.data;
+    // 途中の文字列が別の値の参照の場合は展開した値を辿り、以降は展開済みの値になる
+    let expanded = false;
+    for (let depth = 0; depth < target.length; depth++) {
+      if (!expanded && typeof value === 'string') {
+        value = this.resolveValue(value, target.slice(0, depth), context);
+        expanded = true;
+      }
+      value = this.child(value, target[depth]);
+      if (value === NOT_FOUND) {
+        return NOT_FOUND;
+      }
+    }
+    return expanded ? value : this.resolveValue(value, target, context);
+  }
+}
+
+export default Interpolator;
@@ -0,0 +1,568 @@
+import FindDifferences, { DifferenceEvent } from './FindDifferences';
+
+/**
+ * JSON Patch（RFC 6902）の操作の型
+ */
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * パッチ生成オプションの型
+ */
+export interface JsonPatchOptions {
+  /** 配列要素の同一性を判定するキー（例: id, name） */
+  arrayKey?: string;
+}
+
+/**
+ * 配列単位の構造変更の型
+ */
+interface ArrayChanges {
+  segments: string[];
+  removed: number[];
+  added: number[];
+  moved: Map<number, number>;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * プロトタイプの書き換えにつながるため、パスに使用できないセグメント
+ */
+const UNSAFE_SEGMENTS: ReadonlySet<string> = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * 処理名: 自身のプロパティの有無判定
+ * @param {object} value 対象のオブジェクト
+ * @param {string} key プロパティ名
+ * @returns {boolean} 継承ではなく自身のプロパティとして持つ場合true
+ */
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * 処理名: JSON Patch（RFC 6902）の生成・適用
+ *
+ * 処理概要:
+ * FindDifferencesのハッシュツリー比較で検出した差分から、JSON Pointerのパスを持つ
+ * add/remove/replace/moveのパッチを生成する。
+ * また、パッチを設定オブジェクトに適用する。testを含む全操作が成功した場合のみ結果を返す
+ *
+ * 実装理由:
+ * 設定全体ではなく差分だけをプロセス間でやり取りしたり、レビューで保存したりするため
+ */
+export class JsonPatch {
+  private arrayKey: string | undefined;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * JsonPatchインスタンスを初期化し、配列要素の識別キーを設定する
+   *
+   * 実装理由:
+   * オブジェクトの配列で要素の移動をmoveとして表現できるようにするため
+   * @param {JsonPatchOptions} [options] パッチ生成オプション
+   */
+  constructor(options: JsonPatchOptions = {}) {
+    this.arrayKey = options.arrayKey;
+  }
+
+  /**
+   * 処理名: JSON Pointerへの変換
+   * @param {string[]} segments パスのセグメント配列
+   * @returns {string} JSON Pointer
+   * @private
+   */
+  private toPointer(segments: string[]): string {
+    return segments
+      .map((segment) => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+      .join('');
+  }
+
+  /**
+   * 処理名: JSON Pointerの分解
+   * @param {string} pointer JSON Pointer
+   * @returns {string[]} パスのセグメント配列
+   * @throws {Error} JSON Pointerの形式が不正な場合、または__proto__等のセグメントを含む場合
+   * @private
+   */
+  private parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+      throw new Error(`invalid JSON Pointer: ${pointer}`);
+    }
+    const segments = pointer
+      .slice(1)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const unsafe = segments.find((segment) => UNSAFE_SEGMENTS.has(segment));
+    if (unsafe !== undefined) {
+      throw new Error(`unsafe JSON Pointer segment: ${unsafe}`);
+    }
+    return segments;
+  }
+
+  /**
+   * 処理名: セグメント配列による値取得
+   * @param {unknown} data 取得元のデータ
+   * @param {string[]} segments パスのセグメント配列
+   * @returns {unknown} 該当する値（存在しない場合はundefined）
+   * @private
+   */
+  private valueAt(data: unknown, segments: string[]): unknown {
+    return segments.reduce(
+      (current: unknown, segment) =>
+        current !== null && typeof current === 'object' && hasOwn(current, segment)
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      data
+    );
+  }
+
+  /**
+   * 処理名: 差分比較可能なオブジェクト判定
+   * @param {unknown} value 値
+   * @returns {boolean} 配列以外のオブジェクトの場合true
+   * @private
+   */
+  private isObjectRoot(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * 処理名: 値の複製
+   * @param {unknown} value 値
+   * @returns {unknown} 配列・プレーンオブジェクトを再帰的に複製した値
+   * @private
+   */
+  private cloneValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.cloneValue(item));
+    }
+    if (value !== null && typeof value === 'object' && value.constructor === Object) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.cloneValue(item)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * 処理名: 値の等価判定
+   * @param {unknown} a 値
+   * @param {unknown} b 値
+   * @returns {boolean} 内容が等しい場合true
+   * @private
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every(
+        (key) =>
+          hasOwn(b, key) &&
+          this.isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+      )
+    );
+  }
+
+  /**
+   * 処理名: 配列の構造変更の記録
+   * @param {ArrayChanges} changes 記録先の構造変更
+   * @param {DifferenceEvent} event 配列要素の差分イベント
+   * @returns {void}
+   * @private
+   */
+  private recordArrayChange(changes: ArrayChanges, event: DifferenceEvent): void {
+    const index = Number(event.segments[event.segments.length - 1]);
+    if (event.type === 'removed') changes.removed.push(index);
+    if (event.type === 'added') changes.added.push(index);
+    if (event.type === 'moved') {
+      changes.moved.set(index, Number((event.fromSegments as string[]).slice(-1)[0]));
+    }
+  }
+
+  /**
+   * 処理名: 配列の構造変更の抽出
+   * @param {DifferenceEvent[]} events 差分イベント
+   * @param {unknown} after 変更後のデータ
+   * @returns {Map<string, ArrayChanges>} 配列のパスごとの構造変更
+   * @private
+   */
+  private collectArrayChanges(events: DifferenceEvent[], after: unknown): Map<string, ArrayChanges> {
+    const changes = new Map<string, ArrayChanges>();
+    for (const event of events.filter((item) => this.isArrayStructural(item, after))) {
+      const parent = event.segments.slice(0, -1);
+      const key = this.toPointer(parent);
+      const entry: ArrayChanges = changes.get(key) || {
+        segments: parent,
+        removed: [],
+        added: [],
+        moved: new Map(),
+      };
+      changes.set(key, entry);
+      this.recordArrayChange(entry, event);
+    }
+    return changes;
+  }
+
+  /**
+   * 処理名: 配列要素の新旧インデックス対応の算出
+   * @param {ArrayChanges} changes 配列の構造変更
+   * @param {number} length 変更後の配列の長さ
+   * @returns {Map<number, number>} 変更後インデックスから変更前インデックスへの対応
+   * @private
+   */
+  private indexMapping(changes: ArrayChanges, length: number): Map<number, number> {
+    const oldLength = length - changes.added.length + changes.removed.length;
+    const movedOld = new Set(changes.moved.values());
+    const keptOld = Array.from({ length: oldLength }, (_v, i) => i).filter(
+      (i) => !changes.removed.includes(i) && !movedOld.has(i)
+    );
+    const mapping = new Map(changes.moved);
+    Array.from({ length }, (_v, i) => i)
+      .filter((j) => !changes.added.includes(j) && !changes.moved.has(j))
+      .forEach((j, order) => mapping.set(j, keptOld[order]));
+    return mapping;
+  }
+
+  /**
+   * 処理名: 配列の構造変更の操作生成
+   *
+   * 処理概要:
+   * 削除を後ろから適用した後、変更後の先頭から順に追加・移動を適用する操作列を生成する。
+   * 各操作のインデックスは直前までの操作を適用した状態を基準にする
+   *
+   * 実装理由:
+   * 差分イベントのパスは変更前後のスナップショット基準のため、
+   * 順番に適用するJSON Patchのインデックスに変換する必要があるため
+   * @param {ArrayChanges} changes 配列の構造変更
+   * @param {unknown} after 変更後のデータ
+   * @returns {PatchOperation[]} 操作列
+   * @private
+   */
+  private arrayOperations(changes: ArrayChanges, after: unknown): PatchOperation[] {
+    const target = this.valueAt(after, changes.segments) as unknown[];
+    const mapping = this.indexMapping(changes, target.length);
+    const pointer = (index: number): string => this.toPointer([...changes.segments, `${index}`]);
+    const operations: PatchOperation[] = [];
+    const working = Array.from(
+      { length: target.length - changes.added.length + changes.removed.length },
+      (_v, i) => i
+    );
+    [...changes.removed].sort((a, b) => b - a).forEach((index) => {
+      operations.push({ op: 'remove', path: pointer(index) });
+      working.splice(index, 1);
+    });
+    target.forEach((value, index) => {
+      const oldIndex = mapping.get(index);
+      if (oldIndex === undefined) {
+        operations.push({ op: 'add', path: pointer(index), value: this.cloneValue(value) });
+        working.splice(index, 0, -1);
+        return;
+      }
+      const position = working.indexOf(oldIndex);
+      if (position !== index) {
+        operations.push({ op: 'move', from: pointer(position), path: pointer(index) });
+        working.splice(index, 0, ...working.splice(position, 1));
+      }
+    });
+    return operations;
+  }
+
+  /**
+   * 処理名: 差分イベントの操作変換
+   * @param {DifferenceEvent} event 差分イベント
+   * @returns {PatchOperation} 操作
+   * @private
+   */
+  private eventOperation(event: DifferenceEvent): PatchOperation {
+    const path = this.toPointer(event.segments);
+    switch (event.type) {
+      case 'added':
+        return { op: 'add', path, value: event.newValue };
+      case 'removed':
+        return { op: 'remove', path };
+      default:
+        return { op: 'replace', path, value: event.newValue };
+    }
+  }
+
+  /**
+   * 処理名: パッチ生成
+   *
+   * 処理概要:
+   * 変更前後の設定オブジェクトをFindDifferencesで比較し、変更前に順番に適用すると
+   * 変更後と等しくなるJSON Patchを生成する。
+   * Secret/Env/RegExp/Buffer等のtype付きオブジェクトと、オブジェクト・配列・それ以外の値の間で
+   * 種類が変わった値は分解せず、丸ごとreplaceする
+   *
+   * 実装理由:
+   * ハッシュツリーの比較結果を標準形式の差分として受け渡せるようにするため
+   * @param {unknown} before 変更前のデータ
+   * @param {unknown} after 変更後のデータ
+   * @returns {PatchOperation[]} JSON Patch
+   */
+  generate(before: unknown, after: unknown): PatchOperation[] {
+    if (!this.isObjectRoot(before) || !this.isObjectRoot(after)) {
+      return this.isEqual(before, after) ? [] : [{ op: 'replace', path: '', value: this.cloneValue(after) }];
+    }
+    const finder = new FindDifferences({
+      trackValues: true,
+      arrayDiff: 'sequence',
+      arrayKey: this.arrayKey,
+    });
+    const events: DifferenceEvent[] = [];
+    finder.on('difference', (event: DifferenceEvent) => events.push(event));
+    finder.initialize(before);
+    finder.detectChanges(after);
+
+    const arrays = this.collectArrayChanges(events, after);
+    const operations: PatchOperation[] = [];
+    for (const event of events) {
+      operations.push(...this.pendingArrayOperations(event, arrays, after));
+      if (!this.isArrayStructural(event, after)) {
+        operations.push(this.eventOperation(event));
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * 処理名: 未出力の配列構造変更の取り出し
+   *
+   * 処理概要:
+   * イベントのパスが通る配列に未出力の構造変更があれば、外側の配列から順に操作を生成する
+   *
+   * 実装理由:
+   * 要素内の操作より先に、要素を変更後のインデックスへ配置しておく必要があるため
+   * @param {DifferenceEvent} event 差分イベント
+   * @param {Map<string, ArrayChanges>} arrays 未出力の配列構造変更（出力したものは取り除く）
+   * @param {unknown} after 変更後のデータ
+   * @returns {PatchOperation[]} 操作列
+   * @private
+   */
+  private pendingArrayOperations(
+    event: DifferenceEvent,
+    arrays: Map<string, ArrayChanges>,
+    after: unknown
+  ): PatchOperation[] {
+    const operations: PatchOperation[] = [];
+    for (let length = 0; length < event.segments.length; length++) {
+      const key = this.toPointer(event.segments.slice(0, length));
+      const changes = arrays.get(key);
+      if (!changes) continue;
+      operations.push(...this.arrayOperations(changes, after));
+      arrays.delete(key);
+    }
+    return operations;
+  }
+
+  /**
+   * 処理名: 配列の構造変更イベント判定
+   * @param {DifferenceEvent} event 差分イベント
+   * @param {unknown} after 変更後のデータ
+   * @returns {boolean} 配列要素の追加・削除・移動の場合true
+   * @private
+   */
+  private isArrayStructural(event: DifferenceEvent, after: unknown): boolean {
+    return event.type !== 'modified' && Array.isArray(this.valueAt(after, event.segments.slice(0, -1)));
+  }
+
+  /**
+   * 処理名: 操作対象の親要素取得
+   * @param {unknown} document 適用中のドキュメント
+   * @param {string[]} segments 操作対象のパス
+   * @returns {Container} 親要素
+   * @throws {Error} 親要素が存在しない場合
+   * @private
+   */
+  private parentOf(document: unknown, segments: string[]): Container {
+    const parent = this.valueAt(document, segments.slice(0, -1));
+    if (parent === null || typeof parent !== 'object') {
+      throw new Error('parent path does not exist');
+    }
+    return parent as Container;
+  }
+
+  /**
+   * 処理名: 配列インデックスの解釈
+   * @param {unknown[]} array 配列
+   * @param {string} segment パスの末尾
+   * @param {boolean} forInsert 追加操作の場合true（末尾の次・"-"を許可）
+   * @returns {number} インデックス
+   * @throws {Error} インデックスが範囲外の場合
+   * @private
+   */
+  private arrayIndex(array: unknown[], segment: string, forInsert: boolean): number {
+    const limit = forInsert ? array.length : array.length - 1;
+    const index = segment === '-' && forInsert ? array.length : Number(segment);
+    if (!/^(0|[1-9][0-9]*|-)$/.test(segment) || !(index >= 0 && index <= limit)) {
+      throw new Error(`array index out of range: ${segment}`);
+    }
+    return index;
+  }
+
+  /**
+   * 処理名: 値の追加
+   * @param {unknown} document 適用中のドキュメント
+   * @param {string[]} segments 追加先のパス
+   * @param {unknown} value 追加する値
+   * @returns {unknown} 適用後のドキュメント
+   * @private
+   */
+  private addValue(document: unknown, segments: string[], value: unknown): unknown {
+    if (segments.length === 0) return value;
+    const parent = this.parentOf(document, segments);
+    const last = segments[segments.length - 1];
+    if (Array.isArray(parent)) {
+      parent.splice(this.arrayIndex(parent, last, true), 0, value);
+    } else {
+      // __proto__への代入でプロトタイプが変わらないよう、プロパティとして定義する
+      Object.defineProperty(parent, last, { value, writable: true, enumerable: true, configurable: true });
+    }
+    return document;
+  }
+
+  /**
+   * 処理名: 値の削除
+   * @param {unknown} document 適用中のドキュメント
+   * @param {string[]} segments 削除対象のパス
+   * @returns {unknown} 削除した値
+   * @throws {Error} 削除対象が存在しない場合
+   * @private
+   */
+  private removeValue(document: unknown, segments: string[]): unknown {
+    if (segments.length === 0) {
+      throw new Error('cannot remove the document root');
+    }
+    const parent = this.parentOf(document, segments);
+    const last = segments[segments.length - 1];
+    if (Array.isArray(parent)) {
+      return parent.splice(this.arrayIndex(parent, last, false), 1)[0];
+    }
+    if (!hasOwn(parent, last)) {
+      throw new Error('path does not exist');
+    }
+    const removed = parent[last];
+    delete parent[last];
+    return removed;
+  }
+
+  /**
+   * 処理名: 既存値の取得
+   * @param {unknown} document 適用中のドキュメント
+   * @param {string[]} segments 取得対象のパス
+   * @returns {unknown} 値
+   * @throws {Error} 値が存在しない場合
+   * @private
+   */
+  private existingValue(document: unknown, segments: string[]): unknown {
+    if (segments.length === 0) return document;
+    const parent = this.parentOf(document, segments);
+    const last = segments[segments.length - 1];
+    const exists = Array.isArray(parent)
+      ? this.arrayIndex(parent, last, false) >= 0
+      : hasOwn(parent, last);
+    if (!exists) {
+      throw new Error('path does not exist');
+    }
+    return (parent as Record<string, unknown>)[last];
+  }
+
+  /**
+   * 処理名: 1操作の適用
+   * @param {unknown} document 適用中のドキュメント
+   * @param {PatchOperation} operation 操作
+   * @returns {unknown} 適用後のドキュメント
+   * @throws {Error} 操作が適用できない場合
+   * @private
+   */
+  private applyOperation(document: unknown, operation: PatchOperation): unknown {
+    const segments = this.parsePointer(operation.path);
+    switch (operation.op) {
+      case 'add':
+        return this.addValue(document, segments, this.cloneValue(operation.value));
+      case 'remove':
+        this.removeValue(document, segments);
+        return document;
+      case 'replace':
+        this.existingValue(document, segments);
+        if (segments.length === 0) return this.cloneValue(operation.value);
+        this.removeValue(document, segments);
+        return this.addValue(document, segments, this.cloneValue(operation.value));
+      case 'move':
+      case 'copy':
+        return this.applyTransfer(document, operation);
+      case 'test':
+        if (!this.isEqual(this.existingValue(document, segments), operation.value)) {
+          throw new Error('test failed');
+        }
+        return document;
+      default:
+        throw new Error(`unknown operation: ${(operation as { op: string }).op}`);
+    }
+  }
+
+  /**
+   * 処理名: move/copy操作の適用
+   * @param {unknown} document 適用中のドキュメント
+   * @param {PatchOperation} operation move/copy操作
+   * @returns {unknown} 適用後のドキュメント
+   * @throws {Error} 移動元が存在しない、または自身の子孫への移動の場合
+   * @private
+   */
+  private applyTransfer(
+    document: unknown,
+    operation: Extract<PatchOperation, { op: 'move' | 'copy' }>
+  ): unknown {
+    const from = this.parsePointer(operation.from);
+    const to = this.parsePointer(operation.path);
+    if (operation.op === 'copy') {
+      return this.addValue(document, to, this.cloneValue(this.existingValue(document, from)));
+    }
+    if (operation.path.startsWith(`${operation.from}/`)) {
+      throw new Error('cannot move a value into one of its children');
+    }
+    return this.addValue(document, to, this.removeValue(document, from));
+  }
+
+  /**
+   * 処理名: パッチ適用
+   *
+   * 処理概要:
+   * JSON Patchの操作を先頭から順に、複製したドキュメントへ適用する。
+   * いずれかの操作（testを含む）が失敗した場合は、入力を変更せずにエラーを投げる
+   *
+   * 実装理由:
+   * testによる前提条件の確認を含め、パッチ全体を原子的に適用するため
+   * @param {unknown} document 適用対象のデータ
+   * @param {PatchOperation[]} patch JSON Patch
+   * @returns {unknown} 適用後のデータ
+   * @throws {Error} 操作が適用できない場合
+   */
+  apply(document: unknown, patch: PatchOperation[]): unknown {
+    return patch.reduce((current: unknown, operation, index) => {
+      try {
+        return this.applyOperation(current, operation);
+      } catch (error) {
+        throw new Error(
+          `JSON Patch error: operation ${index} (${operation.op} ${operation.path}): ${(error as Error).message}`
+        );
+      }
+    }, this.cloneValue(document));
+  }
+}
+
+export default JsonPatch;
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import Keyring from './Keyring';
+
+/**
+ * 暗号化キーの取得元の型
+ * - file: 鍵ファイル（所有者以外が読み書きできる場合はエラー）
+ * - env: 環境変数
+ * - stdin: 標準入力
+ */
+export type KeySource =
+  | { type: 'file'; path: string }
+  | { type: 'env'; name: string }
+  | { type: 'stdin' };
+
+/**
+ * 処理名: 暗号化キーの取得
+ *
+ * 処理概要:
+ * 鍵ファイル・環境変数・標準入力から暗号化キーを読み込む。
+ * 内容がHEX形式（32バイト）の場合は単一の鍵、JSONの場合はKeyringとして扱う
+ *
+ * 実装理由:
+ * 鍵をコマンドライン引数で渡すとシェル履歴やプロセス一覧に残るため、
+ * それ以外の経路で鍵を受け渡せるようにするため
+ */
+export class KeyProvider {
+  /**
+   * 処理名: 鍵テキストの解析
+   * @param {string} text 鍵のテキスト（HEX形式、またはKeyringのJSON）
+   * @param {string} origin エラーに表示する取得元
+   * @returns {Buffer | Keyring} 鍵またはKeyring
+   * @throws {Error} 形式が不正な場合
+   */
+  static parse(text: string, origin: string): Buffer | Keyring {
+    const content = text.trim();
+    if (content.startsWith('{')) {
+      try {
+        return Keyring.fromJSON(JSON.parse(content));
+      } catch (error) {
+        throw new Error(`invalid key from ${origin}: ${error}`);
+      }
+    }
+    if (!/^[0-9a-fA-F]{64}$/.test(content)) {
+      throw new Error(`invalid key from ${origin}: expected 64 hex characters or a keyring JSON`);
+    }
+    return Buffer.from(content, 'hex');
+  }
+
+  /**
+   * 処理名: 鍵ファイルの読み込み
+   *
+   * 処理概要:
+   * 鍵ファイルを読み込む。POSIX環境では所有者以外に権限があるファイルを拒否する
+   *
+   * 実装理由:
+   * 他のユーザーから読める状態の鍵を気付かずに使い続けないようにするため
+   * @param {string} filepath 鍵ファイルのパス
+   * @returns {Buffer | Keyring} 鍵またはKeyring
+   * @throws {Error} ファイルが無い場合、権限が広すぎる場合、または形式が不正な場合
+   */
+  static fromFile(filepath: string): Buffer | Keyring {
+    const mode = fs.statSync(filepath).mode & 0o777;
+    if (process.platform !== 'win32' && (mode & 0o077) !== 0) {
+      throw new Error(
+        `key file ${filepath} is accessible by other users (mode ${mode.toString(8)}); run chmod 600 ${filepath}`
+      );
+    }
+    return KeyProvider.parse(fs.readFileSync(filepath, 'utf8'), `key file ${filepath}`);
+  }
+
+  /**
+   * 処理名: 環境変数からの読み込み
+   * @param {string} name 環境変数名
+   * @param {Record<string, string | undefined>} [env] 参照する環境変数（デフォルト: process.env）
+   * @returns {Buffer | Keyring} 鍵またはKeyring
+   * @throws {Error} 環境変数が未設定の場合、または形式が不正な場合
+   */
+  static fromEnv(name: string, env: Record<string, string | undefined> = process.env): Buffer | Keyring {
+    const value = env[name];
+    if (!value) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return KeyProvider.parse(value, `environment variable ${name}`);
+  }
+
+  /**
+   * 処理名: 標準入力からの読み込み
+   * @param {number} [fd] 読み込むファイルディスクリプタ（デフォルト: 0）
+   * @returns {Buffer | Keyring} 鍵またはKeyring
+   * @throws {Error} 形式が不正な場合
+   */
+  static fromStdin(fd = 0): Buffer | Keyring {
+    return KeyProvider.parse(fs.readFileSync(fd, 'utf8'), 'stdin');
+  }
+
+  /**
+   * 処理名: 取得元を指定した読み込み
+   *
+   * 処理概要:
+   * KeySourceの種類に応じて鍵ファイル・環境変数・標準入力から鍵を読み込む
+   *
+   * 実装理由:
+   * Serializerのコンストラクタ・CLIから取得元を指定するだけで鍵を読み込めるようにするため
+   * @param {KeySource} source 鍵の取得元
+   * @returns {Buffer | Keyring} 鍵またはKeyring
+   * @throws {Error} 読み込みに失敗した場合
+   */
+  static load(source: KeySource): Buffer | Keyring {
+    switch (source.type) {
+      case 'file':
+        return KeyProvider.fromFile(source.path);
+      case 'env':
+        return KeyProvider.fromEnv(source.name);
+      case 'stdin':
+        return KeyProvider.fromStdin();
+      default:
+        throw new Error(`unsupported key source '${(source as { type: string }).type}'`);
+    }
+  }
+
+  /**
+   * 処理名: 鍵ファイルの書き込み
+   *
+   * 処理概要:
+   * 鍵（HEX形式）またはKeyring（JSON形式）を所有者のみ読み書きできる権限（0600）で新規作成する。
+   * 既存のファイルは上書きしない
+   *
+   * 実装理由:
+   * 生成した鍵を標準出力に表示せず、ログ等に残らない形で保存するため
+   * @param {string} filepath 鍵ファイルのパス
+   * @param {Buffer | Keyring} key 鍵またはKeyring
+   * @returns {void}
+   * @throws {Error} ファイルが既に存在する場合、または書き込みに失敗した場合
+   */
+  static writeKeyFile(filepath: string, key: Buffer | Keyring): void {
+    const content = Buffer.isBuffer(key)
+      ? `${key.toString('hex')}\n`
+      : `${JSON.stringify(key.toJSON(), null, 2)}\n`;
+    fs.writeFileSync(filepath, content, { mode: 0o600, flag: 'wx' });
+  }
+}
+
+export default KeyProvider;
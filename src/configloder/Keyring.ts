@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+
+/**
+ * 鍵ファイルの型
+ */
+export interface KeyFile {
+  /** 暗号化に使用する鍵のID（省略時はkeysの先頭） */
+  primary?: string;
+  /** 鍵IDとHEX形式の鍵（32バイト）の対応 */
+  keys: Record<string, string>;
+}
+
+/**
+ * 処理名: 鍵ID付きの暗号化キー管理
+ *
+ * 処理概要:
+ * 鍵ID（kid）と32バイトの暗号化キーの対応を保持する。
+ * 暗号化にはprimaryの鍵を使用し、復号ではSecretに記録されたkidの鍵を使用する
+ *
+ * 実装理由:
+ * 1つの設定ファイルにチーム・環境ごとに異なる鍵のSecretを混在させ、
+ * 鍵の切り替え中も新旧の鍵で暗号化したSecretを並存させるため
+ */
+export class Keyring {
+  private keys: Map<string, Buffer>;
+  private primary: string | undefined;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * 鍵IDと鍵の対応からKeyringを初期化する
+   *
+   * 実装理由:
+   * 鍵ファイルを使わずにプログラムから鍵を登録できるようにするため
+   * @param {Record<string, Buffer>} [keys] 鍵IDと鍵の対応
+   * @param {string} [primary] 暗号化に使用する鍵ID（省略時は最初に登録した鍵）
+   */
+  constructor(keys: Record<string, Buffer> = {}, primary?: string) {
+    this.keys = new Map();
+    this.primary = undefined;
+    for (const [kid, key] of Object.entries(keys)) {
+      this.add(kid, key);
+    }
+    if (primary !== undefined) {
+      this.setPrimary(primary);
+    }
+  }
+
+  /**
+   * 処理名: 鍵ファイル内容からの生成
+   *
+   * 処理概要:
+   * {primary, keys: {kid: hex}} 形式のオブジェクトからKeyringを生成する
+   *
+   * 実装理由:
+   * 鍵ファイルの形式の検証を1箇所にまとめるため
+   * @param {unknown} json 鍵ファイルの内容（JSON.parse済み）
+   * @returns {Keyring} 生成したKeyring
+   * @throws {Error} 形式が不正な場合
+   */
+  static fromJSON(json: unknown): Keyring {
+    const file = json as KeyFile;
+    if (!file || typeof file.keys !== 'object' || file.keys === null) {
+      throw new Error('invalid key file: "keys" must be an object of key id to hex key');
+    }
+    const keys: Record<string, Buffer> = {};
+    for (const [kid, hex] of Object.entries(file.keys)) {
+      if (typeof hex !== 'string' || !/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error(`invalid key file: key '${kid}' must be a 32 byte hex string`);
+      }
+      keys[kid] = Buffer.from(hex, 'hex');
+    }
+    return new Keyring(keys, file.primary);
+  }
+
+  /**
+   * 処理名: 鍵ファイルの読み込み
+   *
+   * 処理概要:
+   * JSON形式の鍵ファイルを読み込んでKeyringを生成する
+   *
+   * 実装理由:
+   * 鍵を設定ファイルやコマンドラインとは別のファイルで管理できるようにするため
+   * @param {string} filepath 鍵ファイルのパス
+   * @returns {Keyring} 生成したKeyring
+   * @throws {Error} 読み込みに失敗した場合、または形式が不正な場合
+   */
+  static fromFile(filepath: string): Keyring {
+    try {
+      return Keyring.fromJSON(JSON.parse(fs.readFileSync(filepath, 'utf8')));
+    } catch (error) {
+      throw new Error(`keyring load error: ${filepath}: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: 鍵の登録
+   *
+   * 処理概要:
+   * 鍵IDと鍵を登録する。最初に登録した鍵をprimaryとする
+   *
+   * 実装理由:
+   * 鍵の切り替え時に新しい鍵を追加できるようにするため
+   * @param {string} kid 鍵ID
+   * @param {Buffer} key 32バイトの暗号化キー
+   * @returns {Keyring} メソッドチェーン用の自身
+   * @throws {Error} 鍵の長さが32バイトでない場合
+   */
+  add(kid: string, key: Buffer): Keyring {
+    if (key.length !== 32) {
+      throw new Error(`key '${kid}' must be 32 bytes (got ${key.length})`);
+    }
+    this.keys.set(kid, key);
+    if (this.primary === undefined) this.primary = kid;
+    return this;
+  }
+
+  /**
+   * 処理名: primaryの鍵IDの設定
+   * @param {string} kid 暗号化に使用する鍵ID
+   * @returns {Keyring} メソッドチェーン用の自身
+   * @throws {Error} 鍵IDが登録されていない場合
+   */
+  setPrimary(kid: string): Keyring {
+    if (!this.keys.has(kid)) {
+      throw new Error(`no key for kid '${kid}' in keyring`);
+    }
+    this.primary = kid;
+    return this;
+  }
+
+  /**
+   * 処理名: primaryの鍵IDの取得
+   * @returns {string | undefined} 暗号化に使用する鍵ID（鍵が無い場合はundefined）
+   */
+  getPrimary(): string | undefined {
+    return this.primary;
+  }
+
+  /**
+   * 処理名: 鍵の取得
+   * @param {string} kid 鍵ID
+   * @returns {Buffer | undefined} 鍵（登録されていない場合はundefined）
+   */
+  get(kid: string): Buffer | undefined {
+    return this.keys.get(kid);
+  }
+
+  /**
+   * 処理名: 鍵IDの一覧取得
+   * @returns {string[]} 登録済みの鍵ID
+   */
+  kids(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  /**
+   * 処理名: 鍵ファイル形式への変換
+   *
+   * 処理概要:
+   * fromJSONで読み込める {primary, keys} 形式のオブジェクトに変換する
+   *
+   * 実装理由:
+   * 生成・追加した鍵を鍵ファイルとして保存できるようにするため
+   * @returns {KeyFile} 鍵ファイルの内容
+   */
+  toJSON(): KeyFile {
+    return {
+      primary: this.primary,
+      keys: Object.fromEntries(
+        [...this.keys.entries()].map(([kid, key]) => [kid, key.toString('hex')])
+      ),
+    };
+  }
+}
+
+export default Keyring;
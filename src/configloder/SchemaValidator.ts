@@ -0,0 +1,477 @@
+/**
+ * スキーマで指定できる型名
+ * JSON Schemaの型に加え、デシリアライズ後のRegExp/Bufferを独立した型として扱う
+ */
+export type SchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'array'
+  | 'object'
+  | 'regexp'
+  | 'buffer';
+
+/**
+ * 設定スキーマの型（JSON Schema draft-07 のサブセット）
+ */
+export interface ConfigSchema {
+  type?: SchemaType | SchemaType[];
+  properties?: Record<string, ConfigSchema>;
+  required?: string[];
+  additionalProperties?: boolean | ConfigSchema;
+  items?: ConfigSchema;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: unknown;
+}
+
+/**
+ * 検証エラーの型
+ */
+export interface ValidationError {
+  /** 違反箇所のドット区切りパス（ルートは空文字） */
+  path: string;
+  /** 違反したキーワード */
+  keyword: string;
+  /** エラーメッセージ */
+  message: string;
+}
+
+/**
+ * 検証結果の型
+ */
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+  /** デフォルト値を補完した設定オブジェクト */
+  value: unknown;
+}
+
+/**
+ * 処理名: 設定スキーマ検証
+ *
+ * 処理概要:
+ * Serializer.deserializeObjectで復元した設定オブジェクトをJSON Schemaのサブセットで検証する。
+ * RegExp・Bufferを独立した型として扱い、省略されたキーにはdefault値を補完する。
+ * 最初の違反で止めず、全ての違反をドット区切りのパス付きで返す
+ *
+ * 実装理由:
+ * YAMLのキーの誤記等をアプリケーションの奥深くでのクラッシュではなく、
+ * 読み込み直後に違反箇所の一覧として検出するため
+ */
+export class SchemaValidator {
+  private schema: ConfigSchema;
+
+  /**
+   * 処理名: コンストラクタ
+   *
+   * 処理概要:
+   * SchemaValidatorインスタンスを初期化し、検証に使用するスキーマを保持する
+   *
+   * 実装理由:
+   * 同じスキーマで繰り返し検証できるようにするため
+   * @param {ConfigSchema} schema 設定スキーマ
+   */
+  constructor(schema: ConfigSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * 処理名: パス結合
+   * @param {string} path 親のパス
+   * @param {string | number} key キーまたは配列インデックス
+   * @returns {string} 結合したパス
+   * @private
+   */
+  private joinPath(path: string, key: string | number): string {
+    return path ? `${path}.${key}` : `${key}`;
+  }
+
+  /**
+   * 処理名: 値の型名取得
+   * @param {unknown} value 値
+   * @returns {string} スキーマ上の型名
+   * @private
+   */
+  private typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof RegExp) return 'regexp';
+    if (Buffer.isBuffer(value)) return 'buffer';
+    return typeof value;
+  }
+
+  /**
+   * 処理名: 型一致判定
+   * @param {unknown} value 値
+   * @param {SchemaType} type 期待する型
+   * @returns {boolean} 一致する場合true
+   * @private
+   */
+  private matchesType(value: unknown, type: SchemaType): boolean {
+    if (type === 'integer') {
+      return Number.isInteger(value);
+    }
+    return this.typeOf(value) === type;
+  }
+
+  /**
+   * 処理名: プレーンオブジェクト判定
+   * @param {unknown} value 値
+   * @returns {boolean} プロパティ検証対象のオブジェクトの場合true
+   * @private
+   */
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return this.typeOf(value) === 'object';
+  }
+
+  /**
+   * 処理名: 自身のプロパティの取得
+   * @param {Record<string, unknown>} value オブジェクト
+   * @param {string} key キー
+   * @returns {unknown} 自身のプロパティの値（プロトタイプ上のconstructor等は含めない）
+   * @private
+   */
+  private ownValue(value: Record<string, unknown>, key: string): unknown {
+    return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+  }
+
+  /**
+   * 処理名: 自身のプロパティの設定
+   * @param {Record<string, unknown>} value オブジェクト
+   * @param {string} key キー
+   * @param {unknown} item 設定する値
+   * @returns {void}
+   * @private
+   */
+  private setOwn(value: Record<string, unknown>, key: string, item: unknown): void {
+    // __proto__への代入でプロトタイプが変わらないよう、プロパティとして定義する
+    Object.defineProperty(value, key, { value: item, writable: true, enumerable: true, configurable: true });
+  }
+
+  /**
+   * 処理名: 値の比較
+   * @param {unknown} a 値
+   * @param {unknown} b 値
+   * @returns {boolean} 内容が等しい場合true（オブジェクトのキーの順序は区別しない）
+   * @private
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    const type = this.typeOf(a);
+    if (type !== this.typeOf(b) || typeof a !== 'object' || a === null) return false;
+    if (type === 'regexp') return String(a) === String(b);
+    if (type === 'buffer') return (a as Buffer).equals(b as Buffer);
+    const entriesA = Object.entries(a as Record<string, unknown>);
+    const other = b as Record<string, unknown>;
+    return (
+      entriesA.length === Object.keys(other).length &&
+      entriesA.every(([key, item]) => Object.prototype.hasOwnProperty.call(other, key) && this.isEqual(item, other[key]))
+    );
+  }
+
+  /**
+   * 処理名: デフォルト値の複製
+   * @param {unknown} value デフォルト値
+   * @returns {unknown} スキーマと参照を共有しない複製
+   * @private
+   */
+  private cloneDefault(value: unknown): unknown {
+    return typeof value === 'object' && value !== null
+      ? JSON.parse(JSON.stringify(value))
+      : value;
+  }
+
+  /**
+   * 処理名: 型の検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {unknown} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {boolean} 型が一致した場合true
+   * @private
+   */
+  private checkType(
+    schema: ConfigSchema,
+    value: unknown,
+    path: string,
+    errors: ValidationError[]
+  ): boolean {
+    if (!schema.type) return true;
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.some((type) => this.matchesType(value, type))) return true;
+    errors.push({
+      path,
+      keyword: 'type',
+      message: `expected ${types.join(' | ')} but got ${this.typeOf(value)}`,
+    });
+    return false;
+  }
+
+  /**
+   * 処理名: 列挙値・定数の検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {unknown} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkEnum(
+    schema: ConfigSchema,
+    value: unknown,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    if (schema.enum && !schema.enum.some((candidate) => this.isEqual(candidate, value))) {
+      errors.push({
+        path,
+        keyword: 'enum',
+        message: `must be one of ${JSON.stringify(schema.enum)}`,
+      });
+    }
+    if (schema.const !== undefined && !this.isEqual(schema.const, value)) {
+      errors.push({
+        path,
+        keyword: 'const',
+        message: `must be ${JSON.stringify(schema.const)}`,
+      });
+    }
+  }
+
+  /**
+   * 処理名: パターンの検証
+   * @param {string} pattern スキーマのパターン
+   * @param {string} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkPattern(pattern: string, value: string, path: string, errors: ValidationError[]): void {
+    let regExp: RegExp;
+    try {
+      regExp = new RegExp(pattern);
+    } catch (error) {
+      // スキーマの誤りも例外にせず、他の違反と一緒に報告する
+      errors.push({ path, keyword: 'pattern', message: `invalid pattern ${pattern} in schema (${(error as Error).message})` });
+      return;
+    }
+    if (!regExp.test(value)) {
+      errors.push({
+        path,
+        keyword: 'pattern',
+        message: `must match pattern ${pattern}`,
+      });
+    }
+  }
+
+  /**
+   * 処理名: 範囲の検証
+   * @param {number} actual 実際の値（数値・長さ・要素数）
+   * @param {Array<number | undefined>} bounds 下限・上限
+   * @param {string[]} keywords 下限・上限のキーワード名
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkRange(
+    actual: number,
+    bounds: [number | undefined, number | undefined],
+    keywords: [string, string],
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    const [min, max] = bounds;
+    if (min !== undefined && actual < min) {
+      errors.push({ path, keyword: keywords[0], message: `must be >= ${min} (got ${actual})` });
+    }
+    if (max !== undefined && actual > max) {
+      errors.push({ path, keyword: keywords[1], message: `must be <= ${max} (got ${actual})` });
+    }
+  }
+
+  /**
+   * 処理名: 文字列の検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {string} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkString(
+    schema: ConfigSchema,
+    value: string,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    this.checkRange(
+      value.length,
+      [schema.minLength, schema.maxLength],
+      ['minLength', 'maxLength'],
+      path,
+      errors
+    );
+    if (schema.pattern !== undefined) {
+      this.checkPattern(schema.pattern, value, path, errors);
+    }
+  }
+
+  /**
+   * 処理名: 配列の検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {unknown[]} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkArray(
+    schema: ConfigSchema,
+    value: unknown[],
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    this.checkRange(
+      value.length,
+      [schema.minItems, schema.maxItems],
+      ['minItems', 'maxItems'],
+      path,
+      errors
+    );
+    const itemSchema = schema.items;
+    if (!itemSchema) return;
+    value.forEach((item, index) => {
+      value[index] = this.validateNode(itemSchema, item, this.joinPath(path, index), errors);
+    });
+  }
+
+  /**
+   * 処理名: 追加プロパティの検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {Record<string, unknown>} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkAdditionalProperties(
+    schema: ConfigSchema,
+    value: Record<string, unknown>,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    const additional = schema.additionalProperties;
+    if (additional === undefined || additional === true) return;
+    const known = schema.properties || {};
+    for (const key of Object.keys(value).filter((name) => !Object.prototype.hasOwnProperty.call(known, name))) {
+      const childPath = this.joinPath(path, key);
+      if (additional === false) {
+        errors.push({
+          path: childPath,
+          keyword: 'additionalProperties',
+          message: 'is not allowed',
+        });
+      } else {
+        this.setOwn(value, key, this.validateNode(additional, value[key], childPath, errors));
+      }
+    }
+  }
+
+  /**
+   * 処理名: オブジェクトの検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {Record<string, unknown>} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {void}
+   * @private
+   */
+  private checkObject(
+    schema: ConfigSchema,
+    value: Record<string, unknown>,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    const properties = schema.properties || {};
+    for (const [key, childSchema] of Object.entries(properties)) {
+      const child = this.ownValue(value, key);
+      if (child === undefined && childSchema.default === undefined) continue;
+      this.setOwn(value, key, this.validateNode(childSchema, child, this.joinPath(path, key), errors));
+    }
+    for (const key of schema.required || []) {
+      if (this.ownValue(value, key) === undefined) {
+        errors.push({
+          path: this.joinPath(path, key),
+          keyword: 'required',
+          message: 'is required',
+        });
+      }
+    }
+    this.checkAdditionalProperties(schema, value, path, errors);
+  }
+
+  /**
+   * 処理名: ノードの検証
+   * @param {ConfigSchema} schema スキーマ
+   * @param {unknown} value 値
+   * @param {string} path パス
+   * @param {ValidationError[]} errors エラー蓄積先
+   * @returns {unknown} デフォルト値を補完した値
+   * @private
+   */
+  private validateNode(
+    schema: ConfigSchema,
+    value: unknown,
+    path: string,
+    errors: ValidationError[]
+  ): unknown {
+    const actual = value === undefined ? this.cloneDefault(schema.default) : value;
+    if (!this.checkType(schema, actual, path, errors)) return actual;
+    this.checkEnum(schema, actual, path, errors);
+
+    if (typeof actual === 'string') {
+      this.checkString(schema, actual, path, errors);
+    } else if (typeof actual === 'number') {
+      this.checkRange(actual, [schema.minimum, schema.maximum], ['minimum', 'maximum'], path, errors);
+    } else if (Buffer.isBuffer(actual)) {
+      this.checkRange(actual.length, [schema.minLength, schema.maxLength], ['minLength', 'maxLength'], path, errors);
+    } else if (Array.isArray(actual)) {
+      this.checkArray(schema, actual, path, errors);
+    } else if (this.isPlainObject(actual)) {
+      this.checkObject(schema, actual, path, errors);
+    }
+    return actual;
+  }
+
+  /**
+   * 処理名: 設定オブジェクトの検証
+   *
+   * 処理概要:
+   * 設定オブジェクト全体をスキーマで検証し、全ての違反をパス付きで返す。
+   * 省略されたプロパティにはスキーマのdefault値を補完する（入力オブジェクトを直接更新する）
+   *
+   * 実装理由:
+   * 違反を1件ずつ修正・再実行しなくて済むよう、一度に全件を報告するため
+   * @param {unknown} data デシリアライズ済みの設定オブジェクト
+   * @returns {ValidationResult} 検証結果
+   */
+  validate(data: unknown): ValidationResult {
+    const errors: ValidationError[] = [];
+    const value = this.validateNode(this.schema, data, '', errors);
+    return { valid: errors.length === 0, errors, value };
+  }
+}
+
+export default SchemaValidator;
@@ -1,9 +1,285 @@
 import * as crypto from 'crypto';
+import * as vm from 'vm';
+import * as path from 'path';
+import { createRequire } from 'module';
+import Keyring from './Keyring';
+import KeyProvider, { KeySource } from './KeyProvider';
 import * as sourceMapSupport from 'source-map-support';
 
 // デバッグ用のsourceMap設定
 sourceMapSupport.install();
 
+/**
+ * Serializerが特殊扱いするtype値の一覧
+ */
+export const SERIALIZER_TYPES = ['RegExp', 'Buffer', 'Secret', 'Env'] as const;
+
+/**
+ * Serializerが特殊扱いするtype値の型
+ */
+export type SerializerType = (typeof SERIALIZER_TYPES)[number];
+
+/**
+ * 復号できるSecretの暗号化方式の一覧
+ * aes-256-cbc は互換性のための復号専用（versionを持たない旧形式のSecret）
+ */
+export const SECRET_ALGORITHMS = ['aes-256-gcm', 'aes-256-cbc'] as const;
+
+/**
+ * Secretの暗号化方式の型
+ */
+export type SecretAlgorithm = (typeof SECRET_ALGORITHMS)[number];
+
+/**
+ * 暗号化に使用する方式と、versionを持たない旧形式の方式
+ */
+const [CURRENT_ALGORITHM, LEGACY_ALGORITHM] = SECRET_ALGORITHMS;
+
+/**
+ * Secretの形式のバージョン（algを記録するようになった形式）
+ */
+export const SECRET_VERSION = 2;
+
+/**
+ * aes-256-gcmの認証タグの長さ（バイト）
+ */
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * パスワードからの鍵導出パラメータ型（Secretに記録し、パスワードのみで鍵を再導出する）
+ */
+export interface KeyDerivation {
+  /** 鍵導出関数名 */
+  name: 'scrypt';
+  /** ソルト（HEX形式） */
+  salt: string;
+  /** CPU・メモリコスト */
+  N: number;
+  /** ブロックサイズ */
+  r: number;
+  /** 並列度 */
+  p: number;
+}
+
+/**
+ * 鍵導出のコストパラメータの既定値
+ */
+export const DEFAULT_KEY_DERIVATION = { N: 16384, r: 8, p: 1 } as const;
+
+/**
+ * 鍵導出のコストパラメータの上限
+ * Secretのkdfは設定ファイルから読み込むため、改ざんで過大なメモリ・CPUを消費させられないよう上限を設ける
+ */
+export const MAX_KEY_DERIVATION = { N: 131072, r: 8, p: 4 } as const;
+
+/**
+ * scryptの最大メモリ（上限のN・rで必要な128 * N * rバイトに余裕を持たせた固定値）
+ */
+const SCRYPT_MAXMEM = 256 * 1024 * 1024;
+
+/**
+ * Envの値の型（list は separator で区切った文字列の配列）
+ */
+export const ENV_VALUE_TYPES = ['string', 'number', 'boolean', 'json', 'list'] as const;
+
+/**
+ * Envの値の型
+ */
+export type EnvValueType = (typeof ENV_VALUE_TYPES)[number];
+
+/**
+ * booleanとして解釈する環境変数の値（小文字）
+ */
+const ENV_BOOLEANS: ReadonlyMap<string, boolean> = new Map([
+  ['true', true],
+  ['1', true],
+  ['yes', true],
+  ['on', true],
+  ['false', false],
+  ['0', false],
+  ['no', false],
+  ['off', false],
+]);
+
+/**
+ * シリアライズ時の実行オプション型
+ */
+export interface SerializeOptions {
+  /** 実行のタイムアウト（ミリ秒、デフォルト: 1000） */
+  timeout?: number;
+  /** requireを許可するモジュール名（デフォルト: なし） */
+  allowedModules?: string[];
+  /** 設定コードのファイル名（エラー表示と、requireの解決基準に使用） */
+  filename?: string;
+}
+
+/**
+ * サンドボックス内で評価するヘルパー定義
+ *
+ * Secret・Env・Buffer・require・module・exportsと、module.exportsをJSON文字列に変換する関数を
+ * コンテキスト内のオブジェクトとして定義する。ホスト側の関数はbridgeのクロージャ内にのみ保持し、
+ * 引数・戻り値は文字列等のプリミティブ値に限り、ホスト側の例外はコンテキスト内のErrorに置き換える。
+ * Secretは復号できない目印（nonceをキーとするオブジェクト）としてJSONに出力し、ホスト側で暗号化する
+ */
+const SANDBOX_PRELUDE = `(function (bridge, nonce, envTypesJson, allowedModulesJson) {
+  'use strict';
+  const envTypes = JSON.parse(envTypesJson);
+  const allowedModules = JSON.parse(allowedModulesJson);
+  const tagOf = (value) => Object.prototype.toString.call(value);
+  const call = (fn, args) => {
+    try {
+      return fn(...args);
+    } catch (error) {
+      throw new Error(String(error && error.message));
+    }
+  };
+  const secrets = new WeakSet();
+  const envs = new WeakSet();
+  const buffers = new WeakMap();
+
+  class Secret {
+    constructor(value) {
+      this.value = value;
+      secrets.add(this);
+    }
+  }
+
+  class Env {
+    constructor(json) {
+      const options = json || {};
+      if (options.type !== undefined && !envTypes.includes(options.type)) {
+        throw new Error('Env ' + options.name + ": unknown type '" + options.type + "' (expected " + envTypes.join(', ') + ')');
+      }
+      this.name = options.name;
+      this.default = options.default;
+      this.valueType = options.type;
+      this.required = options.required;
+      this.pattern = tagOf(options.pattern) === '[object RegExp]' ? options.pattern.source : options.pattern;
+      this.separator = options.separator;
+      envs.add(this);
+    }
+  }
+
+  class Buffer {
+    constructor() {
+      throw new TypeError('use Buffer.from() or Buffer.alloc()');
+    }
+    static from(data, encoding) {
+      if (buffers.has(data)) {
+        return createBuffer(buffers.get(data));
+      }
+      if (typeof data === 'string') {
+        return createBuffer(call(bridge.toHex, [data, encoding === undefined ? 'utf8' : String(encoding)]));
+      }
+      if (Array.isArray(data) || ArrayBuffer.isView(data)) {
+        return createBuffer(Array.from(data, (byte) => ((byte & 255) | 256).toString(16).slice(1)).join(''));
+      }
+      throw new TypeError('Buffer.from() accepts a string, an array of bytes or a Buffer');
+    }
+    static alloc(size, fill) {
+      return createBuffer(call(bridge.alloc, [Number(size), typeof fill === 'string' ? fill : Number(fill || 0)]));
+    }
+    static isBuffer(value) {
+      return buffers.has(value);
+    }
+    static concat(list) {
+      return createBuffer(Array.from(list, (item) => Buffer.from(item)).map((item) => buffers.get(item)).join(''));
+    }
+    get length() {
+      return buffers.get(this).length / 2;
+    }
+    toString(encoding) {
+      return call(bridge.fromHex, [buffers.get(this), encoding === undefined ? 'utf8' : String(encoding)]);
+    }
+  }
+  const createBuffer = (hex) => {
+    const buffer = Object.create(Buffer.prototype);
+    buffers.set(buffer, hex);
+    return buffer;
+  };
+
+  const require = (name) => {
+    if (!allowedModules.includes(name)) {
+      throw new Error("require of '" + name + "' is not allowed");
+    }
+    return call(bridge.require, [String(name)]);
+  };
+
+  // 正規表現パターンにラベル設定用メソッドを追加する、どの条件でマッチしたかをこのラベルで判断できる
+  RegExp.prototype.setLabel = function (label) {
+    this.label = label;
+    return this;
+  };
+  [Secret, Env, Buffer].forEach((helper) => Object.freeze(Object.freeze(helper).prototype));
+
+  const module = { exports: {} };
+  Object.assign(globalThis, { module, exports: module.exports, Secret, Env, Buffer, require });
+
+  const toSerializable = (value) => {
+    if (value === null || typeof value !== 'object') {
+      return typeof value === 'function' ? undefined : value;
+    }
+    if (secrets.has(value)) {
+      const inner = toSerializable(value.value);
+      return { [nonce]: inner === undefined ? null : inner };
+    }
+    if (envs.has(value)) {
+      const env = { type: 'Env' };
+      ['name', 'default', 'valueType', 'required', 'pattern', 'separator']
+        .filter((key) => value[key] !== undefined)
+        .forEach((key) => (env[key] = value[key]));
+      return env;
+    }
+    if (tagOf(value) === '[object RegExp]') {
+      return { type: 'RegExp', source: value.source, flags: value.flags, label: value.label || '' };
+    }
+    if (buffers.has(value)) {
+      return { type: 'Buffer', hex: buffers.get(value) };
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => toSerializable(item));
+    }
+    if (typeof value.toJSON === 'function') {
+      return toSerializable(value.toJSON());
+    }
+    const result = {};
+    Object.keys(value).forEach((key) => (result[key] = toSerializable(value[key])));
+    return result;
+  };
+
+  return {
+    serialize: () => {
+      const json = JSON.stringify(toSerializable(module.exports));
+      return json === undefined ? 'null' : String(json);
+    },
+    describe: (error) => {
+      try {
+        return String(error);
+      } catch {
+        return 'unknown error';
+      }
+    },
+  };
+})`;
+
+/**
+ * サンドボックスから呼び出すホスト側の関数の型（引数・戻り値はプリミティブ値）
+ */
+interface SandboxBridge {
+  toHex: (text: string, encoding: string) => string;
+  fromHex: (hex: string, encoding: string) => string;
+  alloc: (size: number, fill: string | number) => string;
+  require: (name: string) => unknown;
+}
+
+/**
+ * サンドボックス内のヘルパーの型
+ */
+interface SandboxHooks {
+  serialize: () => string;
+  describe: (error: unknown) => string;
+}
+
 /**
  * 処理名: 設定値のシリアライズ・暗号化ライブラリ
  *
@@ -18,35 +294,160 @@ sourceMapSupport.install();
 export class Serializer {
   private crypto: {
     instance: typeof crypto;
-    algorithm: string;
+    algorithm: crypto.CipherGCMTypes;
     cryptokey: Buffer;
   };
   private debug: boolean;
+  private password?: string;
+  private keyDerivation?: KeyDerivation;
+  private derivedKeys: Map<string, Buffer>;
+  private keyring?: Keyring;
+  private kid?: string;
+  private plaintextSecrets = false;
 
   /**
    * 処理名: コンストラクタ
    *
    * 処理概要:
-   * Serializerインスタンスを初期化し、暗号化キーとデバッグフラグを設定
+   * Serializerインスタンスを初期化し、暗号化キーとデバッグフラグを設定。
+   * Keyringを指定した場合はprimaryの鍵で暗号化し、Secretにその鍵ID（kid）を記録する。
+   * KeySourceを指定した場合は鍵ファイル・環境変数・標準入力から鍵を読み込む
    * 実装理由:
    * 暗号化・複号化処理で使用する秘密鍵を保持するため
-   * @param {Buffer} cryptokey 暗号化用の秘密鍵
+   * @param {Buffer | Keyring | KeySource} key 暗号化用の秘密鍵、鍵ID付きの鍵の集合、または鍵の取得元
    * @param {boolean} [debug] デバッグモード
+   * @throws {Error} 鍵を読み込めない場合、またはKeyringに鍵が登録されていない場合
    */
-  constructor(cryptokey: Buffer, debug?: boolean) {
+  constructor(key: Buffer | Keyring | KeySource, debug?: boolean) {
+    const cryptokey =
+      Buffer.isBuffer(key) || key instanceof Keyring ? key : KeyProvider.load(key);
+    let primaryKey = cryptokey as Buffer;
+    if (cryptokey instanceof Keyring) {
+      const kid = cryptokey.getPrimary();
+      if (kid === undefined) {
+        throw new Error('keyring has no keys');
+      }
+      this.keyring = cryptokey;
+      this.kid = kid;
+      primaryKey = cryptokey.get(kid) as Buffer;
+    }
     this.crypto = {
       instance: crypto,
-      algorithm: 'aes-256-cbc',
-      cryptokey: cryptokey,
+      algorithm: CURRENT_ALGORITHM,
+      cryptokey: primaryKey,
     };
     this.debug = debug || false;
+    this.derivedKeys = new Map();
+  }
+
+  /**
+   * 処理名: パスワードモードのSerializer生成
+   *
+   * 処理概要:
+   * パスワードから鍵を導出したSerializerを生成する。暗号化したSecretには鍵導出パラメータを記録し、
+   * 復号時はSecretに記録されたパラメータからパスワードのみで鍵を再導出する
+   *
+   * 実装理由:
+   * 鍵そのものを保管せず、パスワードだけで後から復号できるようにするため
+   * @param {string} password 暗号化パスワード
+   * @param {KeyDerivation} [keyDerivation] 鍵導出パラメータ（省略時はランダムなソルトで生成）
+   * @param {boolean} [debug] デバッグモード
+   * @returns {Serializer} パスワードモードのSerializer
+   */
+  static fromPassword(
+    password: string,
+    keyDerivation: KeyDerivation = Serializer.createKeyDerivation(),
+    debug?: boolean
+  ): Serializer {
+    const cryptokey = Serializer.deriveKey(password, keyDerivation);
+    const serializer = new Serializer(cryptokey, debug);
+    serializer.password = password;
+    serializer.keyDerivation = keyDerivation;
+    serializer.derivedKeys.set(JSON.stringify(keyDerivation), cryptokey);
+    return serializer;
+  }
+
+  /**
+   * 処理名: 鍵導出パラメータ生成
+   *
+   * 処理概要:
+   * ランダムなソルトと、指定（省略時は既定値）のコストパラメータで鍵導出パラメータを生成する
+   *
+   * 実装理由:
+   * 同じパスワードでも設定ファイルごとに異なる鍵を導出するため
+   * @param {Partial<{N: number, r: number, p: number}>} [cost] scryptのコストパラメータ（省略時は既定値）
+   * @returns {KeyDerivation} 鍵導出パラメータ
+   */
+  static createKeyDerivation(
+    cost: Partial<{ N: number; r: number; p: number }> = {}
+  ): KeyDerivation {
+    return {
+      name: 'scrypt',
+      salt: crypto.randomBytes(16).toString('hex'),
+      ...DEFAULT_KEY_DERIVATION,
+      ...cost,
+    };
+  }
+
+  /**
+   * 処理名: パスワードからの鍵導出
+   *
+   * 処理概要:
+   * 鍵導出パラメータに従い、パスワードから32バイトの暗号化キーを導出する。
+   * 同じパスワード・パラメータからは常に同じ鍵が得られる
+   *
+   * 実装理由:
+   * シリアライズ結果に記録したパラメータから鍵を再現するため
+   * @param {string} password 暗号化パスワード
+   * @param {KeyDerivation} keyDerivation 鍵導出パラメータ
+   * @returns {Buffer} 32バイトの暗号化キー
+   * @throws {Error} 未対応の鍵導出関数の場合、またはパラメータが上限を超える等の不正な値の場合
+   */
+  static deriveKey(password: string, keyDerivation: KeyDerivation): Buffer {
+    if (keyDerivation.name !== 'scrypt') {
+      throw new Error(`unsupported key derivation '${keyDerivation.name}'`);
+    }
+    Serializer.checkKeyDerivation(keyDerivation);
+    const { N, r, p } = keyDerivation;
+    return crypto.scryptSync(password, Buffer.from(keyDerivation.salt, 'hex'), 32, {
+      N,
+      r,
+      p,
+      maxmem: SCRYPT_MAXMEM,
+    });
+  }
+
+  /**
+   * 処理名: 鍵導出パラメータの検証
+   * @param {KeyDerivation} keyDerivation 鍵導出パラメータ
+   * @returns {void}
+   * @throws {Error} ソルトがHEX形式でない場合、N・r・pが整数でない・上限を超える場合
+   * @private
+   */
+  private static checkKeyDerivation(keyDerivation: KeyDerivation): void {
+    const { salt, N, r, p } = keyDerivation;
+    const within = (value: unknown, max: number): boolean =>
+      Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+    const problems = [
+      typeof salt === 'string' && /^([0-9a-fA-F]{2}){8,64}$/.test(salt) ? '' : 'salt must be 8 to 64 bytes of hex',
+      within(N, MAX_KEY_DERIVATION.N) && N > 1 && (N & (N - 1)) === 0
+        ? ''
+        : `N must be a power of two up to ${MAX_KEY_DERIVATION.N}`,
+      within(r, MAX_KEY_DERIVATION.r) ? '' : `r must be an integer from 1 to ${MAX_KEY_DERIVATION.r}`,
+      within(p, MAX_KEY_DERIVATION.p) ? '' : `p must be an integer from 1 to ${MAX_KEY_DERIVATION.p}`,
+    ].filter((problem) => problem !== '');
+    if (problems.length > 0) {
+      throw new Error(`invalid key derivation parameters: ${problems.join(', ')}`);
+    }
   }
 
   /**
    * 処理名: 暗号化キー生成
    * 処理概要:
    * パスワードから暗号化キーを生成する。
-   * パスワードが指定されない場合はランダムに生成
+   * パスワードが指定されない場合はランダムに生成。
+   * ソルトは毎回ランダムなため、同じパスワードでも同じ鍵にはならない
+   * （パスワードのみで復号する場合はfromPasswordを使用する）
    *
    * 実装理由:
    * 安全な暗号化キー生成のためにscrypt関数を使用
@@ -60,6 +461,102 @@ export class Serializer {
     return crypto.scryptSync(PASSWORD, SALT, 32);
   }
 
+  /**
+   * 処理名: 未暗号化のSecretの受け入れ
+   *
+   * 処理概要:
+   * YAMLの!secretタグ等で書かれた未暗号化のSecret（{type: 'Secret', value}）を
+   * deserializeObjectで値として受け入れるようにする（デフォルトでは拒否する）
+   *
+   * 実装理由:
+   * 未暗号化のSecretは改ざん検知ができず、暗号化済みのSecretを平文に差し替えられるため、
+   * 開発環境等で明示した場合のみ許可する
+   * @param {boolean} [allow] 受け入れる場合true（デフォルト: true）
+   * @returns {Serializer} メソッドチェーン用の自身
+   */
+  allowPlaintextSecrets(allow = true): Serializer {
+    this.plaintextSecrets = allow;
+    return this;
+  }
+
+  /**
+   * 処理名: 未暗号化のSecretの判定
+   * @param {unknown} value 判定対象の値
+   * @returns {boolean} {type: 'Secret', value}形式の未暗号化のSecretの場合true
+   */
+  static isPlaintextSecret(value: unknown): boolean {
+    if (!Serializer.isTaggedValue(value)) {
+      return false;
+    }
+    const obj = value as Record<string, unknown>;
+    return obj.type === 'Secret' && obj.hex === undefined && 'value' in obj;
+  }
+
+  /**
+   * 処理名: シリアライズ済み特殊値の判定
+   *
+   * 処理概要:
+   * 値が{type:"Secret"}等、Serializerが扱う特殊なtype値を持つオブジェクトかを判定する
+   *
+   * 実装理由:
+   * マージや差分処理で特殊値を分解せず、ひとまとまりの値として扱うため
+   * @param {unknown} value 判定対象の値
+   * @returns {boolean} シリアライズ済み特殊値の場合true
+   */
+  static isTaggedValue(value: unknown): boolean {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return false;
+    }
+    const type = (value as Record<string, unknown>).type;
+    return SERIALIZER_TYPES.includes(type as SerializerType);
+  }
+
+  /**
+   * 処理名: 環境変数の値の型変換
+   *
+   * 処理概要:
+   * 環境変数の文字列を指定した型（string/number/boolean/json/list）の値に変換する
+   *
+   * 実装理由:
+   * Envのデシリアライズと環境変数による設定の上書きで同じ規則を使うため
+   * @param {string} raw 環境変数の値
+   * @param {EnvValueType} [valueType] 値の型（デフォルト: string）
+   * @param {string} [separator] listの区切り文字（デフォルト: ,）
+   * @returns {unknown} 変換した値
+   * @throws {Error} 値を指定した型として解釈できない場合（メッセージは「is not a number」等の述語）
+   */
+  static coerceEnv(raw: string, valueType: EnvValueType = 'string', separator = ','): unknown {
+    switch (valueType) {
+      case 'string':
+        return raw;
+      case 'number':
+        if (raw.trim() === '' || Number.isNaN(Number(raw))) {
+          throw new Error('is not a number');
+        }
+        return Number(raw);
+      case 'boolean': {
+        const value = ENV_BOOLEANS.get(raw.trim().toLowerCase());
+        if (value === undefined) {
+          throw new Error('is not a boolean (true/false, 1/0, yes/no, on/off)');
+        }
+        return value;
+      }
+      case 'json':
+        try {
+          return JSON.parse(raw);
+        } catch {
+          throw new Error('is not valid JSON');
+        }
+      case 'list':
+        return raw
+          .split(separator)
+          .map((item) => item.trim())
+          .filter((item) => item !== '');
+      default:
+        throw new Error(`has an unknown type '${valueType}'`);
+    }
+  }
+
   /**
    * 処理名: RegExp デシリアライズ処理
    * @param {unknown} value 値
@@ -91,47 +588,192 @@ export class Serializer {
     return Buffer.from((obj.hex as string), 'hex');
   }
 
+  /**
+   * 処理名: パスワードからの復号キー取得
+   * @param {KeyDerivation} keyDerivation Secretに記録された鍵導出パラメータ
+   * @param {string} path 設定内のドット区切りパス
+   * @returns {Buffer} 導出した復号キー
+   * @throws {Error} 鍵導出パラメータが不正な場合
+   * @private
+   */
+  private derivedKeyFor(keyDerivation: KeyDerivation, path: string): Buffer {
+    const cacheKey = JSON.stringify(keyDerivation);
+    let cryptokey = this.derivedKeys.get(cacheKey);
+    if (!cryptokey) {
+      try {
+        cryptokey = Serializer.deriveKey(this.password as string, keyDerivation);
+      } catch (error) {
+        throw new Error(`key derivation failed at ${path}: ${error}`);
+      }
+      this.derivedKeys.set(cacheKey, cryptokey);
+    }
+    return cryptokey;
+  }
+
+  /**
+   * 処理名: Secret の復号キー取得
+   *
+   * 処理概要:
+   * パスワードモードでは記録された鍵導出パラメータから、kidが記録されている場合はKeyringから鍵を取得する。
+   * どちらも無い場合はコンストラクタで指定した鍵を使用する
+   * @param {Record<string, unknown>} obj シリアライズ済みのSecret
+   * @param {string} path 設定内のドット区切りパス
+   * @returns {Buffer} 復号キー
+   * @throws {Error} kidの鍵が無い場合、または鍵導出パラメータが不正な場合
+   * @private
+   */
+  private keyFor(obj: Record<string, unknown>, path: string): Buffer {
+    if (obj.kdf && this.password !== undefined) {
+      return this.derivedKeyFor(obj.kdf as KeyDerivation, path);
+    }
+    if (obj.kid === undefined) {
+      return this.crypto.cryptokey;
+    }
+    const cryptokey = this.keyring?.get(obj.kid as string);
+    if (!cryptokey) {
+      throw new Error(`no key for kid '${obj.kid}' (Secret at ${path})`);
+    }
+    return cryptokey;
+  }
+
+  /**
+   * 処理名: Secret の暗号化方式の判定
+   *
+   * 処理概要:
+   * versionを持たない旧形式はaes-256-cbc、version 2はaes-256-gcmのみを受け入れる
+   *
+   * 実装理由:
+   * version 2のSecretからalgを削除・変更して、認証タグを検証しないaes-256-cbcで復号させないため
+   * @param {Record<string, unknown>} obj シリアライズ済みのSecret
+   * @param {string} path 設定内のドット区切りパス
+   * @returns {SecretAlgorithm} 復号に使用する暗号化方式
+   * @throws {Error} 未対応のversion、またはversionとalgが一致しない場合
+   * @private
+   */
+  private static algorithmFor(obj: Record<string, unknown>, path: string): SecretAlgorithm {
+    if (obj.version === undefined) {
+      if (obj.alg !== undefined && obj.alg !== LEGACY_ALGORITHM) {
+        throw new Error(`unsupported Secret algorithm '${obj.alg}' at ${path} (a Secret without version uses aes-256-cbc)`);
+      }
+      return LEGACY_ALGORITHM;
+    }
+    if (obj.version !== SECRET_VERSION) {
+      throw new Error(`unsupported Secret version '${obj.version}' at ${path}`);
+    }
+    if (obj.alg !== CURRENT_ALGORITHM) {
+      throw new Error(
+        `unsupported Secret algorithm '${obj.alg ?? '(none)'}' at ${path} (version ${SECRET_VERSION} requires aes-256-gcm)`
+      );
+    }
+    return obj.alg;
+  }
+
+  /**
+   * 処理名: Secret の復号
+   *
+   * 処理概要:
+   * versionに応じた暗号化方式（旧形式はaes-256-cbc、version 2はaes-256-gcm）で復号する。
+   * aes-256-gcmの認証タグが16バイトでない場合、一致しない場合は、設定のパスを含む改ざん検知エラーとする
+   * @param {Record<string, unknown>} obj シリアライズ済みのSecret
+   * @param {string} path 設定内のドット区切りパス
+   * @param {boolean} [plaintext] 未暗号化のSecretの値をそのまま返す（デフォルト: allowPlaintextSecretsの指定）
+   * @returns {string} 復号した平文（JSON文字列）
+   * @throws {Error} 未対応のalg、改ざん・鍵違いで復号できない場合、または未暗号化のSecretを受け入れない場合
+   * @private
+   */
+  private decryptSecret(obj: Record<string, unknown>, path: string, plaintext = this.plaintextSecrets): string {
+    if (Serializer.isPlaintextSecret(obj)) {
+      if (!plaintext) {
+        throw new Error(
+          `Secret at ${path || '(root)'} is not encrypted ` +
+            '(encrypt it with rotate-key, or call allowPlaintextSecrets() to accept it)'
+        );
+      }
+      return JSON.stringify(obj.value);
+    }
+    const algorithm = Serializer.algorithmFor(obj, path);
+    const cryptokey = this.keyFor(obj, path);
+    try {
+      const iv = Buffer.from((obj.iv as string), 'hex');
+      if (algorithm === LEGACY_ALGORITHM) {
+        const decipher = this.crypto.instance.createDecipheriv(algorithm, cryptokey, iv);
+        return decipher.update((obj.hex as string), 'hex', 'utf-8') + decipher.final('utf-8');
+      }
+      const tag = Buffer.from(typeof obj.tag === 'string' ? obj.tag : '', 'hex');
+      if (tag.length !== AUTH_TAG_LENGTH) {
+        throw new Error(`authentication tag must be ${AUTH_TAG_LENGTH} bytes (got ${tag.length})`);
+      }
+      const decipher = this.crypto.instance.createDecipheriv(algorithm, cryptokey, iv, {
+        authTagLength: AUTH_TAG_LENGTH,
+      });
+      decipher.setAuthTag(tag);
+      return decipher.update((obj.hex as string), 'hex', 'utf-8') + decipher.final('utf-8');
+    } catch (error) {
+      throw new Error(
+        `Secret integrity check failed at ${path}: value was tampered with or the key is wrong (${error})`
+      );
+    }
+  }
+
   /**
    * 処理名: Secret デシリアライズ処理
    * @param {unknown} value 値
+   * @param {string} path 設定内のドット区切りパス
    * @returns {unknown} 処理済み値
    * @private
    */
-  private deserializeSecret(value: unknown): unknown {
-    const obj = value as Record<string, unknown>;
-    const decipher = this.crypto.instance.createDecipheriv(
-      this.crypto.algorithm,
-      this.crypto.cryptokey,
-      Buffer.from((obj.iv as string), 'hex')
-    );
-    return JSON.parse(
-      decipher.update((obj.hex as string), 'hex', 'utf-8') +
-        decipher.final('utf-8')
-    );
+  private deserializeSecret(value: unknown, path: string): unknown {
+    return JSON.parse(this.decryptSecret(value as Record<string, unknown>, path));
   }
 
   /**
    * 処理名: Env デシリアライズ処理
+   *
+   * 処理概要:
+   * 環境変数の値を型変換して返す（空文字も設定済みの値として扱う）。
+   * 未設定の場合はデフォルト値（文字列の場合は型変換する）を返し、requiredの場合はエラーにする。
+   * エラーは例外にせずerrorsに追加し、全てのEnvを確認してからまとめて通知する
+   *
+   * 実装理由:
+   * 未設定・不正な環境変数を1つずつではなく一度に修正できるようにするため
    * @param {unknown} value 値
+   * @param {string} path 設定内のドット区切りパス
+   * @param {string[]} errors エラーの出力先
    * @returns {unknown} 処理済み値
    * @private
    */
-  private deserializeEnv(value: unknown): unknown {
-    const obj = value as Record<string, unknown>;
-    return (
-      process.env[(obj.name as string)] ||
-      (obj.default as string)
-    );
+  private deserializeEnv(value: unknown, path: string, errors: string[]): unknown {
+    const env = value as Record<string, unknown>;
+    const raw = process.env[env.name as string];
+    const coerce = (text: string): unknown =>
+      Serializer.coerceEnv(text, env.valueType as EnvValueType, env.separator as string);
+    try {
+      if (raw === undefined) {
+        if (env.required) {
+          throw new Error('is required but not set');
+        }
+        return typeof env.default === 'string' ? coerce(env.default) : env.default;
+      }
+      if (typeof env.pattern === 'string' && !new RegExp(env.pattern).test(raw)) {
+        throw new Error(`does not match /${env.pattern}/`);
+      }
+      return coerce(raw);
+    } catch (error) {
+      // 値が秘密情報の場合があるため、エラーには値を含めない
+      errors.push(`${env.name} (at ${path || '(root)'}) ${(error as Error).message}`);
+      return undefined;
+    }
   }
 
   /**
    * 処理名: リバイバー関数
-   * @param {string} _key キー名
+   * @param {string} path 設定内のドット区切りパス
    * @param {unknown} value 値
+   * @param {string[]} errors Envのエラーの出力先
    * @returns {unknown} 処理済み値
    * @private
    */
-  private reviver(_key: string, value: unknown): unknown {
+  private reviver(path: string, value: unknown, errors: string[]): unknown {
     try {
       if (!value || typeof value !== 'object') {
         return value;
@@ -145,9 +787,9 @@ export class Serializer {
         case 'Buffer':
           return this.deserializeBuffer(value);
         case 'Secret':
-          return this.deserializeSecret(value);
+          return this.deserializeSecret(value, path);
         case 'Env':
-          return this.deserializeEnv(value);
+          return this.deserializeEnv(value, path, errors);
         default:
           return value;
       }
@@ -156,6 +798,35 @@ export class Serializer {
     }
   }
 
+  /**
+   * 処理名: パス結合
+   * @param {string} path 親のパス
+   * @param {string | number} key キーまたは配列インデックス
+   * @returns {string} 結合したパス
+   * @private
+   */
+  private joinPath(path: string, key: string | number): string {
+    return path ? `${path}.${key}` : `${key}`;
+  }
+
+  /**
+   * 処理名: パス付きの復元処理
+   * @param {unknown} value JSON.parse済みの値
+   * @param {string} path 設定内のドット区切りパス（ルートは空文字）
+   * @param {string[]} errors Envのエラーの出力先
+   * @returns {unknown} 子要素から順に復元した値
+   * @private
+   */
+  private revive(value: unknown, path: string, errors: string[]): unknown {
+    if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>;
+      for (const key of Object.keys(node)) {
+        node[key] = this.revive(node[key], this.joinPath(path, key), errors);
+      }
+    }
+    return this.reviver(path, value, errors);
+  }
+
   /**
    * 処理名: JSON文字列のデシリアライズ
    *
@@ -168,73 +839,244 @@ export class Serializer {
    * 復元するため
    * @param {string} json JSON文字列
    * @returns {unknown} デシリアライズされたオブジェクト
-   * @throws {Error} デシリアライズに失敗した場合
+   * @throws {Error} デシリアライズに失敗した場合（未設定・不正な環境変数は全てのEnvを確認してから1つのエラーで通知）
    */
   deserializeObject(json: string): unknown {
     try {
-      return JSON.parse(json, (key: string, value: unknown) => this.reviver(key, value));
+      // JSON.parseのリバイバーではキーしか分からないため、パスを辿りながら復元する
+      const errors: string[] = [];
+      const result = this.revive(JSON.parse(json), '', errors);
+      if (errors.length > 0) {
+        throw new Error(`invalid environment variables:\n${errors.map((error) => '  - ' + error).join('\n')}`);
+      }
+      return result;
     } catch (error) {
       throw new Error(`デシリアライズエラー: ${error}`);
     }
   }
 
+  /**
+   * 処理名: Secret の再暗号化処理
+   * @param {unknown} value シリアライズ済みの値
+   * @param {string} path 設定内のドット区切りパス
+   * @param {Serializer} next 新しい鍵のSerializer
+   * @returns {unknown} Secretを再暗号化した値
+   * @private
+   */
+  private rotateValue(value: unknown, path: string, next: Serializer): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.rotateValue(item, this.joinPath(path, index), next));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    const obj = value as Record<string, unknown>;
+    if (obj.type === 'Secret') {
+      // 未暗号化のSecretはこの機会に暗号化する
+      return next.encryptSecret(this.decryptSecret(obj, path, true));
+    }
+    return Object.fromEntries(
+      Object.entries(obj).map(([key, item]) => [key, this.rotateValue(item, this.joinPath(path, key), next)])
+    );
+  }
+
+  /**
+   * 処理名: 暗号化キーのローテーション
+   *
+   * 処理概要:
+   * シリアライズ済みの設定オブジェクトを走査し、全てのSecretをこのSerializerの鍵で復号して
+   * nextの鍵で再暗号化する。Secret以外の値とキーの順序はそのまま維持する（入力は変更しない）
+   *
+   * 実装理由:
+   * 元のconfig.jsが無い環境でも、シリアライズ済みのファイルだけで鍵を入れ替えられるようにするため
+   * @param {unknown} data シリアライズ済みの設定オブジェクト（JSON.parse済み）
+   * @param {Serializer} next 新しい鍵のSerializer
+   * @returns {unknown} Secretを再暗号化した設定オブジェクト
+   * @throws {Error} Secretを復号できない場合
+   */
+  rotateKey(data: unknown, next: Serializer): unknown {
+    try {
+      return this.rotateValue(data, '', next);
+    } catch (error) {
+      throw new Error(`キーローテーションエラー: ${error}`);
+    }
+  }
+
+  /**
+   * 処理名: 未暗号化のSecretの暗号化
+   *
+   * 処理概要:
+   * シリアライズ済みの設定オブジェクトの未暗号化のSecret（YAMLの!secret 平文等）をこのSerializerの鍵で暗号化する。
+   * 暗号化済みのSecretとその他の値はそのまま維持する（入力は変更しない）
+   *
+   * 実装理由:
+   * 平文で書かれたSecretを、鍵を持たない利用者が復号できない形式で出力するため
+   * @param {unknown} data シリアライズ済みの設定オブジェクト（JSON.parse済み）
+   * @returns {unknown} 未暗号化のSecretを暗号化した設定オブジェクト
+   */
+  encryptPlaintextSecrets(data: unknown): unknown {
+    if (Serializer.isPlaintextSecret(data)) {
+      return this.encryptSecret(JSON.stringify((data as Record<string, unknown>).value));
+    }
+    if (Array.isArray(data)) {
+      return data.map((item) => this.encryptPlaintextSecrets(item));
+    }
+    if (!data || typeof data !== 'object' || Serializer.isTaggedValue(data)) {
+      return data;
+    }
+    return Object.fromEntries(Object.entries(data).map(([key, item]) => [key, this.encryptPlaintextSecrets(item)]));
+  }
+
+  /**
+   * 処理名: Secret の暗号化
+   * @param {string} text 暗号化する平文（JSON文字列）
+   * @returns {Record<string, unknown>} シリアライズ済みのSecret（認証タグ付き）
+   * @private
+   */
+  private encryptSecret(text: string): Record<string, unknown> {
+    const iv = this.crypto.instance.randomBytes(12);
+    const cipher = this.crypto.instance.createCipheriv(
+      this.crypto.algorithm,
+      this.crypto.cryptokey,
+      iv
+    );
+    const hex = cipher.update(text, 'utf-8', 'hex') + cipher.final('hex');
+    return {
+      type: 'Secret',
+      version: SECRET_VERSION,
+      alg: this.crypto.algorithm,
+      ...(this.kid !== undefined ? { kid: this.kid } : {}),
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      hex,
+      ...(this.keyDerivation ? { kdf: this.keyDerivation } : {}),
+    };
+  }
+
+  /**
+   * 処理名: Secretの目印の暗号化
+   * @param {unknown} value サンドボックスが出力したJSONをJSON.parseした値
+   * @param {string} nonce Secretの目印のキー
+   * @returns {unknown} 目印を暗号化済みのSecretに置き換えた値
+   * @private
+   */
+  private sealSecrets(value: unknown, nonce: string): unknown {
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sealSecrets(item, nonce));
+    }
+    const obj = value as Record<string, unknown>;
+    if (Object.prototype.hasOwnProperty.call(obj, nonce)) {
+      return this.encryptSecret(JSON.stringify(this.sealSecrets(obj[nonce], nonce)));
+    }
+    return Object.fromEntries(Object.entries(obj).map(([key, item]) => [key, this.sealSecrets(item, nonce)]));
+  }
+
+  /**
+   * 処理名: サンドボックスから呼び出す関数の生成
+   * @param {string[]} allowedModules requireを許可するモジュール名
+   * @param {string} filename 設定コードのファイル名（モジュール解決の基準）
+   * @returns {SandboxBridge} ホスト側の関数（サンドボックスにはクロージャ経由でのみ渡す）
+   * @private
+   */
+  private createSandboxBridge(allowedModules: string[], filename: string): SandboxBridge {
+    const hostRequire = createRequire(path.resolve(filename));
+    const checked = (encoding: string) => {
+      if (!Buffer.isEncoding(encoding)) {
+        throw new Error(`unknown encoding '${encoding}'`);
+      }
+      return encoding;
+    };
+    return {
+      toHex: (text, encoding) => Buffer.from(text, checked(encoding)).toString('hex'),
+      fromHex: (hex, encoding) => Buffer.from(hex, 'hex').toString(checked(encoding)),
+      alloc: (size, fill) => Buffer.alloc(size, fill).toString('hex'),
+      // 許可したモジュールはホスト側のオブジェクトのまま渡すため、信頼できるモジュールのみを許可する
+      require: (name) => {
+        if (!allowedModules.includes(name)) {
+          throw new Error(`require of '${name}' is not allowed`);
+        }
+        return hostRequire(name);
+      },
+    };
+  }
+
+  /**
+   * 処理名: サンドボックス内の関数の呼び出し
+   * @param {vm.Context} context コンテキスト
+   * @param {Function} hook コンテキスト内の関数
+   * @param {unknown} arg 引数（コンテキスト内の値）
+   * @param {number} timeout タイムアウト（ミリ秒）
+   * @returns {string} 関数の戻り値
+   * @private
+   */
+  private invokeInContext(
+    context: vm.Context,
+    hook: (arg?: unknown) => string,
+    arg: unknown,
+    timeout: number
+  ): string {
+    // 設定コードのgetter等が実行されるため、ホスト側から直接呼び出さずタイムアウト付きで実行する。
+    // 受け渡し用のオブジェクトはコンテキスト内で生成し、constructor経由でホスト側のFunctionに到達できないようにする
+    const name = `__configtool_${crypto.randomBytes(8).toString('hex')}`;
+    const holder = vm.runInContext('({})', context);
+    holder.hook = hook;
+    holder.arg = arg;
+    context[name] = holder;
+    try {
+      return vm.runInContext(`${name}.hook(${name}.arg)`, context, { timeout });
+    } finally {
+      delete context[name];
+    }
+  }
+
   /**
    * 処理名: JavaScriptコードのシリアライズ
    *
    * 処理概要:
-   * JavaScriptコード文字列を実行し、正規表現・Buffer・環境変数・Secret等の
-   * 特殊なオブジェクトを適切にシリアライズ可能な形式に変換
+   * JavaScriptコード文字列を独立したvmコンテキストで実行し、module.exportsの
+   * 正規表現・Buffer・環境変数・Secret等の特殊なオブジェクトをシリアライズ済みの形式に変換する。
+   * Secret・Env・Buffer・許可リスト付きのrequire・module・exportsはコンテキスト内で定義し、
+   * ホスト側のオブジェクトやコンストラクタはコンテキストに渡さない。
+   * module.exportsの変換もコンテキスト内で行い、ホスト側はJSON文字列のみを受け取る
    *
    * 実装理由:
-   * module.exportsで定義された設定オブジェクトに対し、
-   * カスタムtoJSONメソッドを動的に追加してシリアライズ処理を統一するため
+   * 設定コードの実行や組み込みオブジェクトの書き換えがホスト側のプロセスに
+   * 影響しないようにし、無限ループ等はタイムアウトで打ち切るため
    * @param {string} jsCode JavaScriptのコード文字列
+   * @param {SerializeOptions} [options] 実行オプション
    * @returns {unknown} シリアライズされた設定オブジェクト
-   * @throws {Error} コード実行に失敗した場合
+   * @throws {Error} コードの構文エラー・実行時エラー・タイムアウトの場合
    */
-  serializeObject(jsCode: string): unknown {
+  serializeObject(jsCode: string, options: SerializeOptions = {}): unknown {
     try {
-      const runCode = new Function(
-        'crypto',
-        `
-                    try {
-                        const module = {};
-                        //正規表現パターンにラベル設定用メソッドを追加する、どの条件でマッチしたかをこのラベルで判断できる
-                        RegExp.prototype.setLabel = function (label) { this.label = label; return this }
-                        RegExp.prototype._toJSON = RegExp.prototype.toJSON //通常のtoJSONを退避
-                        RegExp.prototype.toJSON = function () { return { type: "RegExp", source: this.source, flags: this.flags, label: this.label || '' } }//Instance作成に必要なパラメータのみを出力するようにメソッドを上書きする
-        
-                        Buffer.prototype._toJSON = Buffer.prototype.toJSON //通常のtoJSONを退避
-                        Buffer.prototype.toJSON = function () { return { type: "Buffer", hex: this.toString('hex')} }//Instance作成に必要なパラメータのみを出力するようにメソッドを上書きする
-        
-                        //環境変数クラス
-                        function Env(json) {
-                            this.name = json.name;
-                            this.default = json.default;
-                            this.toJSON = () => {//Instance作成に必要なパラメータを出力するメソッドを追加
-                                return { type: "Env", name: this.name, default: this.default}; 
-                            }
-                        }
-        
-                        //シークレット情報用の暗号化クラス
-                        function Secret(json) {
-                            this.text = JSON.stringify(json);//配下のJSON情報を暗号化する
-                            this.toJSON = () => {//Instance作成に必要なパラメータを暗号化して出力するメソッドを追加
-                                //IVを生成
-                                const iv = crypto.instance.randomBytes(16);
-                                //暗号器を生成
-                                const cipher = crypto.instance.createCipheriv(crypto.algorithm, crypto.cryptokey, iv);
-                                return { type: "Secret", iv: iv.toString('hex'), hex: cipher.update(this.text, 'utf-8', 'hex') + cipher.final('hex')}; 
-                            }
-                        }
-                        ${jsCode};
-                        return module.exports;
-                    } catch (error) {
-                        console.error(error);
-                    }
-                `
+      const filename = options.filename || 'config.js';
+      const timeout = options.timeout ?? 1000;
+      const nonce = crypto.randomBytes(16).toString('hex');
+      // プロトタイプを持たないオブジェクトをグローバルにし、this.constructor経由でホスト側に到達できないようにする
+      const context = vm.createContext(Object.create(null), { microtaskMode: 'afterEvaluate' });
+      const hooks: SandboxHooks = vm.runInContext(SANDBOX_PRELUDE, context)(
+        this.createSandboxBridge(options.allowedModules || [], filename),
+        nonce,
+        JSON.stringify(ENV_VALUE_TYPES),
+        JSON.stringify(options.allowedModules || [])
       );
-      return runCode(this.crypto); // 設定情報jsに上記のコードを追加した状態でコードを実行する
+      const script = new vm.Script(jsCode, { filename });
+      try {
+        script.runInContext(context, { timeout });
+      } catch (error) {
+        if (error instanceof Error) {
+          throw error;
+        }
+        // コンテキスト内で投げられた値はホスト側で文字列化しない（toString等が設定コードのため）
+        const failure = new Error(this.invokeInContext(context, hooks.describe, error, timeout));
+        failure.name = '';
+        throw failure;
+      }
+      const json = this.invokeInContext(context, hooks.serialize, undefined, timeout);
+      return this.sealSecrets(JSON.parse(json), nonce);
     } catch (error) {
       throw new Error(`シリアライズエラー: ${error}`);
     }
@@ -0,0 +1,345 @@
+import * as path from 'path';
+import ConfigLoder from './ConfigLoder';
+import Serializer from './Serializer';
+
+/**
+ * 型生成のオプション型
+ */
+export interface TypeGeneratorOptions {
+  /** ルートのインターフェース名（デフォルト: Config） */
+  rootName?: string;
+  /** Secretを復号して内容の型を推論するSerializer（SecretがあるのにSerializerが無い場合はエラー） */
+  serializer?: Serializer;
+}
+
+/**
+ * 推論した型の型（プリミティブ型・オブジェクト・配列の共用体）
+ */
+interface TypeNode {
+  primitives: Set<string>;
+  object?: ObjectNode;
+  array?: TypeNode;
+}
+
+/**
+ * 推論したオブジェクトの型
+ */
+interface ObjectNode {
+  properties: Map<string, { type: TypeNode; optional: boolean }>;
+}
+
+/**
+ * 共用体に並べるプリミティブ型の順序
+ */
+const PRIMITIVE_ORDER = ['string', 'number', 'boolean', 'RegExp', 'Buffer', 'unknown', 'null', 'undefined'];
+
+/**
+ * 処理名: 設定ファイルからの型定義の生成
+ *
+ * 処理概要:
+ * シリアライズ済みの設定オブジェクトから値の型を推論し、TypeScriptの型定義（.d.ts）を生成する。
+ * 入れ子のオブジェクトは個別のインターフェース、配列は全要素の型を統合した要素型、
+ * RegExp・BufferはRegExp・Buffer、Envは値の型（デフォルト: string。requiredでもdefaultも無い場合は | undefined）、
+ * Secretは復号した内容の型にする。
+ * プロパティはキー名順に並べ、同じ設定からは常に同じ出力になるようにする
+ *
+ * 実装理由:
+ * アプリケーションのコードで設定の構造をコンパイル時に検査し、
+ * 生成結果をリポジトリに登録してCIで差分を確認できるようにするため
+ */
+export class TypeGenerator {
+  private rootName: string;
+  private serializer: Serializer | undefined;
+
+  /**
+   * 処理名: コンストラクタ
+   * @param {TypeGeneratorOptions} [options] 型生成のオプション
+   */
+  constructor(options: TypeGeneratorOptions = {}) {
+    this.rootName = options.rootName || 'Config';
+    this.serializer = options.serializer;
+  }
+
+  /**
+   * 処理名: 設定ファイルからの型定義の生成
+   * @param {string} filepath 設定ファイル（JSON/YAML/TOML等）のパス
+   * @param {ConfigLoder} [loader] 読み込みに使用するConfigLoder
+   * @returns {Promise<string>} 型定義のテキスト
+   * @throws {Error} 読み込みに失敗した場合、またはSecretを復号できない場合
+   */
+  async generateFromFile(filepath: string, loader: ConfigLoder = new ConfigLoder()): Promise<string> {
+    const data = JSON.parse(await loader.readConfig(filepath));
+    return this.generate(data, path.basename(filepath));
+  }
+
+  /**
+   * 処理名: 型定義の生成
+   * @param {unknown} data シリアライズ済みの設定オブジェクト（JSON.parse済み）
+   * @param {string} [source] 生成元として見出しに表示するファイル名
+   * @returns {string} 型定義のテキスト
+   * @throws {Error} Secretを復号できない場合
+   */
+  generate(data: unknown, source?: string): string {
+    const root = this.infer(data, '');
+    const declarations: string[] = [];
+    const names = new Set<string>([this.rootName]);
+    if (root.object && root.object.properties.size > 0 && root.primitives.size === 0 && !root.array) {
+      this.declareInterface(root.object, this.rootName, declarations, names);
+    } else {
+      const index = declarations.push('') - 1;
+      declarations[index] = `export type ${this.rootName} = ${this.render(root, this.rootName, declarations, names)};\n`;
+    }
+    const origin = source ? ` from ${source}` : '';
+    const header = `// Generated by configtool typegen${origin}. Do not edit by hand.\n`;
+    return `${header}\n${declarations.join('\n')}`;
+  }
+
+  /**
+   * 処理名: 空の型の生成
+   * @returns {TypeNode} 何も含まない型
+   * @private
+   */
+  private emptyNode(): TypeNode {
+    return { primitives: new Set() };
+  }
+
+  /**
+   * 処理名: パス結合
+   * @param {string} parent 親のパス
+   * @param {string | number} key キーまたは配列インデックス
+   * @returns {string} 結合したパス
+   * @private
+   */
+  private joinPath(parent: string, key: string | number): string {
+    return parent ? `${parent}.${key}` : `${key}`;
+  }
+
+  /**
+   * 処理名: Envの型の推論
+   *
+   * 処理概要:
+   * 環境変数が設定されている場合の型（valueTypeに従って変換した値の型）に、未設定の場合の型を加える。
+   * requiredの場合は加えず、文字列のdefaultは型変換されるため同じ型、それ以外のdefaultはその値の型、
+   * defaultが無い場合はundefinedを加える
+   *
+   * 実装理由:
+   * デシリアライズ時に未設定のEnvはundefinedになるため、型定義でも値が無い場合を表すため
+   * @param {Record<string, unknown>} env Envのシリアライズ済みの値
+   * @param {string} valuePath 設定内のドット区切りパス
+   * @returns {TypeNode} デシリアライズした値の型
+   * @private
+   */
+  private inferEnv(env: Record<string, unknown>, valuePath: string): TypeNode {
+    const coerced = this.inferEnvValue(env);
+    if (env.required || typeof env.default === 'string') {
+      return coerced;
+    }
+    return this.merge(
+      coerced,
+      env.default === undefined ? { primitives: new Set(['undefined']) } : this.infer(env.default, valuePath)
+    );
+  }
+
+  /**
+   * 処理名: Envの変換後の値の型の推論
+   * @param {Record<string, unknown>} env Envのシリアライズ済みの値
+   * @returns {TypeNode} valueTypeに従って変換した値の型
+   * @private
+   */
+  private inferEnvValue(env: Record<string, unknown>): TypeNode {
+    switch (env.valueType) {
+      case 'number':
+      case 'boolean':
+        return { primitives: new Set([env.valueType]) };
+      case 'json':
+        return { primitives: new Set(['unknown']) };
+      case 'list':
+        return { primitives: new Set(), array: { primitives: new Set(['string']) } };
+      default:
+        return { primitives: new Set(['string']) };
+    }
+  }
+
+  /**
+   * 処理名: Serializerの特殊な値の型の推論
+   * @param {Record<string, unknown>} value type値を持つオブジェクト
+   * @param {string} valuePath 設定内のドット区切りパス
+   * @returns {TypeNode} 推論した型
+   * @throws {Error} Secretを復号できない場合
+   * @private
+   */
+  private inferTagged(value: Record<string, unknown>, valuePath: string): TypeNode {
+    switch (value.type) {
+      case 'RegExp':
+      case 'Buffer':
+        return { primitives: new Set([value.type]) };
+      case 'Env':
+        return this.inferEnv(value, valuePath);
+      default:
+        if (!this.serializer) {
+          throw new Error(`Secret at ${valuePath || '(root)'} cannot be typed without a key to decrypt it`);
+        }
+        try {
+          return this.infer(this.serializer.deserializeObject(JSON.stringify(value)), valuePath);
+        } catch (error) {
+          throw new Error(`cannot infer the type of Secret at ${valuePath || '(root)'}: ${error}`);
+        }
+    }
+  }
+
+  /**
+   * 処理名: 値の型の推論
+   * @param {unknown} value 値
+   * @param {string} valuePath 設定内のドット区切りパス（エラー表示用）
+   * @returns {TypeNode} 推論した型
+   * @private
+   */
+  private infer(value: unknown, valuePath: string): TypeNode {
+    if (value === null || value === undefined) {
+      return { primitives: new Set(['null']) };
+    }
+    if (Array.isArray(value)) {
+      const element = value
+        .map((item, index) => this.infer(item, this.joinPath(valuePath, index)))
+        .reduce((merged, item) => this.merge(merged, item), this.emptyNode());
+      return { primitives: new Set(), array: element };
+    }
+    if (Buffer.isBuffer(value)) {
+      return { primitives: new Set(['Buffer']) };
+    }
+    if (Object.prototype.toString.call(value) === '[object RegExp]') {
+      return { primitives: new Set(['RegExp']) };
+    }
+    if (typeof value !== 'object') {
+      return { primitives: new Set([typeof value]) };
+    }
+    if (Serializer.isTaggedValue(value)) {
+      return this.inferTagged(value as Record<string, unknown>, valuePath);
+    }
+    const properties = new Map(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        { type: this.infer(item, this.joinPath(valuePath, key)), optional: false },
+      ])
+    );
+    return { primitives: new Set(), object: { properties } };
+  }
+
+  /**
+   * 処理名: 型の統合
+   * @param {TypeNode} a 型
+   * @param {TypeNode} b 型
+   * @returns {TypeNode} 両方の値を受け入れる型（オブジェクトは一方にしか無いプロパティを省略可能にする）
+   * @private
+   */
+  private merge(a: TypeNode, b: TypeNode): TypeNode {
+    const merged: TypeNode = { primitives: new Set([...a.primitives, ...b.primitives]) };
+    if (a.object || b.object) {
+      merged.object = a.object && b.object ? this.mergeObjects(a.object, b.object) : a.object || b.object;
+    }
+    if (a.array || b.array) {
+      merged.array = this.merge(a.array || this.emptyNode(), b.array || this.emptyNode());
+    }
+    return merged;
+  }
+
+  /**
+   * 処理名: オブジェクトの型の統合
+   * @param {ObjectNode} a オブジェクトの型
+   * @param {ObjectNode} b オブジェクトの型
+   * @returns {ObjectNode} 統合したオブジェクトの型
+   * @private
+   */
+  private mergeObjects(a: ObjectNode, b: ObjectNode): ObjectNode {
+    const properties = new Map<string, { type: TypeNode; optional: boolean }>();
+    for (const key of new Set([...a.properties.keys(), ...b.properties.keys()])) {
+      const left = a.properties.get(key);
+      const right = b.properties.get(key);
+      properties.set(
+        key,
+        left && right
+          ? { type: this.merge(left.type, right.type), optional: left.optional || right.optional }
+          : { type: (left || right)?.type as TypeNode, optional: true }
+      );
+    }
+    return { properties };
+  }
+
+  /**
+   * 処理名: インターフェース名の候補の生成
+   * @param {string} parent 親のインターフェース名
+   * @param {string} key プロパティ名
+   * @returns {string} 親の名前にPascalCaseのプロパティ名を続けた名前
+   * @private
+   */
+  private childName(parent: string, key: string): string {
+    const words = key.split(/[^A-Za-z0-9]+/).filter((word) => word !== '');
+    const pascal = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('') || 'Value';
+    return /^\d/.test(pascal) ? `${parent}_${pascal}` : `${parent}${pascal}`;
+  }
+
+  /**
+   * 処理名: 重複しないインターフェース名の確保
+   * @param {string} base 名前の候補
+   * @param {Set<string>} names 使用済みの名前（確保した名前を追加する）
+   * @returns {string} 重複する場合は連番を付けた名前
+   * @private
+   */
+  private reserveName(base: string, names: Set<string>): string {
+    let name = base;
+    for (let suffix = 2; names.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    names.add(name);
+    return name;
+  }
+
+  /**
+   * 処理名: インターフェースの宣言
+   * @param {ObjectNode} object オブジェクトの型
+   * @param {string} name 確保済みのインターフェース名
+   * @param {string[]} declarations 宣言の出力先（親を先に出力する）
+   * @param {Set<string>} names 使用済みの名前
+   * @returns {string} インターフェース名
+   * @private
+   */
+  private declareInterface(object: ObjectNode, name: string, declarations: string[], names: Set<string>): string {
+    const index = declarations.push('') - 1;
+    const lines = [...object.properties.keys()].sort().map((key) => {
+      const property = object.properties.get(key) as { type: TypeNode; optional: boolean };
+      const type = this.render(property.type, this.childName(name, key), declarations, names);
+      const propertyName = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+      return `  ${propertyName}${property.optional ? '?' : ''}: ${type};`;
+    });
+    declarations[index] = `export interface ${name} {\n${lines.join('\n')}\n}\n`;
+    return name;
+  }
+
+  /**
+   * 処理名: 型の出力
+   * @param {TypeNode} node 型
+   * @param {string} name オブジェクトをインターフェースにする場合の名前の候補
+   * @param {string[]} declarations 宣言の出力先
+   * @param {Set<string>} names 使用済みの名前
+   * @returns {string} 型の表記
+   * @private
+   */
+  private render(node: TypeNode, name: string, declarations: string[], names: Set<string>): string {
+    const parts = [...node.primitives].sort((a, b) => PRIMITIVE_ORDER.indexOf(a) - PRIMITIVE_ORDER.indexOf(b));
+    if (node.object) {
+      const object = node.object;
+      parts.unshift(
+        object.properties.size > 0
+          ? this.declareInterface(object, this.reserveName(name, names), declarations, names)
+          : 'Record<string, never>'
+      );
+    }
+    if (node.array) {
+      const element = this.render(node.array, `${name}Item`, declarations, names);
+      parts.unshift(element.includes(' | ') ? `(${element})[]` : `${element}[]`);
+    }
+    return parts.length > 0 ? parts.join(' | ') : 'unknown';
+  }
+}
+
+export default TypeGenerator;
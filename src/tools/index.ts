@@ -1,40 +1,20 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import * as readline from 'readline/promises';
+import { Writable } from 'stream';
 import ConfigLoder from '../configloder/ConfigLoder';
 import Serializer from '../configloder/Serializer';
-import { Command } from 'commander';
+import KeyProvider, { KeySource } from '../configloder/KeyProvider';
+import TypeGenerator from '../configloder/TypeGenerator';
+import ConfigDiff from '../configloder/ConfigDiff';
+import ConfigConverter from '../configloder/ConfigConverter';
+import { Command, OptionValues } from 'commander';
 import PathUtil from '@nojaja/pathutil';
 import * as sourceMapSupport from 'source-map-support';
 
 // デバッグ用のsourceMap設定
 sourceMapSupport.install();
 
-/* 起動パラメータ設定 */
-const version =
-  typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'dev'; // __VERSION__はビルド時にwebpackのDefinePluginによって書き換えられます。
-const program = new Command();
-program.version(version);
-program
-  .requiredOption('-i, --input <type>', 'input config source file path')
-  .option('-o, --output <type>', 'output config file path')
-  .option('-k, --cryptokey <type>', 'crypto key')
-  .option('-d --debug', 'output extra debugging log');
-
-program.parse(process.argv);
-const options = program.opts();
-if (options.debug) console.log(options);
-
-// 入力先の絶対パス取得
-const inputPath = PathUtil.normalizeSeparator(
-  PathUtil.absolutePath(options.input)
-);
-const outputPath = PathUtil.normalizeSeparator(
-  PathUtil.absolutePath(options.output ? options.output : './')
-);
-
-if (options.input) console.log(`inputPath: ${inputPath}`);
-if (options.output) console.log(`outputPath: ${outputPath}`);
-
 /**
  * 処理名: メモリ使用量フォーマット処理
  *
@@ -52,16 +32,182 @@ const toMByte = (byte: number): string => {
 };
 
 /**
- * 処理名: メイン処理
+ * 処理名: パスワード入力
  *
  * 処理概要:
- * 設定ファイルを読み込み、シリアライズし、出力ファイルに書き込む。
- * パフォーマンス統計情報を記録して処理終了
+ * 標準エラー出力にプロンプトを表示し、入力内容を画面に表示せずにパスワードを読み取る
  *
  * 実装理由:
- * CLIツールとしての主要な機能をasync/awaitで安全に実行するため
+ * パスワードをコマンドライン引数（シェル履歴やプロセス一覧）に残さずに指定できるようにするため
+ * @param {string} query プロンプト文字列
+ * @returns {Promise<string>} 入力されたパスワード
+ * @private
+ */
+const promptPassword = async (query: string): Promise<string> => {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      if (!muted) process.stderr.write(chunk);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: Boolean(process.stdin.isTTY),
+  });
+  try {
+    const answer = rl.question(query);
+    muted = true;
+    return await answer;
+  } finally {
+    rl.close();
+    process.stderr.write('\n');
+  }
+};
+
+/**
+ * 鍵の指定方法の型（各コマンドのオプションから組み立てる）
  */
-const main = async (): Promise<void> => {
+interface KeyOptions {
+  cryptokey?: string;
+  password?: string | boolean;
+  keyFile?: string;
+  keyEnv?: string;
+  keyStdin?: boolean;
+}
+
+/**
+ * 鍵の指定が無い場合に生成・使用する鍵ファイル
+ */
+const DEFAULT_KEY_FILE = 'configtool.key';
+
+/**
+ * 処理名: 鍵ファイルからのSerializer生成
+ *
+ * 処理概要:
+ * 鍵ファイルが存在すれば読み込み、無ければ鍵を生成して権限0600の鍵ファイルに書き込む
+ *
+ * 実装理由:
+ * 生成した鍵を標準出力に表示せずに保存するため
+ * @param {string} keyFile 鍵ファイルのパス
+ * @returns {Serializer} 暗号化に使用するSerializer
+ * @private
+ */
+const serializerFromKeyFile = (keyFile: string): Serializer => {
+  if (!fs.existsSync(keyFile)) {
+    KeyProvider.writeKeyFile(keyFile, Serializer.generatekey());
+    // convertの標準出力に混ざらないよう、標準エラー出力に通知する
+    console.error(`generated key file: ${keyFile}`);
+  }
+  return new Serializer({ type: 'file', path: keyFile });
+};
+
+/**
+ * 処理名: 既定の鍵ファイルからのSerializer生成
+ *
+ * 処理概要:
+ * カレントディレクトリのconfigtool.keyを使用し（無ければ生成する）、使用する鍵ファイルの絶対パスを標準エラー出力に警告する
+ *
+ * 実装理由:
+ * 鍵の指定を忘れた場合に、実行したディレクトリへ鍵ファイルが作られたことに気付けるようにするため
+ * @returns {Serializer} 暗号化に使用するSerializer
+ * @private
+ */
+const serializerFromDefaultKeyFile = (): Serializer => {
+  const keyFile = path.resolve(DEFAULT_KEY_FILE);
+  console.error(`warning: no key option given; using the key file ${keyFile} (pass --key-file to choose another file)`);
+  return serializerFromKeyFile(keyFile);
+};
+
+/**
+ * 処理名: 標準入力を使用する鍵の指定の判定
+ * @param {KeyOptions} key 鍵の指定
+ * @returns {boolean} --key-stdin、または値の無い--password（プロンプトで入力）の場合true
+ * @private
+ */
+const readsStdin = (key: KeyOptions): boolean => !!key.keyStdin || key.password === true;
+
+/**
+ * 処理名: 鍵の指定の抽出
+ * @param {OptionValues} options コマンドのオプション
+ * @param {string} [prefix] オプション名の接頭辞（rotate-keyの新しい鍵は'new'）
+ * @returns {KeyOptions} 鍵の指定
+ * @private
+ */
+const pickKeyOptions = (options: OptionValues, prefix = ''): KeyOptions => {
+  const option = (name: string): string =>
+    prefix ? `${prefix}${name.charAt(0).toUpperCase()}${name.slice(1)}` : name;
+  return {
+    cryptokey: options[option('cryptokey')],
+    password: options[option('password')],
+    keyFile: options[option('keyFile')],
+    keyEnv: options[option('keyEnv')],
+    keyStdin: options[option('keyStdin')],
+  };
+};
+
+/**
+ * 処理名: 鍵の取得元の判定
+ * @param {KeyOptions} key 鍵の指定
+ * @returns {KeySource | null} 鍵ファイル・環境変数・標準入力の取得元（いずれでもない場合はnull）
+ * @private
+ */
+const keySourceOf = (key: KeyOptions): KeySource | null => {
+  if (key.keyFile) return { type: 'file', path: key.keyFile };
+  if (key.keyEnv) return { type: 'env', name: key.keyEnv };
+  if (key.keyStdin) return { type: 'stdin' };
+  return null;
+};
+
+/**
+ * 処理名: Serializerの生成
+ *
+ * 処理概要:
+ * パスワード・暗号化キー・鍵ファイル・環境変数・標準入力のいずれかで指定された鍵でSerializerを生成する。
+ * どれも指定されない場合はnullを返す
+ *
+ * 実装理由:
+ * 鍵の指定方法ごとの分岐を各コマンドの処理から分離するため
+ * @param {KeyOptions} key 鍵の指定
+ * @param {string} name エラー・プロンプトに表示する鍵の名前
+ * @param {boolean} [generate] 鍵ファイルが無い場合に鍵を生成する
+ * @returns {Promise<Serializer | null>} 暗号化に使用するSerializer
+ * @throws {Error} 鍵の指定方法が複数指定された場合
+ * @private
+ */
+const createSerializer = async (
+  key: KeyOptions,
+  name: string,
+  generate = false
+): Promise<Serializer | null> => {
+  const specified = Object.entries(key).filter(([, value]) => value !== undefined && value !== false);
+  if (specified.length > 1) {
+    throw new Error(`${name}: specify only one of ${specified.map(([option]) => option).join(', ')}`);
+  }
+  if (key.password !== undefined) {
+    return Serializer.fromPassword(
+      key.password === true ? await promptPassword(`${name} password: `) : `${key.password}`
+    );
+  }
+  if (key.keyFile && generate) return serializerFromKeyFile(key.keyFile);
+  const source = keySourceOf(key);
+  if (source) return new Serializer(source);
+  return key.cryptokey ? new Serializer(Buffer.from(key.cryptokey, 'hex')) : null;
+};
+
+/**
+ * 処理名: 実行統計の出力登録
+ *
+ * 処理概要:
+ * プロセス終了時に実行時間とメモリ使用量を出力する
+ *
+ * 実装理由:
+ * 各コマンドのパフォーマンスを確認できるようにするため
+ * @returns {void}
+ * @private
+ */
+const reportStatistics = (): void => {
   const startTime = process.hrtime();
   process.on('exit', (_exitCode) => {
     // 後始末処理
@@ -80,24 +226,60 @@ const main = async (): Promise<void> => {
       }ms, memoryUsage: ${memoryUsageInfo}`
     );
   });
+};
+
+/**
+ * 処理名: 絶対パスの取得
+ * @param {string} filepath ファイルパス
+ * @returns {string} 区切り文字を正規化した絶対パス
+ * @private
+ */
+const toAbsolutePath = (filepath: string): string => {
+  return PathUtil.normalizeSeparator(PathUtil.absolutePath(filepath));
+};
+
+/**
+ * 処理名: メイン処理
+ *
+ * 処理概要:
+ * 設定ファイルを読み込み、シリアライズし、出力ファイルに書き込む。
+ * パフォーマンス統計情報を記録して処理終了
+ *
+ * 実装理由:
+ * CLIツールとしての主要な機能をasync/awaitで安全に実行するため
+ * @param {OptionValues} options 起動オプション
+ * @returns {Promise<void>} 処理完了
+ */
+const main = async (options: OptionValues): Promise<void> => {
+  if (options.debug) console.log(options);
+  if (!options.input) {
+    console.error("error: required option '-i, --input <type>' not specified");
+    process.exitCode = 1;
+    return;
+  }
+  // 入力先の絶対パス取得
+  const inputPath = toAbsolutePath(options.input);
+  const outputPath = toAbsolutePath(options.output ? options.output : './');
+  console.log(`inputPath: ${inputPath}`);
+  if (options.output) console.log(`outputPath: ${outputPath}`);
+
+  reportStatistics();
   try {
     // 設定ファイルの読み込み
-    const config = fs.readFileSync(inputPath, 'utf8');
-    const cryptokey = options.cryptokey
-      ? Buffer.from(options.cryptokey, 'hex')
-      : Serializer.generatekey();
-    if (!options.cryptokey)
-      console.log(`cryptokey: ${cryptokey.toString('hex')}`);
+    const config = await fs.promises.readFile(inputPath, 'utf8');
+    const serializer =
+      (await createSerializer(pickKeyOptions(options), 'cryptokey', true)) || serializerFromDefaultKeyFile();
 
     const configloder = new ConfigLoder();
-    const serializer = new Serializer(cryptokey);
-    const settingsdata = serializer.serializeObject(config);
+    const settingsdata = serializer.serializeObject(config, {
+      filename: inputPath,
+    });
 
     // 出力先フォルダの作成
-    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
 
-    configloder.writeConfigSync(outputPath, settingsdata);
-    const contents = configloder.readConfigSync(outputPath);
+    await configloder.writeConfig(outputPath, settingsdata);
+    const contents = await configloder.readConfig(outputPath);
     const obj = serializer.deserializeObject(contents);
     console.log(obj);
   } catch (error) {
@@ -107,5 +289,288 @@ const main = async (): Promise<void> => {
   }
 };
 
-await main();
+/**
+ * 処理名: 暗号化キーのローテーション処理
+ *
+ * 処理概要:
+ * シリアライズ済みの設定ファイル（JSON/YAML）の全てのSecretを現在の鍵で復号し、
+ * 新しい鍵で再暗号化して、一時ファイル経由のリネームで書き込む
+ *
+ * 実装理由:
+ * 元のconfig.jsが無いデプロイ先でも鍵を入れ替えられるようにするため
+ * @param {OptionValues} options rotate-keyコマンドのオプション
+ * @returns {Promise<void>} 処理完了
+ */
+const rotateKey = async (options: OptionValues): Promise<void> => {
+  if (options.debug) console.log(options);
+  const inputPath = toAbsolutePath(options.input);
+  const outputPath = options.output ? toAbsolutePath(options.output) : inputPath;
+
+  reportStatistics();
+  try {
+    const currentKey = pickKeyOptions(options);
+    const nextKey = pickKeyOptions(options, 'new');
+    // 標準入力は鍵とパスワードのプロンプトのどちらか一方でしか読めない
+    if (readsStdin(currentKey) && readsStdin(nextKey)) {
+      throw new Error(
+        '--key-stdin cannot be combined with a prompted password (both read stdin); ' +
+          'pass the password as an argument or use --key-file / --key-env'
+      );
+    }
+    const current = await createSerializer(currentKey, 'cryptokey');
+    const next = await createSerializer(nextKey, 'new cryptokey', true);
+    if (!current || !next) {
+      throw new Error(
+        `the ${current ? 'new' : 'current'} key is required (see configtool rotate-key --help)`
+      );
+    }
+    const configloder = new ConfigLoder();
+    const data = JSON.parse(await configloder.readConfig(inputPath));
+    await configloder.writeConfig(outputPath, current.rotateKey(data, next), { atomic: true });
+    console.log(`rotated: ${outputPath}`);
+  } catch (error) {
+    console.error(`fatal: ${error}`);
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * 処理名: 型定義の生成処理
+ *
+ * 処理概要:
+ * シリアライズ済みの設定ファイルから型定義（.d.ts）を生成し、出力ファイルまたは標準出力に書き込む。
+ * --checkの場合は書き込まずに既存の出力ファイルと比較し、内容が異なれば終了コード1にする
+ *
+ * 実装理由:
+ * 生成した型定義をリポジトリに登録し、設定の変更に追従しているかをCIで確認できるようにするため
+ * @param {OptionValues} options typegenコマンドのオプション
+ * @returns {Promise<void>} 処理完了
+ */
+const typegen = async (options: OptionValues): Promise<void> => {
+  // -oを省略した場合は標準出力に型定義を書き込むため、デバッグ出力は標準エラー出力に書き込む
+  if (options.debug) console.error(options);
+  if (options.check && !options.output) {
+    console.error("error: '--check' requires '-o, --output <type>'");
+    process.exitCode = 1;
+    return;
+  }
+  const inputPath = toAbsolutePath(options.input);
+  const outputPath = options.output ? toAbsolutePath(options.output) : undefined;
+
+  try {
+    const serializer = await createSerializer(pickKeyOptions(options), 'cryptokey');
+    const generator = new TypeGenerator({ rootName: options.name, serializer: serializer || undefined });
+    const declaration = await generator.generateFromFile(inputPath);
+    if (!outputPath) {
+      process.stdout.write(declaration);
+      return;
+    }
+    if (options.check) {
+      const current = await fs.promises.readFile(outputPath, 'utf8').catch(() => undefined);
+      if (current !== declaration) {
+        console.error(`out of date: ${outputPath} (run configtool typegen without --check to update it)`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.promises.writeFile(outputPath, declaration);
+    console.log(`generated: ${outputPath}`);
+  } catch (error) {
+    console.error(`fatal: ${error}`);
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * 処理名: 設定ファイルの差分出力処理
+ *
+ * 処理概要:
+ * 2つの設定ファイルを読み込み（鍵を指定した場合はデシリアライズして）比較し、
+ * 追加・削除・変更されたパスをテキスト（色付き）またはJSONで出力する。
+ * 終了コードは差分が無い場合0、差分がある場合1、エラーの場合2にする
+ *
+ * 実装理由:
+ * デプロイ前のスクリプトで設定の変更を確認し、差分の有無で処理を分岐できるようにするため
+ * @param {string} oldPath 変更前の設定ファイルのパス
+ * @param {string} newPath 変更後の設定ファイルのパス
+ * @param {OptionValues} options diffコマンドのオプション
+ * @returns {Promise<void>} 処理完了
+ */
+const diff = async (oldPath: string, newPath: string, options: OptionValues): Promise<void> => {
+  // 標準出力は差分（--format json等）のみに使うため、デバッグ出力は標準エラー出力に書き込む
+  if (options.debug) console.error(options);
+  try {
+    if (!['text', 'json'].includes(options.format)) {
+      throw new Error(`unknown format '${options.format}' (expected text or json)`);
+    }
+    const serializer = await createSerializer(pickKeyOptions(options), 'cryptokey');
+    const differences = await new ConfigDiff({
+      serializer: serializer || undefined,
+      revealSecrets: options.revealSecrets,
+      arrayDiff: options.arrayDiff,
+      arrayKey: options.arrayKey,
+      onWarning: (message) => console.error(`warning: ${message}`),
+    }).compareFiles(toAbsolutePath(oldPath), toAbsolutePath(newPath));
+    process.stdout.write(
+      options.format === 'json'
+        ? ConfigDiff.formatJson(differences)
+        : ConfigDiff.formatText(differences, { color: options.color ?? process.stdout.isTTY })
+    );
+    process.exitCode = differences.length > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(`fatal: ${error}`);
+    process.exitCode = 2;
+  }
+};
+
+/**
+ * 処理名: 設定ファイルの形式変換処理
+ *
+ * 処理概要:
+ * config.js・JSON・YAML・TOML等の設定ファイルを出力先の拡張子または--toの形式に変換し、
+ * 出力ファイルまたは標準出力に書き込む。Secret等の特殊値は復号せずにそのまま出力する
+ *
+ * 実装理由:
+ * 暗号化済みの設定を復号せずに、デプロイ先に合わせた形式へ変換できるようにするため
+ * @param {OptionValues} options convertコマンドのオプション
+ * @returns {Promise<void>} 処理完了
+ */
+const convert = async (options: OptionValues): Promise<void> => {
+  // 変換結果を標準出力からパイプで受け取れるよう、デバッグ出力は標準エラー出力に書き込む
+  if (options.debug) console.error(options);
+  const inputPath = toAbsolutePath(options.input);
+  const outputPath = options.output ? toAbsolutePath(options.output) : undefined;
+
+  try {
+    // 鍵はconfig.jsのSecretの暗号化にのみ使用する（鍵の指定が無ければメイン処理と同じ鍵ファイルを使用）
+    const script = ConfigConverter.isScript(inputPath);
+    const serializer =
+      (await createSerializer(pickKeyOptions(options), 'cryptokey', script)) ||
+      (script ? serializerFromDefaultKeyFile() : undefined);
+    const converter = new ConfigConverter({
+      to: options.to,
+      indent: options.indent === undefined ? undefined : Number(options.indent),
+      sortKeys: options.sortKeys,
+      serializer: serializer || undefined,
+    });
+    const text = await converter.convertFile(inputPath, outputPath);
+    if (!outputPath) {
+      process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.promises.writeFile(outputPath, text);
+    console.log(`converted: ${outputPath}`);
+  } catch (error) {
+    console.error(`fatal: ${error}`);
+    process.exitCode = 1;
+  }
+};
+
+/* 起動パラメータ設定 */
+const version =
+  typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'dev'; // __VERSION__はビルド時にwebpackのDefinePluginによって書き換えられます。
+const program = new Command();
+program.version(version);
+// サブコマンドのオプションを親コマンドのオプションとして解釈しないようにする
+program.enablePositionalOptions();
+// 複数のコマンドで共通のオプション
+const FLAGS = {
+  input: '-i, --input <type>',
+  output: '-o, --output <type>',
+  cryptokey: '-k, --cryptokey <type>',
+  password: '-p, --password [password]',
+  keyFile: '--key-file <path>',
+  keyEnv: '--key-env <name>',
+  keyStdin: '--key-stdin',
+  debug: '-d --debug',
+};
+const DEBUG_DESCRIPTION = 'output extra debugging log';
+
+/**
+ * 処理名: 鍵オプションの追加
+ * @param {Command} command サブコマンド
+ * @param {string} usage 鍵の用途（-kの説明に追加する）
+ * @returns {Command} 鍵オプションを追加したサブコマンド
+ * @private
+ */
+const addKeyOptions = (command: Command, usage: string): Command =>
+  command
+    .option(FLAGS.cryptokey, `crypto key (hex) ${usage}`)
+    .option(FLAGS.password, 'derive the crypto key from a password (prompted when omitted)')
+    .option(FLAGS.keyFile, 'read the crypto key from a key file')
+    .option(FLAGS.keyEnv, 'read the crypto key from an environment variable')
+    .option(FLAGS.keyStdin, 'read the crypto key from stdin');
+
+program
+  .option(FLAGS.input, 'input config source file path (required)')
+  .option(FLAGS.output, 'output config file path')
+  .option(FLAGS.cryptokey, 'crypto key (hex)')
+  .option(FLAGS.password, 'derive the crypto key from a password (prompted when omitted)')
+  .option(FLAGS.keyFile, `read the crypto key from a key file (generated with mode 0600 when missing, default: ./${DEFAULT_KEY_FILE} in the current directory, with a warning)`)
+  .option(FLAGS.keyEnv, 'read the crypto key from an environment variable')
+  .option(FLAGS.keyStdin, 'read the crypto key from stdin')
+  .option(FLAGS.debug, DEBUG_DESCRIPTION)
+  .action(async () => main(program.opts()));
+
+program
+  .command('rotate-key')
+  .description('re-encrypt every Secret in a serialized config file with a new key')
+  .requiredOption(FLAGS.input, 'serialized config file path (JSON/YAML)')
+  .option(FLAGS.output, 'output config file path (default: overwrite the input file)')
+  .option(FLAGS.cryptokey, 'current crypto key (hex)')
+  .option(FLAGS.password, 'derive the current crypto key from a password (prompted when omitted)')
+  .option(FLAGS.keyFile, 'read the current crypto key from a key file')
+  .option(FLAGS.keyEnv, 'read the current crypto key from an environment variable')
+  .option(FLAGS.keyStdin, 'read the current crypto key from stdin')
+  .option('--new-cryptokey <type>', 'new crypto key (hex)')
+  .option('--new-password [password]', 'derive the new crypto key from a password (prompted when omitted)')
+  .option('--new-key-file <path>', 'read the new crypto key from a key file (generated with mode 0600 when missing)')
+  .option('--new-key-env <name>', 'read the new crypto key from an environment variable')
+  .option(FLAGS.debug, DEBUG_DESCRIPTION)
+  .action(async (options: OptionValues) => rotateKey(options));
+
+addKeyOptions(
+  program
+    .command('typegen')
+    .description('generate TypeScript type declarations (.d.ts) from a serialized config file')
+    .requiredOption(FLAGS.input, 'serialized config file path (JSON/YAML/TOML)')
+    .option(FLAGS.output, 'output .d.ts file path (default: stdout)')
+    .option('-n, --name <name>', 'name of the root interface', 'Config')
+    .option('--check', 'exit with code 1 when the output file is not up to date instead of writing it'),
+  'used to type Secret values by their decrypted content'
+)
+  .option(FLAGS.debug, DEBUG_DESCRIPTION)
+  .action(async (options: OptionValues) => typegen(options));
+
+addKeyOptions(
+  program
+    .command('diff <old> <new>')
+    .description('compare two config files (exit code: 0 no differences, 1 differences found, 2 error)')
+    .option('-f, --format <format>', 'output format (text or json)', 'text')
+    .option('--color', 'colorize the text output (default: when stdout is a terminal)')
+    .option('--no-color', 'do not colorize the text output')
+    .option('--array-diff <mode>', 'compare arrays by index or sequence (detects moved elements)', 'index')
+    .option('--array-key <key>', 'key identifying object elements in sequence mode (e.g. id)')
+    .option('--reveal-secrets', 'show decrypted Secret values instead of masking them'),
+  'used to deserialize both files and compare Secret values by their decrypted content'
+)
+  .option(FLAGS.debug, DEBUG_DESCRIPTION)
+  .action(async (oldPath: string, newPath: string, options: OptionValues) => diff(oldPath, newPath, options));
+
+addKeyOptions(
+  program
+    .command('convert')
+    .description('convert a config file (config.js/JSON/YAML/TOML) to another format without decrypting Secret values')
+    .requiredOption(FLAGS.input, 'input config file path (config.js/JSON/YAML/TOML)')
+    .option(FLAGS.output, 'output config file path, whose extension selects the format (default: stdout)')
+    .option('-t, --to <format>', 'output format (json, json5, jsonc, yaml or toml; default: by the output extension, or json)')
+    .option('--indent <n>', 'indent width (default: 2, ignored for TOML)')
+    .option('--sort-keys', 'sort object keys by name'),
+  `used to encrypt Secret values of a config.js (default: ./${DEFAULT_KEY_FILE}, with a warning) and plaintext !secret values`
+)
+  .option(FLAGS.debug, DEBUG_DESCRIPTION)
+  .action(async (options: OptionValues) => convert(options));
 
+await program.parseAsync(process.argv);
@@ -0,0 +1,117 @@
+/**
+ * 処理名: ConfigAccessor ユニットテスト
+ *
+ * 処理概要:
+ * ConfigAccessorクラスのパスの解析、値の取得・設定・存在確認・削除と型付きの取得をテストする
+ *
+ * 実装理由:
+ * エスケープしたドット・配列インデックスを含むパスで値を扱え、型の誤りがパス付きで通知されることを検証するため
+ */
+
+import { ConfigAccessor } from '../../../src/configloder/ConfigAccessor';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('ConfigAccessor', () => {
+  let config: ConfigAccessor;
+
+  beforeEach(() => {
+    config = new ConfigAccessor({
+      database: { replicas: [{ host: 'db1', port: 5432 }, { host: 'db2' }] },
+      hosts: { 'example.com': { enabled: true } },
+      nothing: null,
+    });
+  });
+
+  /**
+   * 正常系: パスの解析
+   */
+  it('正常系: パスの解析', () => {
+    expect(ConfigAccessor.parsePath('database.replicas[0].host')).toEqual(['database', 'replicas', 0, 'host']);
+    expect(ConfigAccessor.parsePath('database.replicas.1')).toEqual(['database', 'replicas', 1]);
+    expect(ConfigAccessor.parsePath('hosts.example\\.com.enabled')).toEqual(['hosts', 'example.com', 'enabled']);
+    expect(ConfigAccessor.parsePath('matrix[0][1]')).toEqual(['matrix', 0, 1]);
+    expect(ConfigAccessor.parsePath('codes.\\404')).toEqual(['codes', '404']);
+    expect(ConfigAccessor.parsePath(['a.b', 0])).toEqual(['a.b', 0]);
+  });
+
+  /**
+   * 異常系: 不正なパス
+   */
+  it('異常系: 不正なパス', () => {
+    expect(() => ConfigAccessor.parsePath('a..b')).toThrow("invalid path 'a..b': empty segment at position 2");
+    expect(() => ConfigAccessor.parsePath('a.')).toThrow("invalid path 'a.': empty segment at position 2");
+    expect(() => ConfigAccessor.parsePath('')).toThrow('empty segment at position 0');
+    expect(() => ConfigAccessor.parsePath('a[x]')).toThrow('expected an array index like [0] at position 1');
+    expect(() => ConfigAccessor.parsePath('a[0]b')).toThrow("expected '.' or '[' at position 4");
+    expect(() => ConfigAccessor.parsePath('a\\')).toThrow('trailing backslash at position 1');
+  });
+
+  /**
+   * 正常系: 値の取得・存在確認
+   */
+  it('正常系: 値の取得・存在確認', () => {
+    expect(config.get('database.replicas[0].host')).toBe('db1');
+    expect(config.get('hosts.example\\.com.enabled')).toBe(true);
+    expect(config.get('database.replicas[1].port', 5432)).toBe(5432);
+    expect(config.get('missing.deep.path')).toBeUndefined();
+    expect(config.has('nothing')).toBe(true);
+    expect(config.has('database.replicas[2]')).toBe(false);
+  });
+
+  /**
+   * 正常系: 値の設定・削除
+   */
+  it('正常系: 値の設定・削除', () => {
+    config.set('database.replicas[1].port', 6432).set('cache.servers[0]', 'redis').set('hosts.a\\.b', 1);
+
+    expect(config.get('database.replicas[1]')).toEqual({ host: 'db2', port: 6432 });
+    expect(config.get('cache')).toEqual({ servers: ['redis'] });
+    expect(config.get(['hosts', 'a.b'])).toBe(1);
+    expect(config.delete('database.replicas[0]')).toBe(true);
+    expect(config.delete('database.replicas[5]')).toBe(false);
+    expect(config.toObject()).toMatchObject({ database: { replicas: [{ host: 'db2', port: 6432 }] } });
+    expect(() => config.set('database.replicas[0].host.name', 'x')).toThrow(
+      'cannot set database.replicas.0.host.name: database.replicas.0.host is string, not an object or array'
+    );
+  });
+
+  /**
+   * 正常系: 型付きの取得
+   */
+  it('正常系: 型付きの取得', () => {
+    const serializer = new Serializer(Serializer.generatekey('accessor'));
+    const data = serializer.deserializeObject(
+      JSON.stringify(
+        serializer.serializeObject('module.exports = { re: /^a$/i, buf: Buffer.from("7f", "hex"), n: 1, s: "x" };')
+      )
+    ) as Record<string, unknown>;
+    const typed = new ConfigAccessor(data);
+
+    expect(typed.getRegExp('re').test('A')).toBe(true);
+    expect(typed.getBuffer('buf')).toEqual(Buffer.from('7f', 'hex'));
+    expect(typed.getNumber('n')).toBe(1);
+    expect(typed.getString('s')).toBe('x');
+    expect(typed.getBoolean('missing', false)).toBe(false);
+    expect(config.getBoolean('hosts.example\\.com.enabled')).toBe(true);
+  });
+
+  /**
+   * 異常系: 型が一致しない値の取得
+   */
+  it('異常系: 型が一致しない値の取得', () => {
+    const raw = new ConfigAccessor({ secret: { type: 'Secret', hex: '00' }, list: [1], port: '80' });
+
+    expect(() => config.getNumber('database.replicas[0].host')).toThrow(
+      'expected number at database.replicas.0.host, but got string'
+    );
+    expect(() => config.getString('database.replicas[1].port')).toThrow(
+      'expected string at database.replicas.1.port, but got undefined'
+    );
+    expect(() => config.getBoolean('hosts.example\\.com')).toThrow('expected boolean at hosts.example\\.com, but got object');
+    expect(() => config.getString('nothing', 'x')).toThrow('expected string at nothing, but got null');
+    expect(() => raw.getString('secret')).toThrow('expected string at secret, but got Secret (not deserialized)');
+    expect(() => raw.getRegExp('list')).toThrow('expected RegExp at list, but got array');
+    expect(() => raw.getNumber('port')).toThrow('expected number at port, but got string');
+    expect(() => raw.getBuffer('port')).toThrow('expected Buffer at port, but got string');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * 処理名: ConfigConverter ユニットテスト
+ *
+ * 処理概要:
+ * ConfigConverterクラスのJSON・YAML・TOML・config.js間の形式変換、インデント・キーの並べ替えの指定をテストする
+ *
+ * 実装理由:
+ * 変換の前後で設定の内容が変わらず、Serializerの特殊値（Secret等）が復号されずに出力されることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigConverter } from '../../../src/configloder/ConfigConverter';
+import { ConfigLoder } from '../../../src/configloder/ConfigLoder';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('ConfigConverter', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'configconverter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: JSON・YAML・TOML間の変換と特殊値の保持
+   */
+  it('正常系: JSON・YAML・TOML間の変換と特殊値の保持', async () => {
+    const serializer = new Serializer(Serializer.generatekey('convert'));
+    const data = serializer.serializeObject(
+      'module.exports = { name: "app", db: { port: 5432, host: "localhost", password: new Secret("p") }, ' +
+        'pattern: /^a/i, home: new Env({ name: "HOME" }) };'
+    );
+    const inputPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(inputPath, JSON.stringify(data));
+    const yamlPath = path.join(tempDir, 'config.yaml');
+
+    const text = await new ConfigConverter({ sortKeys: true }).convertFile(inputPath, yamlPath);
+    fs.writeFileSync(yamlPath, text);
+
+    expect(text.split('\n').filter((line) => /^\S/.test(line))).toEqual([
+      'db:',
+      'home: !env HOME',
+      'name: app',
+      'pattern: !regexp /^a/i',
+    ]);
+    expect(text).toContain('  host: localhost\n  password: !secret');
+    expect(JSON.parse(await new ConfigLoder().readConfig(yamlPath))).toEqual(data);
+    expect(JSON.parse(await new ConfigConverter().convertFile(yamlPath))).toEqual(data);
+    expect(await new ConfigConverter({ to: 'toml' }).convertFile(inputPath, path.join(tempDir, 'out.json'))).toContain(
+      '[db]'
+    );
+  });
+
+  /**
+   * 正常系: config.jsのシリアライズとインデントの指定
+   */
+  it('正常系: config.jsのシリアライズとインデントの指定', async () => {
+    const serializer = new Serializer(Serializer.generatekey('convert'));
+    const inputPath = path.join(tempDir, 'config.js');
+    fs.writeFileSync(inputPath, 'module.exports = { user: "admin", password: new Secret("s3cret") };');
+
+    const text = await new ConfigConverter({ serializer, indent: 4 }).convertFile(inputPath);
+
+    expect(text).toContain('\n    "user": "admin"');
+    expect(text).not.toContain('s3cret');
+    expect(serializer.deserializeObject(text)).toEqual({ user: 'admin', password: 's3cret' });
+  });
+
+  /**
+   * 正常系: 未暗号化のSecretの暗号化
+   */
+  it('正常系: 未暗号化のSecretの暗号化', async () => {
+    const serializer = new Serializer(Serializer.generatekey('plaintext'));
+    const inputPath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(inputPath, 'db:\n  password: !secret hunter2\n');
+
+    const text = await new ConfigConverter({ serializer }).convertFile(inputPath, path.join(tempDir, 'config.json'));
+
+    expect(text).not.toContain('hunter2');
+    expect(JSON.parse(text).db.password).toMatchObject({ type: 'Secret', alg: 'aes-256-gcm' });
+    expect(serializer.deserializeObject(text)).toEqual({ db: { password: 'hunter2' } });
+    await expect(new ConfigConverter().convertFile(inputPath)).rejects.toThrow(
+      'a crypto key is required to encrypt the plaintext Secret at db.password'
+    );
+  });
+
+  /**
+   * 異常系: 鍵の無いconfig.js・不正なオプション・出力形式で表現できないデータ
+   */
+  it('異常系: 鍵の無いconfig.js・不正なオプション・出力形式で表現できないデータ', async () => {
+    const inputPath = path.join(tempDir, 'config.js');
+    fs.writeFileSync(inputPath, 'module.exports = { a: 1 };');
+
+    await expect(new ConfigConverter().convertFile(inputPath)).rejects.toThrow(
+      `a crypto key is required to serialize ${inputPath}`
+    );
+    expect(() => new ConfigConverter({ indent: -1 })).toThrow('indent must be a non-negative integer (got -1)');
+    expect(() => new ConfigConverter({ to: 'ini' })).toThrow("unknown config format 'ini'");
+    expect(() => new ConfigConverter({ to: 'toml' }).stringify([1])).toThrow('TOML requires a table (object) at the root');
+  });
+});
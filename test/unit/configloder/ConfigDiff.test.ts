@@ -0,0 +1,104 @@
+/**
+ * 処理名: ConfigDiff ユニットテスト
+ *
+ * 処理概要:
+ * ConfigDiffクラスの形式の異なる設定ファイルの比較、デシリアライズ後の比較、テキスト・JSONの出力をテストする
+ *
+ * 実装理由:
+ * 追加・削除・変更されたパスが前後の値とともに検出され、Secretの内容が出力に含まれないことを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigDiff } from '../../../src/configloder/ConfigDiff';
+import { ConfigLoder } from '../../../src/configloder/ConfigLoder';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('ConfigDiff', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'configdiff-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: 形式の異なる設定ファイルの比較
+   */
+  it('正常系: 形式の異なる設定ファイルの比較', async () => {
+    const oldPath = path.join(tempDir, 'old.json');
+    const newPath = path.join(tempDir, 'new.yaml');
+    fs.writeFileSync(oldPath, JSON.stringify({ db: { host: 'localhost', port: 5432 }, legacy: true, tags: ['a'] }));
+    fs.writeFileSync(newPath, 'db:\n  host: db.internal\n  port: 5432\n  user: admin\ntags: [a, b]\n');
+
+    const differences = await new ConfigDiff().compareFiles(oldPath, newPath);
+
+    expect(differences.map(({ type, path: at, oldValue, newValue }) => ({ type, at, oldValue, newValue }))).toEqual([
+      { type: 'modified', at: 'db.host', oldValue: 'localhost', newValue: 'db.internal' },
+      { type: 'added', at: 'db.user', oldValue: undefined, newValue: 'admin' },
+      { type: 'removed', at: 'legacy', oldValue: true, newValue: undefined },
+      { type: 'added', at: 'tags.1', oldValue: undefined, newValue: 'b' },
+    ]);
+    expect(ConfigDiff.formatText(differences)).toBe(
+      [
+        '~ db.host: "localhost" -> "db.internal"',
+        '+ db.user: "admin"',
+        '- legacy: true',
+        '+ tags.1: "b"',
+        '',
+      ].join('\n')
+    );
+    expect(ConfigDiff.formatText(differences.slice(0, 1), { color: true })).toBe(
+      '\u001b[33m~ db.host: "localhost" -> "db.internal"\u001b[0m\n'
+    );
+    expect(JSON.parse(ConfigDiff.formatJson(differences))[2]).toEqual({
+      type: 'removed',
+      path: 'legacy',
+      segments: ['legacy'],
+      oldValue: true,
+    });
+    expect(await new ConfigDiff().compareFiles(oldPath, oldPath)).toEqual([]);
+  });
+
+  /**
+   * 正常系: デシリアライズ後の比較とSecretの伏せ字
+   */
+  it('正常系: デシリアライズ後の比較とSecretの伏せ字', () => {
+    const serializer = new Serializer(Serializer.generatekey('diff'));
+    const serialize = (code: string): string => JSON.stringify(serializer.serializeObject(code));
+    const oldJson = serialize('module.exports = { re: /a/, key: new Secret("same"), db: new Secret({ pass: "p1" }) };');
+    const newJson = serialize('module.exports = { re: /b/g, key: new Secret("same"), db: new Secret({ pass: "p2" }) };');
+
+    const warnings: string[] = [];
+    const raw = new ConfigDiff({ onWarning: (message) => warnings.push(message) }).compareSerialized(oldJson, newJson);
+    const decrypted = new ConfigDiff({ serializer }).compareSerialized(oldJson, newJson);
+
+    expect(ConfigDiff.formatText(raw)).toBe('~ re: /a/ -> /b/g\n');
+    expect(warnings).toEqual(['2 Secret values were compared without a key; changes to their contents are not detected']);
+    expect(new ConfigDiff().compareSerialized(oldJson, serialize('module.exports = { re: /a/ };'))).toMatchObject([
+      { type: 'removed', path: 'db', oldValue: { type: 'Secret' } },
+      { type: 'removed', path: 'key', oldValue: { type: 'Secret' } },
+    ]);
+    expect(ConfigDiff.formatText(decrypted)).toBe('~ db.pass: "********" -> "********"\n~ re: /a/ -> /b/g\n');
+    expect(new ConfigDiff({ serializer, revealSecrets: true }).compareSerialized(oldJson, newJson)[0]).toMatchObject({
+      oldValue: 'p1',
+      newValue: 'p2',
+    });
+  });
+
+  /**
+   * 正常系: 配列の要素の移動の検出
+   */
+  it('正常系: 配列の要素の移動の検出', () => {
+    const diff = new ConfigDiff({ arrayDiff: 'sequence', arrayKey: 'id', loader: new ConfigLoder() });
+
+    const differences = diff.compare({ list: [{ id: 1 }, { id: 2 }] }, { list: [{ id: 2 }, { id: 1 }] });
+
+    expect(ConfigDiff.formatText(differences)).toContain('> list.');
+    expect(ConfigDiff.formatText(differences)).toContain(' <- list.');
+  });
+});
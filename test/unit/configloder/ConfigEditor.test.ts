@@ -0,0 +1,252 @@
+/**
+ * 処理名: ConfigEditor ユニットテスト
+ *
+ * 処理概要:
+ * ConfigEditorクラスのYAML/JSONの値の設定・追加・削除と、ConfigLoderからのファイルの編集をテストする
+ *
+ * 実装理由:
+ * 変更したノード以外のコメント・キーの順序・引用符が元の文字列のまま残ることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { ConfigEditor } from '../../../src/configloder/ConfigEditor';
+import { ConfigLoder } from '../../../src/configloder/ConfigLoder';
+import { CONFIG_YAML_SCHEMA } from '../../../src/configloder/FormatRegistry';
+
+describe('ConfigEditor', () => {
+  const YAML_TEXT = [
+    '# application settings',
+    'name: app   # display name',
+    'db:',
+    '  host: "localhost"',
+    '  ports: [80, 443]',
+    '  opts: {a: 1}',
+    'list:',
+    '  - one',
+    '  - k: v',
+    '    j: w',
+    'empty:',
+    '',
+  ].join('\n');
+  const editor = new ConfigEditor();
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'configeditor-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: YAMLの既存の値の置き換え
+   */
+  it('正常系: YAMLの既存の値の置き換え', () => {
+    const edited = editor.edit(YAML_TEXT, 'yaml', [
+      { op: 'set', path: 'name', value: 'renamed' },
+      { op: 'set', path: 'db.host', value: 'db.internal' },
+      { op: 'set', path: 'db.ports.1', value: 8443 },
+      { op: 'set', path: ['list', 1, 'j'], value: true },
+    ]);
+
+    expect(edited).toBe(
+      YAML_TEXT.replace('name: app ', 'name: renamed ')
+        .replace('"localhost"', '"db.internal"')
+        .replace('[80, 443]', '[80, 8443]')
+        .replace('j: w', 'j: true')
+    );
+  });
+
+  /**
+   * 正常系: YAMLへの値の追加
+   */
+  it('正常系: YAMLへの値の追加', () => {
+    const edited = editor.edit(YAML_TEXT, 'yaml', [
+      { op: 'set', path: 'db.user', value: 'admin' },
+      { op: 'set', path: 'db.opts.b', value: 2 },
+      { op: 'set', path: 'list.2', value: { k: 'x', m: [1] } },
+      { op: 'set', path: 'empty.nested.key', value: 'v' },
+      { op: 'set', path: 'log', value: { level: 'info' } },
+    ]);
+
+    expect(edited).toBe(
+      [
+        '# application settings',
+        'name: app   # display name',
+        'db:',
+        '  host: "localhost"',
+        '  ports: [80, 443]',
+        '  opts: {a: 1, b: 2}',
+        '  user: admin',
+        'list:',
+        '  - one',
+        '  - k: v',
+        '    j: w',
+        '  - k: x',
+        '    m:',
+        '      - 1',
+        'empty:',
+        '  nested:',
+        '    key: v',
+        'log:',
+        '  level: info',
+        '',
+      ].join('\n')
+    );
+  });
+
+  /**
+   * 正常系: YAMLの値の削除
+   */
+  it('正常系: YAMLの値の削除', () => {
+    const edited = editor.edit(YAML_TEXT, 'yaml', [
+      { op: 'delete', path: 'name' },
+      { op: 'delete', path: 'db.ports.0' },
+      { op: 'delete', path: 'db.opts.a' },
+      { op: 'delete', path: 'list.1.k' },
+      { op: 'delete', path: 'missing.key' },
+    ]);
+
+    expect(edited).toBe(
+      [
+        '# application settings',
+        'db:',
+        '  host: "localhost"',
+        '  ports: [443]',
+        '  opts: {}',
+        'list:',
+        '  - one',
+        '  - j: w',
+        'empty:',
+        '',
+      ].join('\n')
+    );
+  });
+
+  /**
+   * 正常系: YAMLのスカラーとコレクションの入れ替え
+   */
+  it('正常系: YAMLのスカラーとコレクションの入れ替え', () => {
+    const edited = editor.edit(YAML_TEXT, 'yaml', [
+      { op: 'set', path: 'db', value: 'sqlite' },
+      { op: 'set', path: 'list.0', value: { a: 1, b: 2 } },
+      { op: 'set', path: 'name', value: { type: 'Env', name: 'APP_NAME' } },
+    ]);
+
+    expect(edited).toContain('name: !env APP_NAME   # display name\n');
+    expect(edited).toContain('db: sqlite\nlist:\n  - a: 1\n    b: 2\n  - k: v\n');
+    expect(yaml.load(edited, { schema: CONFIG_YAML_SCHEMA })).toMatchObject({ db: 'sqlite', list: [{ a: 1, b: 2 }, { k: 'v', j: 'w' }] });
+  });
+
+  /**
+   * 正常系: YAMLのブロックスカラー（|・>）の値の置き換え
+   */
+  it('正常系: YAMLのブロックスカラー（|・>）の値の置き換え', () => {
+    const text = 'script: |\n  echo a\n  echo b\nnote: >-\n  folded\n  text\n\nport: 80\n';
+
+    const edited = editor.edit(text, 'yaml', [
+      { op: 'set', path: 'script', value: 'echo c' },
+      { op: 'set', path: 'note', value: { a: 1 } },
+    ]);
+    const folded = editor.edit(text, 'yaml', [{ op: 'set', path: 'note', value: 'short' }]);
+
+    expect(edited).toBe('script: echo c\nnote:\n  a: 1\n\nport: 80\n');
+    expect(folded).toBe('script: |\n  echo a\n  echo b\nnote: short\n\nport: 80\n');
+    expect(editor.edit('a: >\n  text\n', 'yaml', [{ op: 'set', path: 'a', value: 'x' }])).toBe('a: x\n');
+  });
+
+  /**
+   * 正常系: JSONの値の設定・追加・削除
+   */
+  it('正常系: JSONの値の設定・追加・削除', () => {
+    const text = '{\n    // comment\n    "name": "app",\n    "list": [1, 2],\n    "db": {"host": "localhost"}\n}\n';
+
+    const edited = editor.edit(text, 'json', [
+      { op: 'set', path: 'name', value: 'renamed' },
+      { op: 'set', path: 'list.2', value: 3 },
+      { op: 'delete', path: 'db.host' },
+      { op: 'set', path: 'log.level', value: 'info' },
+    ]);
+
+    expect(edited).toBe(
+      '{\n    // comment\n    "name": "renamed",\n    "list": [1, 2, 3],\n    "db": {},\n    "log": {\n        "level": "info"\n    }\n}\n'
+    );
+  });
+
+  /**
+   * 正常系: JSONの最後の要素の削除
+   */
+  it('正常系: JSONの最後の要素の削除', () => {
+    const text = '{\n  "db": {\n    "host": "localhost"\n  },\n  "list": [\n    1\n  ]\n}\n';
+
+    const edited = editor.edit(text, 'jsonc', [
+      { op: 'delete', path: 'db.host' },
+      { op: 'delete', path: 'list.0' },
+    ]);
+
+    expect(edited).toBe('{\n  "db": {},\n  "list": []\n}\n');
+    expect(
+      editor.edit(edited, 'json', [
+        { op: 'delete', path: 'db' },
+        { op: 'delete', path: 'list' },
+      ])
+    ).toBe('{}\n');
+  });
+
+  /**
+   * 異常系: JSON5の編集
+   */
+  it('異常系: JSON5の編集', () => {
+    const json5Path = path.join(tempDir, 'config.json5');
+    fs.writeFileSync(json5Path, "{\n  port: 80,\n  host: 'localhost',\n}\n");
+
+    expect(() => editor.edit("{ port: 80, host: 'localhost' }", 'json5', [{ op: 'set', path: 'port', value: 8080 }])).toThrow(
+      'editing json5 files is not supported (convert the file to JSONC or YAML to edit it in place)'
+    );
+    expect(() => new ConfigLoder().editConfigSync(json5Path, 'port', 8080)).toThrow('editing json5 files is not supported');
+    expect(fs.readFileSync(json5Path, 'utf8')).toBe("{\n  port: 80,\n  host: 'localhost',\n}\n");
+  });
+
+  /**
+   * 異常系: 値の途中への設定・不正なパス
+   */
+  it('異常系: 値の途中への設定・不正なパス', () => {
+    for (const format of ['yaml', 'json']) {
+      const text = format === 'yaml' ? 'a: 1\nlist: [1]\n' : '{"a": 1, "list": [1]}';
+      expect(() => editor.edit(text, format, [{ op: 'set', path: 'a.b', value: 1 }])).toThrow(
+        'cannot set a.b: a is not an object or array'
+      );
+      expect(() => editor.edit(text, format, [{ op: 'set', path: 'list.5', value: 1 }])).toThrow(
+        "invalid array index '5' in list.5 (length 1)"
+      );
+      expect(() => editor.edit(text, format, [{ op: 'set', path: 'a..b', value: 1 }])).toThrow("invalid path 'a..b'");
+    }
+    expect(() => editor.edit('a = 1', 'toml', [])).toThrow('editing toml files is not supported');
+    expect(() => editor.edit('{"a": }', 'json', [])).not.toThrow();
+    expect(() => editor.edit('{"a": }', 'json', [{ op: 'delete', path: 'a' }])).toThrow('parse error at 1:7: ValueExpected');
+  });
+
+  /**
+   * 正常系: ConfigLoderからの設定ファイルの編集
+   */
+  it('正常系: ConfigLoderからの設定ファイルの編集', async () => {
+    const loader = new ConfigLoder();
+    const yamlPath = path.join(tempDir, 'config.yaml');
+    const jsonPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(yamlPath, YAML_TEXT);
+    fs.writeFileSync(jsonPath, '{ "port": 80 }');
+
+    loader.editConfigSync(yamlPath, 'db.host', 'db.internal');
+    await loader.editConfig(jsonPath, [{ op: 'set', path: 'port', value: 8080 }], undefined, { atomic: true });
+
+    expect(fs.readFileSync(yamlPath, 'utf8')).toBe(YAML_TEXT.replace('"localhost"', '"db.internal"'));
+    expect(fs.readFileSync(jsonPath, 'utf8')).toBe('{ "port": 8080 }');
+    expect(() => loader.editConfigSync(path.join(tempDir, 'missing.yaml'), 'a', 1)).toThrow(
+      'editConfigSync error'
+    );
+  });
+});
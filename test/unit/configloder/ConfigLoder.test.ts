@@ -9,6 +9,7 @@
  */
 
 import { ConfigLoder } from '../../../src/configloder/ConfigLoder';
+import { Serializer } from '../../../src/configloder/Serializer';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -147,6 +148,222 @@ describe('ConfigLoder', () => {
     expect(parsed.nested.foo).toBe('bar');
   });
 
+  /**
+   * 正常系: TOML設定ファイルの読み込み
+   */
+  it('正常系: TOML設定ファイルの読み込み', () => {
+    const tomlPath = path.join(tempDir, 'test.toml');
+    fs.writeFileSync(
+      tomlPath,
+      [
+        'title = "app"',
+        'released = 1979-05-27T07:32:00-08:00',
+        'day = 1979-05-27',
+        'point = { x = 1, y = 2 }',
+        '[[servers]]',
+        'name = "a"',
+        '[[servers]]',
+        'name = "b"',
+      ].join('\n')
+    );
+
+    const parsed = JSON.parse(new ConfigLoder().readConfigSync(tomlPath));
+
+    expect(parsed).toEqual({
+      title: 'app',
+      released: '1979-05-27T07:32:00.000-08:00',
+      day: '1979-05-27',
+      point: { x: 1, y: 2 },
+      servers: [{ name: 'a' }, { name: 'b' }],
+    });
+  });
+
+  /**
+   * 正常系: TOML設定ファイルの書き込みとシリアライズ済み値の往復
+   */
+  it('正常系: TOML設定ファイルの書き込みとシリアライズ済み値の往復', async () => {
+    const loader = new ConfigLoder();
+    const serializer = new Serializer(Serializer.generatekey('toml'));
+    const serialized = serializer.serializeObject(
+      'module.exports = { name: "app", db: { password: new Secret("p") }, hosts: [{ re: /x/i }] };'
+    );
+    const tomlPath = path.join(tempDir, 'output.toml');
+
+    await loader.writeConfig(tomlPath, serialized);
+    loader.writeConfigSync(path.join(tempDir, 'date.toml'), { at: new Date(0) });
+
+    expect(fs.readFileSync(tomlPath, 'utf8')).toContain('[[hosts]]');
+    expect(fs.readFileSync(path.join(tempDir, 'date.toml'), 'utf8')).toBe('at = 1970-01-01T00:00:00.000Z\n');
+    expect(serializer.deserializeObject(await loader.readConfig(tomlPath))).toEqual({
+      name: 'app',
+      db: { password: 'p' },
+      hosts: [{ re: /x/i }],
+    });
+    expect(() => loader.toTomlText([1])).toThrow('TOML requires a table (object) at the root');
+  });
+
+  /**
+   * 正常系: TOMLの日時の往復とnullの値
+   */
+  it('正常系: TOMLの日時の往復とnullの値', () => {
+    const loader = new ConfigLoder();
+    const content = [
+      'released = 1979-05-27T07:32:00.000-08:00',
+      'day = 1979-05-27',
+      'at = 07:32:00.000',
+      'local = 1979-05-27T07:32:00.000',
+      'note = "1979-05-27 is a date"',
+      'text = "2024-01-01T00:00:00Z"',
+      '',
+    ].join('\n');
+    const tomlPath = path.join(tempDir, 'dates.toml');
+    fs.writeFileSync(tomlPath, content);
+
+    expect(loader.toTomlText(JSON.parse(loader.readConfigSync(tomlPath)))).toBe(content);
+    expect(() => loader.toTomlText({ db: { host: null } })).toThrow('TOML cannot represent null (at db.host)');
+    expect(() => loader.toTomlText({ list: [1, null] })).toThrow('TOML cannot represent null (at list.1)');
+    expect(loader.toTomlText({ a: 1, b: undefined })).toBe('a = 1\n');
+  });
+
+  /**
+   * 正常系: JSON5/JSONC設定ファイルの読み込み
+   */
+  it('正常系: JSON5/JSONC設定ファイルの読み込み', () => {
+    const json5Path = path.join(tempDir, 'test.json5');
+    fs.writeFileSync(json5Path, "// comment\n{\n  key: 'value', /* inline */\n  list: [1, 2,],\n}\n");
+    const content = '// comment\n{\n  "key": "value", /* inline */\n  "list": [1, 2,],\n}\n';
+    const jsoncPath = path.join(tempDir, 'test.jsonc');
+    fs.writeFileSync(jsoncPath, content);
+    const jsonPath = path.join(tempDir, 'test.json');
+    fs.writeFileSync(jsonPath, content);
+    const strictPath = path.join(tempDir, 'strict.json');
+    fs.writeFileSync(strictPath, '{ "key": "value" }\n');
+
+    const loader = new ConfigLoder();
+    const expected = '{"key":"value","list":[1,2]}';
+
+    expect(loader.readConfigSync(json5Path)).toBe(expected);
+    expect(loader.readConfigSync(jsoncPath)).toBe(expected);
+    expect(loader.readConfigSync(strictPath)).toBe('{ "key": "value" }\n');
+    expect(new ConfigLoder(false, { lenientJson: true }).readConfigSync(jsonPath)).toBe(expected);
+  });
+
+  /**
+   * 異常系: JSON・JSON5・JSONCの構文エラー
+   */
+  it('異常系: JSON・JSON5・JSONCの構文エラー', async () => {
+    const json5Path = path.join(tempDir, 'broken.json5');
+    fs.writeFileSync(json5Path, '{\n  a: 1,\n  b: }\n');
+    const jsoncPath = path.join(tempDir, 'broken.jsonc');
+    fs.writeFileSync(jsoncPath, '{\n  // JSON5 only\n  a: 1\n}\n');
+    const jsonPath = path.join(tempDir, 'broken.json');
+    fs.writeFileSync(jsonPath, '{\n  "a": 1,\n  "b": 2,\n}\n');
+    const commentPath = path.join(tempDir, 'comment.json');
+    fs.writeFileSync(commentPath, '{\n  // comment\n  "a": 1\n}\n');
+
+    await expect(new ConfigLoder().readConfig(json5Path)).rejects.toThrow(
+      `parse error at ${json5Path}:3:6: JSON5: invalid character '}' at 3:6`
+    );
+    await expect(new ConfigLoder().readConfig(jsoncPath)).rejects.toThrow(
+      `parse error at ${jsoncPath}:3:3: InvalidSymbol`
+    );
+    await expect(new ConfigLoder().readConfig(jsonPath)).rejects.toThrow(`parse error at ${jsonPath}:4:1: PropertyNameExpected`);
+    expect(() => new ConfigLoder().readConfigSync(commentPath)).toThrow(
+      `parse error at ${commentPath}:2:3: InvalidCommentToken`
+    );
+  });
+
+  /**
+   * 正常系: YAMLタグ（!secret, !env, !regexp, !buffer）の読み込みと書き込み
+   */
+  it('正常系: YAMLタグ（!secret, !env, !regexp, !buffer）の読み込みと書き込み', () => {
+    const yamlPath = path.join(tempDir, 'tags.yaml');
+    fs.writeFileSync(
+      yamlPath,
+      [
+        'password: !secret hunter2',
+        'host: !env {name: DB_HOST, default: localhost}',
+        'user: !env DB_USER',
+        'port: !env {name: APP_PORT, type: number, default: "8080"}',
+        'pattern: !regexp /foo/i',
+        'labeled: !regexp {source: "^a$", label: A}',
+        'raw: !buffer DEADbeef',
+        '',
+      ].join('\n')
+    );
+
+    const loader = new ConfigLoder();
+    const config = JSON.parse(loader.readConfigSync(yamlPath));
+
+    expect(config).toEqual({
+      password: { type: 'Secret', value: 'hunter2' },
+      host: { type: 'Env', name: 'DB_HOST', default: 'localhost' },
+      user: { type: 'Env', name: 'DB_USER' },
+      port: { type: 'Env', name: 'APP_PORT', valueType: 'number', default: '8080' },
+      pattern: { type: 'RegExp', source: 'foo', flags: 'i', label: '' },
+      labeled: { type: 'RegExp', source: '^a$', flags: '', label: 'A' },
+      raw: { type: 'Buffer', hex: 'deadbeef' },
+    });
+    expect(loader.toYamlText(config)).toBe(
+      [
+        'password: !secret hunter2',
+        'host: !env ',
+        '  name: DB_HOST',
+        '  default: localhost',
+        'user: !env DB_USER',
+        'port: !env ',
+        '  name: APP_PORT',
+        '  type: number',
+        "  default: '8080'",
+        'pattern: !regexp /foo/i',
+        'labeled: !regexp ',
+        '  source: ^a$',
+        "  flags: ''",
+        '  label: A',
+        'raw: !buffer deadbeef',
+        '',
+      ].join('\n')
+    );
+    const serializer = new Serializer(Serializer.generatekey('yaml'));
+    expect(() => serializer.deserializeObject(JSON.stringify(config))).toThrow('Secret at password is not encrypted');
+    expect(serializer.allowPlaintextSecrets().deserializeObject(JSON.stringify(config))).toMatchObject({
+      password: 'hunter2',
+      user: undefined,
+      port: 8080,
+      pattern: /foo/i,
+      raw: Buffer.from('deadbeef', 'hex'),
+    });
+  });
+
+  /**
+   * 正常系: 暗号化済みSecretのYAMLタグでの往復
+   */
+  it('正常系: 暗号化済みSecretのYAMLタグでの往復', () => {
+    const loader = new ConfigLoder();
+    const serializer = new Serializer(Serializer.generatekey('yaml'));
+    const serialized = serializer.serializeObject('module.exports = { db: { password: new Secret("p") } };');
+    const yamlPath = path.join(tempDir, 'secret.yaml');
+
+    loader.writeConfigSync(yamlPath, serialized);
+
+    expect(fs.readFileSync(yamlPath, 'utf8')).toMatch(/^db:\n {2}password: !secret \n {4}version: 2\n/);
+    expect(serializer.deserializeObject(loader.readConfigSync(yamlPath))).toEqual({ db: { password: 'p' } });
+  });
+
+  /**
+   * 異常系: 不正なYAMLタグの値
+   */
+  it('異常系: 不正なYAMLタグの値', () => {
+    const loader = new ConfigLoder();
+    const cases = ['a: !regexp foo', 'a: !regexp /(/', 'a: !buffer xyz', 'a: !env {default: x}', 'a: !secret {b: 1}'];
+
+    for (const [index, content] of cases.entries()) {
+      const yamlPath = path.join(tempDir, `invalid${index}.yaml`);
+      fs.writeFileSync(yamlPath, content);
+      expect(() => loader.readConfigSync(yamlPath)).toThrow('cannot resolve a node');
+    }
+  });
+
   /**
    * 異常系: リスト読み込み（存在しないファイル）
    */
@@ -158,4 +375,198 @@ describe('ConfigLoder', () => {
       loader.readListSync(nonExistentPath);
     }).toThrow();
   });
+
+  /**
+   * 正常系: 設定ファイルの非同期読み込み（YAML）
+   */
+  it('正常系: 設定ファイルの非同期読み込み（YAML）', async () => {
+    const yamlPath = path.join(tempDir, 'test.yml');
+    fs.writeFileSync(yamlPath, 'key: value\nnested:\n  foo: bar');
+
+    const loader = new ConfigLoder();
+    const parsed = JSON.parse(await loader.readConfig(yamlPath));
+
+    expect(parsed.key).toBe('value');
+    expect(parsed.nested.foo).toBe('bar');
+  });
+
+  /**
+   * 正常系: 設定ファイルの非同期読み込み（JSON）
+   */
+  it('正常系: 設定ファイルの非同期読み込み（JSON）', async () => {
+    const jsonPath = path.join(tempDir, 'test.json');
+    fs.writeFileSync(jsonPath, '{"key":"value"}');
+
+    const loader = new ConfigLoder();
+
+    await expect(loader.readConfig(jsonPath)).resolves.toBe('{"key":"value"}');
+  });
+
+  /**
+   * 異常系: 存在しないファイルの非同期読み込み
+   */
+  it('異常系: 存在しないファイルの非同期読み込み', async () => {
+    const loader = new ConfigLoder();
+    const nonExistentPath = path.join(tempDir, 'nonexistent.json');
+
+    await expect(loader.readConfig(nonExistentPath)).rejects.toThrow(
+      'no such list file'
+    );
+  });
+
+  /**
+   * 正常系: 設定ファイルの非同期書き込み（JSON/YAML）
+   */
+  it('正常系: 設定ファイルの非同期書き込み（JSON/YAML）', async () => {
+    const loader = new ConfigLoder();
+    const testData = { setting: 'test', value: 123 };
+    const jsonPath = path.join(tempDir, 'output.json');
+    const yamlPath = path.join(tempDir, 'output.yaml');
+
+    await loader.writeConfig(jsonPath, testData);
+    await loader.writeConfig(yamlPath, testData);
+
+    expect(JSON.parse(fs.readFileSync(jsonPath, 'utf8'))).toEqual(testData);
+    expect(fs.readFileSync(yamlPath, 'utf8')).toContain('setting: test');
+  });
+
+  /**
+   * 異常系: 書き込み先ディレクトリが存在しない場合の非同期書き込み
+   */
+  it('異常系: 書き込み先ディレクトリが存在しない場合の非同期書き込み', async () => {
+    const loader = new ConfigLoder();
+    const outputPath = path.join(tempDir, 'missing', 'output.json');
+
+    await expect(loader.writeConfig(outputPath, {})).rejects.toThrow(
+      'writeConfig error'
+    );
+  });
+
+  /**
+   * 正常系: 設定ファイルのアトミックな書き込み
+   */
+  it('正常系: 設定ファイルのアトミックな書き込み', async () => {
+    const loader = new ConfigLoder();
+    const outputPath = path.join(tempDir, 'output.json');
+    fs.writeFileSync(outputPath, '{"old": true}');
+
+    await loader.writeConfig(outputPath, { updated: true }, { atomic: true });
+
+    expect(JSON.parse(fs.readFileSync(outputPath, 'utf8'))).toEqual({ updated: true });
+    expect(fs.readdirSync(tempDir)).toEqual(['output.json']);
+
+    // 既存のファイルのパーミッションを保つ
+    fs.chmodSync(outputPath, 0o600);
+    await loader.writeConfig(outputPath, { mode: true }, { atomic: true });
+    expect(fs.statSync(outputPath).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(fs.readFileSync(outputPath, 'utf8'))).toEqual({ mode: true });
+
+    // リネームに失敗した場合は一時ファイルを残さない
+    fs.mkdirSync(path.join(tempDir, 'dir.json'));
+    await expect(
+      loader.writeConfig(path.join(tempDir, 'dir.json'), {}, { atomic: true })
+    ).rejects.toThrow('writeConfig error');
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['dir.json', 'output.json']);
+  });
+
+  /**
+   * 正常系: リスト形式ファイルの非同期読み込み
+   */
+  it('正常系: リスト形式ファイルの非同期読み込み', async () => {
+    const listPath = path.join(tempDir, 'list.txt');
+    fs.writeFileSync(listPath, 'line1\r\nline2');
+
+    const loader = new ConfigLoder();
+
+    await expect(loader.readList(listPath)).resolves.toEqual(['line1', 'line2']);
+    await expect(
+      loader.readList(path.join(tempDir, 'nonexistent.txt'))
+    ).rejects.toThrow('read error');
+  });
+
+  /**
+   * 異常系: AbortSignalによる非同期処理の中断
+   */
+  it('異常系: AbortSignalによる非同期処理の中断', async () => {
+    const jsonPath = path.join(tempDir, 'test.json');
+    fs.writeFileSync(jsonPath, '{}');
+    const controller = new AbortController();
+    controller.abort();
+
+    const loader = new ConfigLoder();
+    const options = { signal: controller.signal };
+
+    await expect(loader.readConfig(jsonPath, options)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    await expect(loader.readList(jsonPath, options)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    await expect(
+      loader.writeConfig(path.join(tempDir, 'out.json'), {}, options)
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  /**
+   * 正常系: 階層化された設定ファイルの読み込み
+   */
+  it('正常系: 階層化された設定ファイルの読み込み', async () => {
+    const defaultPath = path.join(tempDir, 'default.yaml');
+    const productionPath = path.join(tempDir, 'production.yaml');
+    const localPath = path.join(tempDir, 'local.json');
+    fs.writeFileSync(
+      defaultPath,
+      'db:\n  host: localhost\n  port: 5432\nfeatures: [a, b]\n'
+    );
+    fs.writeFileSync(productionPath, 'db:\n  host: prod-db\nfeatures: [c]\n');
+    fs.writeFileSync(
+      localPath,
+      JSON.stringify({ db: { password: { type: 'Secret', iv: '00', hex: '11' } } })
+    );
+    const layers = [defaultPath, productionPath, { path: localPath, optional: true }];
+    const expected = {
+      db: {
+        host: 'prod-db',
+        port: 5432,
+        password: { type: 'Secret', iv: '00', hex: '11' },
+      },
+      features: ['a', 'b', 'c'],
+    };
+
+    const loader = new ConfigLoder();
+
+    expect(loader.readLayersSync(layers, { arrayStrategy: 'concat' })).toEqual(expected);
+    await expect(
+      loader.readLayers(layers, { arrayStrategy: 'concat' })
+    ).resolves.toEqual(expected);
+  });
+
+  /**
+   * 正常系: 存在しない任意レイヤーの読み飛ばし
+   */
+  it('正常系: 存在しない任意レイヤーの読み飛ばし', async () => {
+    const defaultPath = path.join(tempDir, 'default.json');
+    fs.writeFileSync(defaultPath, '{"key":"value"}');
+    const layers = [
+      defaultPath,
+      { path: path.join(tempDir, 'local.json'), optional: true },
+    ];
+
+    const loader = new ConfigLoder();
+
+    expect(loader.readLayersSync(layers)).toEqual({ key: 'value' });
+    await expect(loader.readLayers(layers)).resolves.toEqual({ key: 'value' });
+  });
+
+  /**
+   * 異常系: 存在しない必須レイヤー
+   */
+  it('異常系: 存在しない必須レイヤー', async () => {
+    const layers = [{ path: path.join(tempDir, 'default.json') }];
+
+    const loader = new ConfigLoder();
+
+    expect(() => loader.readLayersSync(layers)).toThrow('no such list file');
+    await expect(loader.readLayers(layers)).rejects.toThrow('no such list file');
+  });
 });
@@ -0,0 +1,133 @@
+/**
+ * 処理名: ConfigMerger ユニットテスト
+ *
+ * 処理概要:
+ * ConfigMergerクラスのディープマージ機能をテストする
+ *
+ * 実装理由:
+ * レイヤー化された設定のマージ結果と配列マージ方式を検証するため
+ */
+
+import { ConfigMerger } from '../../../src/configloder/ConfigMerger';
+
+describe('ConfigMerger', () => {
+  /**
+   * 正常系: ネストされたオブジェクトのマージ
+   */
+  it('正常系: ネストされたオブジェクトのマージ', () => {
+    const merger = new ConfigMerger();
+    const base = { db: { host: 'localhost', port: 5432 }, name: 'app' };
+    const override = { db: { host: 'prod-db' }, debug: false };
+
+    const result = merger.merge(base, override);
+
+    expect(result).toEqual({
+      db: { host: 'prod-db', port: 5432 },
+      name: 'app',
+      debug: false,
+    });
+    // 入力は変更されない
+    expect(base.db.host).toBe('localhost');
+  });
+
+  /**
+   * 正常系: 配列の置き換え（デフォルト）
+   */
+  it('正常系: 配列の置き換え（デフォルト）', () => {
+    const merger = new ConfigMerger();
+
+    expect(merger.merge({ list: [1, 2] }, { list: [3] })).toEqual({ list: [3] });
+  });
+
+  /**
+   * 正常系: 配列の連結
+   */
+  it('正常系: 配列の連結', () => {
+    const merger = new ConfigMerger({ arrayStrategy: 'concat' });
+
+    expect(merger.merge({ list: [1, 2] }, { list: [3] })).toEqual({
+      list: [1, 2, 3],
+    });
+  });
+
+  /**
+   * 正常系: 識別キーによる配列マージ
+   */
+  it('正常系: 識別キーによる配列マージ', () => {
+    const merger = new ConfigMerger({
+      arrayStrategy: 'mergeByKey',
+      mergeKey: 'name',
+    });
+    const base = {
+      servers: [
+        { name: 'a', port: 1 },
+        { name: 'b', port: 2 },
+      ],
+    };
+    const override = {
+      servers: [{ name: 'b', port: 20 }, { name: 'c', port: 3 }, 'plain'],
+    };
+
+    expect(merger.merge(base, override)).toEqual({
+      servers: [
+        { name: 'a', port: 1 },
+        { name: 'b', port: 20 },
+        { name: 'c', port: 3 },
+        'plain',
+      ],
+    });
+  });
+
+  /**
+   * 正常系: シリアライズ済み特殊値は丸ごと置き換える
+   */
+  it('正常系: シリアライズ済み特殊値は丸ごと置き換える', () => {
+    const merger = new ConfigMerger();
+    const base = {
+      password: { type: 'Secret', iv: 'aa', hex: 'bb' },
+      host: { type: 'Env', name: 'HOST', default: 'localhost' },
+    };
+    const override = {
+      password: { type: 'Secret', iv: 'cc', hex: 'dd' },
+      host: { type: 'Env', name: 'DB_HOST' },
+    };
+
+    expect(merger.merge(base, override)).toEqual(override);
+  });
+
+  /**
+   * 正常系: 複数レイヤーのマージ
+   */
+  it('正常系: 複数レイヤーのマージ', () => {
+    const merger = new ConfigMerger();
+
+    const result = merger.mergeAll([
+      { a: 1, b: { c: 1 } },
+      { b: { d: 2 } },
+      { a: 3 },
+    ]);
+
+    expect(result).toEqual({ a: 3, b: { c: 1, d: 2 } });
+    expect(merger.mergeAll([])).toEqual({});
+  });
+
+  /**
+   * 異常系: __proto__やObject.prototypeのプロパティ名をキーに持つレイヤーのマージ
+   */
+  it('異常系: __proto__やObject.prototypeのプロパティ名をキーに持つレイヤーのマージ', () => {
+    const merger = new ConfigMerger();
+
+    const result = merger.mergeAll([
+      { a: 1 },
+      JSON.parse('{"__proto__": {"polluted": "yes"}, "toString": {"b": 1}}'),
+      JSON.parse('{"__proto__": {"other": 1}, "constructor": "x"}'),
+    ]) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(result.polluted).toBeUndefined();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(JSON.stringify(result)).toBe(
+      '{"a":1,"__proto__":{"polluted":"yes","other":1},"toString":{"b":1},"constructor":"x"}'
+    );
+  });
+});
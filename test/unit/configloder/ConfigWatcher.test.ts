@@ -0,0 +1,167 @@
+/**
+ * 処理名: ConfigWatcher ユニットテスト
+ *
+ * 処理概要:
+ * ConfigWatcherクラスのファイル監視・差分通知をテストする
+ *
+ * 実装理由:
+ * 再読み込み時の差分イベントと、読み込みエラー時の設定保持を検証するため
+ */
+
+import { ConfigWatcher, ConfigChangeEvent } from '../../../src/configloder/ConfigWatcher';
+import { DifferenceEvent } from '../../../src/configloder/FindDifferences';
+import { Serializer } from '../../../src/configloder/Serializer';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ConfigWatcher', () => {
+  let tempDir: string;
+  let watcher: ConfigWatcher | null;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'configwatcher-'));
+    watcher = null;
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * 正常系: ファイル変更時の差分イベント発行
+   */
+  it('正常系: ファイル変更時の差分イベント発行', async () => {
+    const configPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ key: 'value', other: 1 }));
+    watcher = new ConfigWatcher(configPath, { debounce: 20 });
+    const differences: DifferenceEvent[] = [];
+    watcher.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    await expect(watcher.start()).resolves.toEqual({ key: 'value', other: 1 });
+    const changed = new Promise<ConfigChangeEvent>((resolve) => {
+      watcher?.on('changed', resolve);
+    });
+    // 連続した保存は1回の再読み込みにまとめられる
+    fs.writeFileSync(configPath, JSON.stringify({ key: 'first', other: 1 }));
+    fs.writeFileSync(configPath, JSON.stringify({ key: 'second', other: 1 }));
+
+    const change = await changed;
+
+    expect(change.differences).toEqual([
+      { type: 'modified', path: 'key', segments: ['key'] },
+    ]);
+    expect(differences).toEqual(change.differences);
+    expect(change.previous).toEqual({ key: 'value', other: 1 });
+    expect(change.config).toEqual({ key: 'second', other: 1 });
+    expect(watcher.getConfig()).toEqual({ key: 'second', other: 1 });
+  });
+
+  /**
+   * 正常系: 階層化されたファイルのデシリアライズと差分検出
+   */
+  it('正常系: 階層化されたファイルのデシリアライズと差分検出', async () => {
+    const basePath = path.join(tempDir, 'default.yaml');
+    const localPath = path.join(tempDir, 'local.json');
+    fs.writeFileSync(basePath, 'filter:\n  type: RegExp\n  source: foo\n  flags: i\nport: 80\n');
+    watcher = new ConfigWatcher([basePath, { path: localPath, optional: true }], {
+      serializer: new Serializer(Serializer.generatekey('test-password')),
+    });
+    const changes: ConfigChangeEvent[] = [];
+    watcher.on('changed', (change: ConfigChangeEvent) => changes.push(change));
+    const initial = (await watcher.start()) as Record<string, unknown>;
+    expect(initial.filter).toEqual(/foo/i);
+
+    fs.writeFileSync(localPath, JSON.stringify({ filter: { type: 'RegExp', source: 'bar', flags: 'i' } }));
+    await watcher.reload();
+    // 変更が無い場合は'changed'イベントを発行しない
+    await watcher.reload();
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].differences).toEqual([
+      { type: 'modified', path: 'filter', segments: ['filter'] },
+    ]);
+    expect((watcher.getConfig() as Record<string, unknown>).filter).toEqual(/bar/i);
+  });
+
+  /**
+   * 異常系: 読み込みエラー時は直前の正常な設定を保持
+   */
+  it('異常系: 読み込みエラー時は直前の正常な設定を保持', async () => {
+    const configPath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(configPath, 'key: value\n');
+    watcher = new ConfigWatcher(configPath, { debounce: 10000 });
+    const errors: unknown[] = [];
+    watcher.on('error', (error: unknown) => errors.push(error));
+    await watcher.start();
+
+    fs.writeFileSync(configPath, 'key: [unclosed\n');
+    await watcher.reload();
+
+    expect(errors).toHaveLength(1);
+    expect(String(errors[0])).toContain('readConfig error');
+    expect(watcher.getConfig()).toEqual({ key: 'value' });
+  });
+
+  /**
+   * 正常系: 存在しないディレクトリのoptionalなレイヤーの監視
+   */
+  it('正常系: 存在しないディレクトリのoptionalなレイヤーの監視', async () => {
+    const basePath = path.join(tempDir, 'config.json');
+    const localPath = path.join(tempDir, 'local', 'override.json');
+    fs.writeFileSync(basePath, '{"port":80}');
+    watcher = new ConfigWatcher([basePath, { path: localPath, optional: true }], { debounce: 20 });
+
+    await expect(watcher.start()).resolves.toEqual({ port: 80 });
+    const changed = new Promise<ConfigChangeEvent>((resolve) => {
+      watcher?.on('changed', resolve);
+    });
+    fs.mkdirSync(path.dirname(localPath));
+    fs.writeFileSync(localPath, '{"port":8080}');
+
+    expect((await changed).config).toEqual({ port: 8080 });
+  });
+
+  /**
+   * 正常系: 再読み込み中のclose
+   */
+  it('正常系: 再読み込み中のclose', async () => {
+    const configPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configPath, '{"count":0}');
+    watcher = new ConfigWatcher(configPath, { debounce: 10000 });
+    const events: string[] = [];
+    watcher.on('changed', () => events.push('changed'));
+    watcher.on('error', () => events.push('error'));
+    await watcher.start();
+
+    fs.writeFileSync(configPath, '{"count":1}');
+    const reloading = watcher.reload();
+    watcher.close();
+    await reloading;
+    await watcher.reload();
+
+    expect(events).toEqual([]);
+    expect(watcher.getConfig()).toEqual({ count: 0 });
+  });
+
+  /**
+   * 正常系: 再読み込み中の再読み込み要求
+   */
+  it('正常系: 再読み込み中の再読み込み要求', async () => {
+    const configPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configPath, '{"count":0}');
+    watcher = new ConfigWatcher(configPath, { debounce: 10000 });
+    await watcher.start();
+
+    fs.writeFileSync(configPath, '{"count":1}');
+    const first = watcher.reload();
+    fs.writeFileSync(configPath, '{"count":2}');
+    const second = watcher.reload();
+    await Promise.all([first, second]);
+
+    expect(watcher.getConfig()).toEqual({ count: 2 });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 処理名: EnvOverrides ユニットテスト
+ *
+ * 処理概要:
+ * EnvOverridesクラスの環境変数による入れ子のキー・配列要素の上書き、型変換、上書きしたキーの報告をテストする
+ *
+ * 実装理由:
+ * 環境変数が既存のキーに照合され、既存の値の型に変換されて上書きされることを検証するため
+ */
+
+import { EnvOverrides } from '../../../src/configloder/EnvOverrides';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('EnvOverrides', () => {
+  const config = {
+    database: { pool: { max: 10 }, maxConnections: 5, host: 'localhost', ssl: false, proxy: null },
+    servers: [{ host: 'a' }, { host: 'b' }],
+    tags: ['x'],
+    pattern: /^a/i,
+    magic: Buffer.from('00', 'hex'),
+  };
+
+  /**
+   * 正常系: 入れ子のキー・配列要素の上書き
+   */
+  it('正常系: 入れ子のキー・配列要素の上書き', () => {
+    const env = {
+      APP__DATABASE__POOL__MAX: '20',
+      APP__DATABASE__MAX_CONNECTIONS: '8',
+      APP__DATABASE__SSL: 'on',
+      APP__DATABASE__PROXY: 'http://proxy:3128',
+      APP__SERVERS__1__HOST: 'c',
+      APP__TAGS: '["y", "z"]',
+      APP__PATTERN: '^b',
+      APP__MAGIC: '7F45',
+      APP__UNKNOWN__KEY: 'v',
+      APP__SERVERS__5__HOST: 'd',
+      OTHER__DATABASE__HOST: 'ignored',
+    };
+
+    const result = new EnvOverrides({ prefix: 'APP', env }).apply(config);
+
+    expect(result.data).toEqual({
+      database: { pool: { max: 20 }, maxConnections: 8, host: 'localhost', ssl: true, proxy: 'http://proxy:3128' },
+      servers: [{ host: 'a' }, { host: 'c' }],
+      tags: ['y', 'z'],
+      pattern: /^b/i,
+      magic: Buffer.from('7f45', 'hex'),
+    });
+    expect(result.overridden.map(({ variable, path }) => [variable, path.join('.')])).toEqual([
+      ['APP__DATABASE__MAX_CONNECTIONS', 'database.maxConnections'],
+      ['APP__DATABASE__POOL__MAX', 'database.pool.max'],
+      ['APP__DATABASE__PROXY', 'database.proxy'],
+      ['APP__DATABASE__SSL', 'database.ssl'],
+      ['APP__MAGIC', 'magic'],
+      ['APP__PATTERN', 'pattern'],
+      ['APP__SERVERS__1__HOST', 'servers.1.host'],
+      ['APP__TAGS', 'tags'],
+    ]);
+    expect(result.overridden[1]).toMatchObject({ previous: 10, value: 20 });
+    expect(result.unmatched).toEqual(['APP__SERVERS__5__HOST', 'APP__UNKNOWN__KEY']);
+    expect(config.database.pool.max).toBe(10);
+    expect(config.servers[1].host).toBe('b');
+  });
+
+  /**
+   * 正常系: 区切り文字の指定とシリアライズ済みの値の扱い
+   */
+  it('正常系: 区切り文字の指定とシリアライズ済みの値の扱い', () => {
+    const serialized = { db: { host: 'h', password: { type: 'Env', name: 'DB_PASSWORD' } } };
+
+    const result = new EnvOverrides({ prefix: 'svc', separator: '_', env: { svc_db_host: 'db' } }).apply(serialized);
+
+    expect(result.data).toEqual({ db: { host: 'db', password: { type: 'Env', name: 'DB_PASSWORD' } } });
+    expect(() => new EnvOverrides({ prefix: '' })).toThrow('prefix is required');
+  });
+
+  /**
+   * 異常系: 変換できない値のまとめての通知
+   */
+  it('異常系: 変換できない値のまとめての通知', () => {
+    const env = {
+      APP__DATABASE__POOL__MAX: 'many',
+      APP__DATABASE__SSL: 'maybe',
+      APP__SECRET: 'value',
+      APP__PORT: '1',
+      APP__MAGIC: 'xyz',
+      APP__PATTERN: '(',
+    };
+    const data = { ...config, secret: { type: 'Secret', hex: '00' }, port: 80, Port: 81 };
+
+    expect(() => new EnvOverrides({ prefix: 'APP', env }).apply(data)).toThrow(
+      [
+        'invalid environment overrides:',
+        '  - APP__DATABASE__POOL__MAX (at database.pool.max) is not a number',
+        '  - APP__DATABASE__SSL (at database.ssl) is not a boolean (true/false, 1/0, yes/no, on/off)',
+        '  - APP__MAGIC (at magic) is not a hex string',
+        '  - APP__PATTERN (at pattern) is not a valid regular expression',
+        '  - APP__PORT matches more than one key (port, Port)',
+        '  - APP__SECRET (at secret) targets Secret (not deserialized), which cannot be overridden',
+      ].join('\n')
+    );
+    expect(Serializer.coerceEnv('a,b', 'list')).toEqual(['a', 'b']);
+    for (const raw of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      expect(() => Serializer.coerceEnv(raw, 'boolean')).toThrow('is not a boolean');
+      expect(() => new EnvOverrides({ prefix: 'APP', env: { APP__DATABASE__SSL: raw } }).apply(config)).toThrow(
+        'APP__DATABASE__SSL (at database.ssl) is not a boolean'
+      );
+    }
+  });
+});
@@ -8,7 +8,7 @@
  * ハッシュツリーベースの差分検出アルゴリズムが正しく動作することを検証するため
  */
 
-import { FindDifferences } from '../../../src/configloder/FindDifferences';
+import { FindDifferences, DifferenceEvent } from '../../../src/configloder/FindDifferences';
 
 describe('FindDifferences', () => {
   let finder: FindDifferences;
@@ -146,4 +146,198 @@ describe('FindDifferences', () => {
     const tree2 = finder.detectChanges(initialData);
     expect(tree2.__hash).toBe(tree.__hash);
   });
+
+  /**
+   * 正常系: パスのセグメント配列（ドットを含むキー）
+   */
+  it('正常系: パスのセグメント配列（ドットを含むキー）', () => {
+    finder.initialize({ hosts: { 'db.example.com': { port: 5432 } } });
+    const differences: DifferenceEvent[] = [];
+    finder.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    finder.detectChanges({ hosts: { 'db.example.com': { port: 6432 } } });
+
+    expect(differences).toEqual([
+      {
+        type: 'modified',
+        path: 'hosts.db.example.com.port',
+        segments: ['hosts', 'db.example.com', 'port'],
+      },
+    ]);
+  });
+
+  /**
+   * 正常系: 変更前後の値の通知
+   */
+  it('正常系: 変更前後の値の通知', () => {
+    const tracker = new FindDifferences({ trackValues: true });
+    const initialData = { key: 'old', removeMe: { a: 1 }, nested: { list: [1, 2] } };
+    tracker.initialize(initialData);
+    const differences: DifferenceEvent[] = [];
+    tracker.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+    // 呼び出し元でのデータ変更は前回のデータに影響しない
+    initialData.key = 'mutated';
+
+    tracker.detectChanges({ key: 'new', nested: { list: [1, 3] }, added: true });
+    tracker.detectChanges({ key: 'newer', nested: { list: [1, 3] }, added: true });
+
+    expect(
+      differences.map(({ type, path, oldValue, newValue }) => ({ type, path, oldValue, newValue }))
+    ).toEqual([
+      { type: 'modified', path: 'key', oldValue: 'old', newValue: 'new' },
+      { type: 'modified', path: 'nested.list.1', oldValue: 2, newValue: 3 },
+      { type: 'removed', path: 'removeMe', oldValue: { a: 1 }, newValue: undefined },
+      { type: 'added', path: 'added', oldValue: undefined, newValue: true },
+      { type: 'modified', path: 'key', oldValue: 'new', newValue: 'newer' },
+    ]);
+  });
+
+  /**
+   * 正常系: 配列先頭への挿入（sequenceモード）
+   */
+  it('正常系: 配列先頭への挿入（sequenceモード）', () => {
+    const sequenceFinder = new FindDifferences({ arrayDiff: 'sequence' });
+    const allowList = Array.from({ length: 500 }, (_v, i) => `host${i}`);
+    sequenceFinder.initialize({ allowList });
+    const differences: DifferenceEvent[] = [];
+    sequenceFinder.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    sequenceFinder.detectChanges({ allowList: ['new-host', ...allowList] });
+
+    expect(differences).toEqual([
+      { type: 'added', path: 'allowList.0', segments: ['allowList', '0'] },
+    ]);
+  });
+
+  /**
+   * 正常系: 共通部分列を求める上限を超える配列の対応付け（sequenceモード）
+   */
+  it('正常系: 共通部分列を求める上限を超える配列の対応付け（sequenceモード）', () => {
+    const sequenceFinder = new FindDifferences({ arrayDiff: 'sequence' });
+    const hosts = Array.from({ length: 3000 }, (_v, i) => `host${i}`);
+    sequenceFinder.initialize({ hosts });
+    const differences: DifferenceEvent[] = [];
+    sequenceFinder.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    // 先頭と末尾が入れ替わると一致部分を除けないため、3000 × 3000 の範囲を同じ位置の要素で対応付ける
+    const changed = [hosts[2999], ...hosts.slice(1, 2999), hosts[0]];
+    changed[1500] = 'new-host';
+    sequenceFinder.detectChanges({ hosts: changed });
+
+    expect(differences.map(({ type, path, fromPath }) => ({ type, path, fromPath }))).toEqual([
+      { type: 'removed', path: 'hosts.1500', fromPath: undefined },
+      { type: 'moved', path: 'hosts.0', fromPath: 'hosts.2999' },
+      { type: 'added', path: 'hosts.1500', fromPath: undefined },
+      { type: 'moved', path: 'hosts.2999', fromPath: 'hosts.0' },
+    ]);
+
+    // 同じ位置で一致しない要素は、最長共通部分列を求めずに移動として対応付ける
+    const shiftFinder = new FindDifferences({ arrayDiff: 'sequence' });
+    shiftFinder.initialize({ hosts });
+    const shifted: DifferenceEvent[] = [];
+    shiftFinder.on('difference', (diff: DifferenceEvent) => shifted.push(diff));
+    shiftFinder.detectChanges({ hosts: ['first', ...hosts.slice(0, 2999), 'last'] });
+    const counts = shifted.reduce(
+      (total: Record<string, number>, { type }) => ({ ...total, [type]: (total[type] || 0) + 1 }),
+      {}
+    );
+    expect(counts).toEqual({ removed: 1, added: 2, moved: 2999 });
+  });
+
+  /**
+   * 正常系: 配列要素の削除・移動（sequenceモード）
+   */
+  it('正常系: 配列要素の削除・移動（sequenceモード）', () => {
+    const sequenceFinder = new FindDifferences({ arrayDiff: 'sequence', trackValues: true });
+    sequenceFinder.initialize({ list: ['a', 'b', 'c', 'd'] });
+    const differences: DifferenceEvent[] = [];
+    sequenceFinder.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    sequenceFinder.detectChanges({ list: ['d', 'a', 'c'] });
+
+    expect(differences).toEqual([
+      {
+        type: 'removed',
+        path: 'list.1',
+        segments: ['list', '1'],
+        oldValue: 'b',
+        newValue: undefined,
+      },
+      {
+        type: 'moved',
+        path: 'list.0',
+        segments: ['list', '0'],
+        fromPath: 'list.3',
+        fromSegments: ['list', '3'],
+        oldValue: 'd',
+        newValue: 'd',
+      },
+    ]);
+  });
+
+  /**
+   * 正常系: 識別キーによる配列要素の対応付け（sequenceモード）
+   */
+  it('正常系: 識別キーによる配列要素の対応付け（sequenceモード）', () => {
+    const sequenceFinder = new FindDifferences({
+      arrayDiff: 'sequence',
+      arrayKey: 'id',
+      trackValues: true,
+    });
+    sequenceFinder.initialize({
+      users: [
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'bob' },
+      ],
+    });
+    const differences: DifferenceEvent[] = [];
+    sequenceFinder.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+    sequenceFinder.detectChanges({
+      users: [
+        { id: 0, name: 'zed' },
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'robert' },
+      ],
+    });
+    // 更新後のハッシュツリーが次回検出の基準になる
+    sequenceFinder.detectChanges({
+      users: [
+        { id: 0, name: 'zed' },
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'robert' },
+      ],
+    });
+
+    expect(
+      differences.map(({ type, path, oldValue, newValue }) => ({ type, path, oldValue, newValue }))
+    ).toEqual([
+      {
+        type: 'added',
+        path: 'users.0',
+        oldValue: undefined,
+        newValue: { id: 0, name: 'zed' },
+      },
+      { type: 'modified', path: 'users.2.name', oldValue: 'bob', newValue: 'robert' },
+    ]);
+  });
+
+  /**
+   * 正常系: オブジェクト・配列・それ以外の値の間で種類が変わった値の検出
+   */
+  it('正常系: オブジェクト・配列・それ以外の値の間で種類が変わった値の検出', () => {
+    for (const differ of [new FindDifferences(), new FindDifferences({ arrayDiff: 'sequence' })]) {
+      differ.initialize({ a: 1, b: [], c: { x: 1 }, d: [[]] });
+      const differences: DifferenceEvent[] = [];
+      differ.on('difference', (diff: DifferenceEvent) => differences.push(diff));
+
+      differ.detectChanges({ a: { b: 1 }, b: {}, c: 'x', d: [[]] });
+
+      expect(differences.map(({ type, path }) => ({ type, path }))).toEqual([
+        { type: 'modified', path: 'a' },
+        { type: 'modified', path: 'b' },
+        { type: 'modified', path: 'c' },
+      ]);
+    }
+  });
 });
@@ -0,0 +1,97 @@
+/**
+ * 処理名: FormatRegistry ユニットテスト
+ *
+ * 処理概要:
+ * FormatRegistryクラスの形式の登録・判定と、ConfigLoderでの形式の強制指定・独自形式をテストする
+ *
+ * 実装理由:
+ * 拡張子と形式の対応を利用者が変更・追加できることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigFormat, FormatRegistry } from '../../../src/configloder/FormatRegistry';
+import { ConfigLoder } from '../../../src/configloder/ConfigLoder';
+
+describe('FormatRegistry', () => {
+  const INI_FORMAT: ConfigFormat = {
+    name: 'ini',
+    extensions: ['.ini'],
+    parse: (content) =>
+      JSON.stringify(
+        Object.fromEntries(
+          content
+            .split(/\r?\n/)
+            .filter((line) => line.includes('='))
+            .map((line) => line.split('=').map((part) => part.trim()))
+        )
+      ),
+    stringify: (data) =>
+      Object.entries(data as Record<string, unknown>)
+        .map(([key, value]) => `${key} = ${value}`)
+        .join('\n'),
+  };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'formatregistry-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: 拡張子・形式名による判定
+   */
+  it('正常系: 拡張子・形式名による判定', () => {
+    const registry = FormatRegistry.createDefault();
+
+    expect(registry.names()).toEqual(['json', 'json5', 'jsonc', 'yaml', 'toml']);
+    expect(registry.resolve('a/config.YML').name).toBe('yaml');
+    expect(registry.resolve('config.jsonc').name).toBe('jsonc');
+    expect(registry.resolve('config.json5').name).toBe('json5');
+    expect(registry.resolve('config.conf').name).toBe('json');
+    expect(registry.resolve('config.json', 'toml').name).toBe('toml');
+    expect(() => registry.resolve('config.json', 'xml')).toThrow("unknown config format 'xml'");
+    expect(() => new FormatRegistry().resolve('config.json')).toThrow("unknown config format 'json'");
+  });
+
+  /**
+   * 正常系: 整形オプションの変更
+   */
+  it('正常系: 整形オプションの変更', () => {
+    const registry = FormatRegistry.createDefault()
+      .configure('json', { indent: 4 })
+      .configure('yaml', { lineWidth: -1 });
+    const loader = new ConfigLoder(false, { formats: registry });
+    const long = 'word '.repeat(30).trim();
+
+    expect(loader.toJsonText({ a: 1 })).toBe('{\n    "a": 1\n}');
+    expect(loader.toYamlText({ long })).toBe(`long: ${long}\n`);
+    expect(new ConfigLoder().toYamlText({ long })).not.toBe(`long: ${long}\n`);
+  });
+
+  /**
+   * 正常系: 独自形式の登録と形式の強制指定
+   */
+  it('正常系: 独自形式の登録と形式の強制指定', async () => {
+    const loader = new ConfigLoder().registerFormat(INI_FORMAT);
+    const iniPath = path.join(tempDir, 'app.ini');
+    const yamlAsTxt = path.join(tempDir, 'app.txt');
+    fs.writeFileSync(yamlAsTxt, 'name: app\nport: 80\n');
+
+    loader.writeConfigSync(iniPath, { name: 'app', port: 80 });
+    await loader.writeConfig(path.join(tempDir, 'out.txt'), { name: 'x' }, { format: 'yaml' });
+
+    expect(fs.readFileSync(iniPath, 'utf8')).toBe('name = app\nport = 80');
+    expect(JSON.parse(loader.readConfigSync(iniPath))).toEqual({ name: 'app', port: '80' });
+    expect(JSON.parse(await loader.readConfig(yamlAsTxt, { format: 'yaml' }))).toEqual({ name: 'app', port: 80 });
+    expect(fs.readFileSync(path.join(tempDir, 'out.txt'), 'utf8')).toBe('name: x\n');
+    expect(loader.readLayersSync([{ path: yamlAsTxt, format: 'yaml' }, iniPath])).toEqual({
+      name: 'app',
+      port: '80',
+    });
+  });
+});
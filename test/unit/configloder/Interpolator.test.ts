@@ -0,0 +1,103 @@
+/**
+ * 処理名: Interpolator ユニットテスト
+ *
+ * 処理概要:
+ * Interpolatorクラスの設定内の参照・環境変数の展開、循環参照の検出、Secretの内容の扱いをテストする
+ *
+ * 実装理由:
+ * 参照先の参照まで展開され、循環参照が経路付きで通知され、復号したSecretが既定で展開されないことを検証するため
+ */
+
+import { Interpolator } from '../../../src/configloder/Interpolator';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('Interpolator', () => {
+  const env = { APP_HOME: '/opt/app', EMPTY: '' };
+  const interpolator = new Interpolator({ env });
+
+  /**
+   * 正常系: 設定内の参照と環境変数の展開
+   */
+  it('正常系: 設定内の参照と環境変数の展開', () => {
+    const data = {
+      host: 'db.internal',
+      port: 5432,
+      paths: { base: '${env:APP_HOME}', logs: '${paths.base}/logs', cache: '${paths.tmp}/cache', tmp: '${paths.base}/tmp' },
+      url: 'postgres://${host}:${port}/app',
+      mirror: '${port}',
+      replicas: [{ host: '${host}' }, '${replicas[0].host}'],
+      region: '${env:REGION:-eu-west-1}',
+      empty: '${env:EMPTY:-fallback}',
+      literal: 'cost: $${price}',
+      defaults: { timeout: 30 },
+      copy: '${defaults}',
+    };
+
+    const resolved = interpolator.resolve(data);
+
+    expect(resolved).toEqual({
+      ...data,
+      paths: { base: '/opt/app', logs: '/opt/app/logs', cache: '/opt/app/tmp/cache', tmp: '/opt/app/tmp' },
+      url: 'postgres://db.internal:5432/app',
+      mirror: 5432,
+      replicas: [{ host: 'db.internal' }, 'db.internal'],
+      region: 'eu-west-1',
+      empty: 'fallback',
+      literal: 'cost: ${price}',
+      copy: { timeout: 30 },
+    });
+    expect(data.paths.logs).toBe('${paths.base}/logs');
+  });
+
+  /**
+   * 異常系: 循環参照
+   */
+  it('異常系: 循環参照', () => {
+    expect(() => interpolator.resolve({ a: '${b}', b: 'x${c}', c: '${a}' })).toThrow(
+      'circular reference: a -> b -> c -> a'
+    );
+    expect(() => interpolator.resolve({ self: { name: 'n', copy: '${self}' } })).toThrow(
+      'circular reference: self -> self.copy -> self'
+    );
+  });
+
+  /**
+   * 異常系: 存在しない参照先・環境変数と埋め込めない値
+   */
+  it('異常系: 存在しない参照先・環境変数と埋め込めない値', () => {
+    expect(() => interpolator.resolve({ db: { url: '${db.host}' } })).toThrow("unresolved reference 'db.host' at db.url");
+    expect(() => interpolator.resolve({ list: [1], n: '${list.length}' })).toThrow("unresolved reference 'list.length'");
+    expect(() => interpolator.resolve({ a: '${env:MISSING}' })).toThrow(
+      'environment variable MISSING is not set (referenced at a)'
+    );
+    expect(() => interpolator.resolve({ db: {}, url: 'x${db}' })).toThrow(
+      "cannot embed object from 'db' into the string at url"
+    );
+    expect(() => interpolator.resolve({ a: '${b..c}' })).toThrow("invalid path 'b..c': empty segment at position 2");
+  });
+
+  /**
+   * 正常系: 復号したSecretの内容の扱い
+   */
+  it('正常系: 復号したSecretの内容の扱い', () => {
+    const serializer = new Serializer(Serializer.generatekey('interpolator'));
+    const json = JSON.stringify(
+      serializer.serializeObject(
+        'module.exports = { user: "admin", password: new Secret("p${user}"), ' +
+          'db: new Secret({ dsn: "${user}@db" }), copy: "${password}", home: new Env({ name: "HOME" }) };'
+      )
+    );
+
+    expect(Interpolator.findSecretPaths(JSON.parse(json))).toEqual([['password'], ['db']]);
+    expect(interpolator.deserialize(serializer, json)).toMatchObject({
+      password: 'p${user}',
+      db: { dsn: '${user}@db' },
+      copy: 'p${user}',
+    });
+    expect(new Interpolator({ env, expandSecrets: true }).deserialize(serializer, json)).toMatchObject({
+      password: 'padmin',
+      db: { dsn: 'admin@db' },
+      copy: 'padmin',
+    });
+  });
+});
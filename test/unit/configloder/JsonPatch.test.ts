@@ -0,0 +1,262 @@
+/**
+ * 処理名: JsonPatch ユニットテスト
+ *
+ * 処理概要:
+ * JsonPatchクラスのパッチ生成・適用をテストする
+ *
+ * 実装理由:
+ * 生成したパッチを変更前に適用すると変更後と一致すること、
+ * および適用が原子的に行われることを検証するため
+ */
+
+import { JsonPatch, PatchOperation } from '../../../src/configloder/JsonPatch';
+
+describe('JsonPatch', () => {
+  let jsonPatch: JsonPatch;
+
+  beforeEach(() => {
+    jsonPatch = new JsonPatch();
+  });
+
+  /**
+   * 正常系: オブジェクトの追加・削除・置換
+   */
+  it('正常系: オブジェクトの追加・削除・置換', () => {
+    const before = { a: 1, b: { c: 'x', 'd/e': 2 }, removed: true };
+    const after = { a: 2, b: { c: 'x', 'd/e': 3 }, added: { f: [1] } };
+
+    const patch = jsonPatch.generate(before, after);
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'replace', path: '/b/d~1e', value: 3 },
+      { op: 'remove', path: '/removed' },
+      { op: 'add', path: '/added', value: { f: [1] } },
+    ]);
+    expect(jsonPatch.apply(before, patch)).toEqual(after);
+  });
+
+  /**
+   * 正常系: 配列要素の挿入・削除・移動
+   */
+  it('正常系: 配列要素の挿入・削除・移動', () => {
+    const before = { list: ['a', 'b', 'c', 'd', 'e'] };
+    const after = { list: ['new', 'e', 'a', 'c', 'd'] };
+
+    const patch = jsonPatch.generate(before, after);
+
+    expect(patch).toEqual([
+      { op: 'remove', path: '/list/1' },
+      { op: 'add', path: '/list/0', value: 'new' },
+      { op: 'move', from: '/list/4', path: '/list/1' },
+    ]);
+    expect(jsonPatch.apply(before, patch)).toEqual(after);
+  });
+
+  /**
+   * 正常系: オブジェクトと配列が入れ替わった値の置換
+   */
+  it('正常系: オブジェクトと配列が入れ替わった値の置換', () => {
+    const cases = [
+      [{ a: { b: 1 }, c: 1 }, { a: [1], c: 2 }],
+      [{ a: [1, 2] }, { a: { b: 1 } }],
+      [{ list: [{ x: { y: 1 } }, 'k'] }, { list: ['k', { x: ['y', 'z'] }] }],
+    ];
+
+    for (const [before, after] of cases) {
+      expect(jsonPatch.apply(before, jsonPatch.generate(before, after))).toEqual(after);
+    }
+    expect(jsonPatch.generate(cases[0][0], cases[0][1])).toEqual([
+      { op: 'replace', path: '/a', value: [1] },
+      { op: 'replace', path: '/c', value: 2 },
+    ]);
+    expect(jsonPatch.generate(cases[1][0], cases[1][1])).toEqual([{ op: 'replace', path: '/a', value: { b: 1 } }]);
+  });
+
+  /**
+   * 正常系: オブジェクト・配列・それ以外の値の間で種類が変わった値の置換
+   */
+  it('正常系: オブジェクト・配列・それ以外の値の間で種類が変わった値の置換', () => {
+    const keyed = new JsonPatch({ arrayKey: 'id' });
+    const before = { r: [{ id: 1, v: 1 }, { id: 2, v: [1] }, { id: 3, v: { x: 1 } }] };
+    const after = { r: [{ id: 3, v: { x: 1 } }, { id: 1, v: 1 }, { id: 2, v: { x: 1 } }] };
+
+    expect(jsonPatch.generate({ a: 1 }, { a: { b: 1 } })).toEqual([{ op: 'replace', path: '/a', value: { b: 1 } }]);
+    expect(jsonPatch.generate({ r: 2 }, { r: [] })).toEqual([{ op: 'replace', path: '/r', value: [] }]);
+    expect(jsonPatch.generate({ a: [] }, { a: {} })).toEqual([{ op: 'replace', path: '/a', value: {} }]);
+    expect(jsonPatch.generate({ a: [[]] }, { a: [{}] })).toEqual([
+      { op: 'remove', path: '/a/0' },
+      { op: 'add', path: '/a/0', value: {} },
+    ]);
+    expect(keyed.generate(before, after)).toEqual([
+      { op: 'move', from: '/r/2', path: '/r/0' },
+      { op: 'replace', path: '/r/2/v', value: { x: 1 } },
+    ]);
+    expect(keyed.apply(before, keyed.generate(before, after))).toEqual(after);
+  });
+
+  /**
+   * 正常系: 生成したパッチの適用結果が変更後と一致する（ランダムな値の組み合わせ）
+   */
+  it('正常系: 生成したパッチの適用結果が変更後と一致する（ランダムな値の組み合わせ）', () => {
+    // 再現性のため、シード固定の線形合同法で値を生成する
+    let seed = 20240601;
+    const random = (limit: number): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % limit;
+    };
+    const randomValue = (depth: number): unknown => {
+      const kind = random(depth > 0 ? 7 : 4);
+      if (kind === 0) return random(3);
+      if (kind === 1) return ['x', 'y'][random(2)];
+      if (kind === 2) return null;
+      if (kind === 3) return [[], {}][random(2)];
+      if (kind === 4) return Array.from({ length: random(4) }, () => randomValue(depth - 1));
+      if (kind === 5) return { id: random(3), v: randomValue(depth - 1) };
+      return Object.fromEntries(['a', 'b', 'c'].filter(() => random(2)).map((key) => [key, randomValue(depth - 1)]));
+    };
+    const randomDocument = (): Record<string, unknown> => ({ a: randomValue(3), b: randomValue(3) });
+
+    for (const patcher of [jsonPatch, new JsonPatch({ arrayKey: 'id' })]) {
+      for (let count = 0; count < 200; count++) {
+        const before = randomDocument();
+        const after = randomDocument();
+        expect(patcher.apply(before, patcher.generate(before, after))).toEqual(after);
+      }
+    }
+  });
+
+  /**
+   * 正常系: 識別キー付き配列の要素内変更と移動
+   */
+  it('正常系: 識別キー付き配列の要素内変更と移動', () => {
+    const keyed = new JsonPatch({ arrayKey: 'id' });
+    const before = {
+      servers: [
+        { id: 'a', port: 1, tags: ['x', 'y'] },
+        { id: 'b', port: 2, tags: [] },
+        { id: 'c', port: 3, tags: ['z'] },
+      ],
+    };
+    const after = {
+      servers: [
+        { id: 'c', port: 30, tags: ['z'] },
+        { id: 'a', port: 1, tags: ['y'] },
+      ],
+    };
+
+    const patch = keyed.generate(before, after);
+
+    expect(keyed.apply(before, patch)).toEqual(after);
+    expect(patch.filter((operation) => operation.op === 'move')).toHaveLength(1);
+  });
+
+  /**
+   * 正常系: シリアライズ済み特殊値は丸ごと置換
+   */
+  it('正常系: シリアライズ済み特殊値は丸ごと置換', () => {
+    const before = { password: { type: 'Secret', iv: '00', hex: '11' } };
+    const after = { password: { type: 'Secret', iv: '22', hex: '33' } };
+
+    expect(jsonPatch.generate(before, after)).toEqual([
+      { op: 'replace', path: '/password', value: { type: 'Secret', iv: '22', hex: '33' } },
+    ]);
+  });
+
+  /**
+   * 正常系: ルートが配列・プリミティブの場合
+   */
+  it('正常系: ルートが配列・プリミティブの場合', () => {
+    expect(jsonPatch.generate([1], [1])).toEqual([]);
+    expect(jsonPatch.generate([1], [2])).toEqual([{ op: 'replace', path: '', value: [2] }]);
+    expect(jsonPatch.apply({ a: 1 }, [{ op: 'replace', path: '', value: 'x' }])).toBe('x');
+  });
+
+  /**
+   * 正常系: 全操作の適用
+   */
+  it('正常系: 全操作の適用', () => {
+    const document = { a: { b: [1, 2] }, c: 'x', 'm~n': 1 };
+    const patch: PatchOperation[] = [
+      { op: 'test', path: '/a', value: { b: [1, 2] } },
+      { op: 'add', path: '/a/b/-', value: 3 },
+      { op: 'add', path: '/a/b/0', value: 0 },
+      { op: 'copy', from: '/a/b', path: '/d' },
+      { op: 'move', from: '/c', path: '/e' },
+      { op: 'replace', path: '/m~0n', value: 2 },
+      { op: 'remove', path: '/a/b/1' },
+    ];
+
+    expect(jsonPatch.apply(document, patch)).toEqual({
+      a: { b: [0, 2, 3] },
+      d: [0, 1, 2, 3],
+      e: 'x',
+      'm~n': 2,
+    });
+    // 入力は変更されない
+    expect(document).toEqual({ a: { b: [1, 2] }, c: 'x', 'm~n': 1 });
+  });
+
+  /**
+   * 異常系: test操作の失敗時は何も適用しない
+   */
+  it('異常系: test操作の失敗時は何も適用しない', () => {
+    const document = { version: 1, value: 'a' };
+    const patch: PatchOperation[] = [
+      { op: 'replace', path: '/value', value: 'b' },
+      { op: 'test', path: '/version', value: 2 },
+    ];
+
+    expect(() => jsonPatch.apply(document, patch)).toThrow(
+      'JSON Patch error: operation 1 (test /version): test failed'
+    );
+    expect(document).toEqual({ version: 1, value: 'a' });
+  });
+
+  /**
+   * 異常系: 適用できない操作
+   */
+  it('異常系: 適用できない操作', () => {
+    const document = { list: [1], obj: { a: 1 } };
+    const invalid: PatchOperation[][] = [
+      [{ op: 'remove', path: '/missing' }],
+      [{ op: 'remove', path: '' }],
+      [{ op: 'add', path: '/list/5', value: 1 }],
+      [{ op: 'add', path: '/missing/child', value: 1 }],
+      [{ op: 'replace', path: 'no-slash', value: 1 }],
+      [{ op: 'move', from: '/obj', path: '/obj/a' }],
+      [{ op: 'unknown', path: '/a' } as unknown as PatchOperation],
+    ];
+
+    invalid.forEach((patch) => {
+      expect(() => jsonPatch.apply(document, patch)).toThrow('JSON Patch error');
+    });
+  });
+
+  /**
+   * 異常系: プロトタイプを経由するパスと継承プロパティへの操作
+   */
+  it('異常系: プロトタイプを経由するパスと継承プロパティへの操作', () => {
+    const document = { obj: { a: 1 } };
+    const unsafe: PatchOperation[] = [
+      { op: 'add', path: '/__proto__/polluted', value: 'yes' },
+      { op: 'add', path: '/obj/constructor/prototype/polluted', value: 'yes' },
+      { op: 'replace', path: '/obj/__proto__', value: { polluted: 'yes' } },
+      { op: 'copy', from: '/obj', path: '/constructor' },
+    ];
+
+    unsafe.forEach((operation) => {
+      expect(() => jsonPatch.apply(document, [operation])).toThrow('unsafe JSON Pointer segment');
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(() => jsonPatch.apply(document, [{ op: 'remove', path: '/obj/toString' }])).toThrow(
+      'path does not exist'
+    );
+    expect(() => jsonPatch.apply(document, [{ op: 'add', path: '/obj/toString/a', value: 1 }])).toThrow(
+      'parent path does not exist'
+    );
+    expect(jsonPatch.apply(document, [{ op: 'add', path: '/obj/toString', value: 1 }])).toEqual({
+      obj: { a: 1, toString: 1 },
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * 処理名: KeyProvider ユニットテスト
+ *
+ * 処理概要:
+ * KeyProviderクラスの鍵ファイル・環境変数・標準入力からの鍵の読み込みと鍵ファイルの書き込みをテストする
+ *
+ * 実装理由:
+ * コマンドライン引数以外の経路で鍵を安全に受け渡せることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyProvider } from '../../../src/configloder/KeyProvider';
+import { Keyring } from '../../../src/configloder/Keyring';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('KeyProvider', () => {
+  const key = Buffer.alloc(32, 7);
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyprovider-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: 鍵ファイルの書き込みと読み込み
+   */
+  it('正常系: 鍵ファイルの書き込みと読み込み', () => {
+    const keyPath = path.join(tempDir, 'config.key');
+    const keyringPath = path.join(tempDir, 'keys.json');
+
+    KeyProvider.writeKeyFile(keyPath, key);
+    KeyProvider.writeKeyFile(keyringPath, new Keyring({ a: key }));
+
+    expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+    expect(KeyProvider.fromFile(keyPath)).toEqual(key);
+    expect((KeyProvider.fromFile(keyringPath) as Keyring).get('a')).toEqual(key);
+    expect(() => KeyProvider.writeKeyFile(keyPath, key)).toThrow('EEXIST');
+  });
+
+  /**
+   * 異常系: 所有者以外に権限がある鍵ファイル
+   */
+  it('異常系: 所有者以外に権限がある鍵ファイル', () => {
+    const keyPath = path.join(tempDir, 'config.key');
+    fs.writeFileSync(keyPath, key.toString('hex'), { mode: 0o644 });
+    fs.chmodSync(keyPath, 0o644);
+
+    expect(() => KeyProvider.fromFile(keyPath)).toThrow(
+      `key file ${keyPath} is accessible by other users (mode 644); run chmod 600 ${keyPath}`
+    );
+  });
+
+  /**
+   * 正常系: 環境変数・標準入力からの読み込み
+   */
+  it('正常系: 環境変数・標準入力からの読み込み', () => {
+    const inputPath = path.join(tempDir, 'stdin');
+    fs.writeFileSync(inputPath, `${key.toString('hex')}\n`);
+    const fd = fs.openSync(inputPath, 'r');
+
+    try {
+      expect(KeyProvider.fromStdin(fd)).toEqual(key);
+    } finally {
+      fs.closeSync(fd);
+    }
+    expect(KeyProvider.fromEnv('CONFIG_KEY', { CONFIG_KEY: key.toString('hex') })).toEqual(key);
+    expect(() => KeyProvider.fromEnv('CONFIG_KEY', {})).toThrow('environment variable CONFIG_KEY is not set');
+    expect(() => KeyProvider.parse('xyz', 'stdin')).toThrow(
+      'invalid key from stdin: expected 64 hex characters or a keyring JSON'
+    );
+    expect(() => KeyProvider.parse('{"keys": 1}', 'stdin')).toThrow('invalid key from stdin');
+  });
+
+  /**
+   * 正常系: 取得元を指定したSerializerの生成
+   */
+  it('正常系: 取得元を指定したSerializerの生成', () => {
+    process.env.KEYPROVIDER_TEST_KEY = key.toString('hex');
+    try {
+      const serializer = new Serializer({ type: 'env', name: 'KEYPROVIDER_TEST_KEY' });
+      const serialized = serializer.serializeObject('module.exports = { s: new Secret("v") };');
+
+      expect(new Serializer(key).deserializeObject(JSON.stringify(serialized))).toEqual({ s: 'v' });
+    } finally {
+      delete process.env.KEYPROVIDER_TEST_KEY;
+    }
+    expect(() => new Serializer({ type: 'file', path: path.join(tempDir, 'missing.key') })).toThrow(
+      'ENOENT'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * 処理名: Keyring ユニットテスト
+ *
+ * 処理概要:
+ * Keyringクラスの鍵管理と、Serializerでの鍵ID（kid）による鍵の選択をテストする
+ *
+ * 実装理由:
+ * 異なる鍵で暗号化したSecretを1つの設定ファイルに並存させられることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keyring } from '../../../src/configloder/Keyring';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('Keyring', () => {
+  const keyA = Buffer.alloc(32, 1);
+  const keyB = Buffer.alloc(32, 2);
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyring-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: 鍵ファイルの読み込みと書き出し
+   */
+  it('正常系: 鍵ファイルの読み込みと書き出し', () => {
+    const keyPath = path.join(tempDir, 'keys.json');
+    fs.writeFileSync(
+      keyPath,
+      JSON.stringify({ primary: 'b', keys: { a: keyA.toString('hex'), b: keyB.toString('hex') } })
+    );
+
+    const keyring = Keyring.fromFile(keyPath);
+
+    expect(keyring.kids()).toEqual(['a', 'b']);
+    expect(keyring.getPrimary()).toBe('b');
+    expect(keyring.get('a')).toEqual(keyA);
+    expect(Keyring.fromJSON(keyring.toJSON()).toJSON()).toEqual(keyring.toJSON());
+    expect(new Keyring({ a: keyA }).getPrimary()).toBe('a');
+  });
+
+  /**
+   * 異常系: 不正な鍵ファイル
+   */
+  it('異常系: 不正な鍵ファイル', () => {
+    expect(() => Keyring.fromJSON({})).toThrow('"keys" must be an object');
+    expect(() => Keyring.fromJSON({ keys: { a: 'zz' } })).toThrow("key 'a' must be a 32 byte hex string");
+    expect(() => Keyring.fromJSON({ primary: 'x', keys: { a: keyA.toString('hex') } })).toThrow(
+      "no key for kid 'x' in keyring"
+    );
+    expect(() => new Keyring().add('a', Buffer.alloc(16))).toThrow("key 'a' must be 32 bytes (got 16)");
+    expect(() => Keyring.fromFile(path.join(tempDir, 'missing.json'))).toThrow('keyring load error');
+    expect(() => new Serializer(new Keyring())).toThrow('keyring has no keys');
+  });
+
+  /**
+   * 正常系: kidによる復号キーの選択
+   */
+  it('正常系: kidによる復号キーの選択', () => {
+    const teamA = new Serializer(new Keyring({ a: keyA }));
+    const teamB = new Serializer(new Keyring({ b: keyB }));
+    const secretA = (teamA.serializeObject('module.exports = { s: new Secret("A") };') as Record<string, unknown>).s;
+    const secretB = (teamB.serializeObject('module.exports = { s: new Secret("B") };') as Record<string, unknown>).s;
+    const json = JSON.stringify({ a: secretA, b: secretB });
+
+    expect(secretA).toMatchObject({ type: 'Secret', kid: 'a' });
+    expect(new Serializer(new Keyring({ a: keyA, b: keyB })).deserializeObject(json)).toEqual({
+      a: 'A',
+      b: 'B',
+    });
+    expect(() => teamA.deserializeObject(json)).toThrow("no key for kid 'b' (Secret at b)");
+    expect(() => new Serializer(keyB).deserializeObject(json)).toThrow("no key for kid 'a' (Secret at a)");
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * 処理名: SchemaValidator ユニットテスト
+ *
+ * 処理概要:
+ * SchemaValidatorクラスのスキーマ検証・デフォルト値補完をテストする
+ *
+ * 実装理由:
+ * 違反箇所のパス報告と、RegExp/Buffer/Secretの扱いを検証するため
+ */
+
+import { SchemaValidator, ConfigSchema } from '../../../src/configloder/SchemaValidator';
+import { Serializer } from '../../../src/configloder/Serializer';
+
+describe('SchemaValidator', () => {
+  const schema: ConfigSchema = {
+    type: 'object',
+    required: ['database', 'name'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', pattern: '^[a-z]+$', minLength: 2 },
+      mode: { type: 'string', enum: ['dev', 'prod'], default: 'dev' },
+      database: {
+        type: 'object',
+        required: ['host'],
+        properties: {
+          host: { type: 'string' },
+          port: { type: 'integer', minimum: 1, maximum: 65535, default: 5432 },
+          replicas: {
+            type: 'array',
+            maxItems: 2,
+            items: { type: 'object', required: ['host'] },
+          },
+        },
+      },
+      filter: { type: 'regexp' },
+      magic: { type: 'buffer', minLength: 4 },
+      credentials: {
+        type: 'object',
+        required: ['password'],
+        properties: { password: { type: 'string', minLength: 8 } },
+      },
+      labels: { type: 'object', additionalProperties: { type: 'string' } },
+    },
+  };
+
+  /**
+   * 正常系: 妥当な設定の検証とデフォルト値補完
+   */
+  it('正常系: 妥当な設定の検証とデフォルト値補完', () => {
+    const validator = new SchemaValidator(schema);
+    const config = {
+      name: 'app',
+      database: { host: 'localhost' },
+      filter: /foo/i,
+      magic: Buffer.from('7f454c46', 'hex'),
+      labels: { team: 'core' },
+    };
+
+    const result = validator.validate(config);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({
+      name: 'app',
+      mode: 'dev',
+      database: { host: 'localhost', port: 5432 },
+      filter: /foo/i,
+      magic: Buffer.from('7f454c46', 'hex'),
+      labels: { team: 'core' },
+    });
+  });
+
+  /**
+   * 異常系: 全ての違反をパス付きで報告
+   */
+  it('異常系: 全ての違反をパス付きで報告', () => {
+    const validator = new SchemaValidator(schema);
+    const config = {
+      name: 'A',
+      mode: 'staging',
+      database: {
+        port: 70000,
+        replicas: [{ host: 'a' }, {}, { host: 'c' }],
+      },
+      filter: 'foo',
+      magic: Buffer.from('00', 'hex'),
+      labels: { team: 1 },
+      typo: true,
+    };
+
+    const result = validator.validate(config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => `${error.path}:${error.keyword}`)).toEqual([
+      'name:minLength',
+      'name:pattern',
+      'mode:enum',
+      'database.port:maximum',
+      'database.replicas:maxItems',
+      'database.replicas.1.host:required',
+      'database.host:required',
+      'filter:type',
+      'magic:minLength',
+      'labels.team:type',
+      'typo:additionalProperties',
+    ]);
+  });
+
+  /**
+   * 正常系: 復号済みSecret値の検証
+   */
+  it('正常系: 復号済みSecret値の検証', () => {
+    const serializer = new Serializer(Serializer.generatekey('test-password'));
+    const serialized = serializer.serializeObject(`
+      module.exports = {
+        name: 'app',
+        database: { host: 'localhost' },
+        credentials: new Secret({ password: 'short' }),
+      };
+    `);
+    const config = serializer.deserializeObject(JSON.stringify(serialized));
+
+    const result = new SchemaValidator(schema).validate(config);
+
+    expect(result.errors).toEqual([
+      {
+        path: 'credentials.password',
+        keyword: 'minLength',
+        message: 'must be >= 8 (got 5)',
+      },
+    ]);
+  });
+
+  /**
+   * 正常系: 複数の型指定とルートのデフォルト値
+   */
+  it('正常系: 複数の型指定とルートのデフォルト値', () => {
+    const validator = new SchemaValidator({
+      type: ['object', 'null'],
+      default: { enabled: true },
+    });
+
+    expect(validator.validate(null).valid).toBe(true);
+    expect(validator.validate(undefined).value).toEqual({ enabled: true });
+    expect(validator.validate(1).errors[0]).toEqual({
+      path: '',
+      keyword: 'type',
+      message: 'expected object | null but got number',
+    });
+  });
+
+  /**
+   * 異常系: プロトタイプ上の名前のキー・不正なパターン・キー順の異なる列挙値
+   */
+  it('異常系: プロトタイプ上の名前のキー・不正なパターン・キー順の異なる列挙値', () => {
+    const validator = new SchemaValidator({
+      type: 'object',
+      required: ['toString'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', pattern: '(' },
+        target: { type: 'object', enum: [{ host: 'a', port: 1 }] },
+        version: { const: { major: 1, minor: 0 } },
+      },
+    });
+    const data = JSON.parse(
+      '{"name":"x","target":{"port":1,"host":"a"},"version":{"minor":0,"major":1},' +
+        '"constructor":1,"toString":2,"__proto__":{"polluted":true}}'
+    );
+
+    const result = validator.validate(data);
+
+    expect(result.errors.map(({ path, keyword }) => `${path}:${keyword}`)).toEqual([
+      'name:pattern',
+      'constructor:additionalProperties',
+      'toString:additionalProperties',
+      '__proto__:additionalProperties',
+    ]);
+    expect(result.errors[0].message).toMatch(/^invalid pattern \( in schema \(Invalid regular expression/);
+    expect(validator.validate({ version: { major: 2, minor: 0 } }).errors).toEqual([
+      { path: 'version', keyword: 'const', message: 'must be {"major":1,"minor":0}' },
+      { path: 'toString', keyword: 'required', message: 'is required' },
+    ]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -8,6 +8,7 @@
  * 正規表現、Buffer、Secret等の特殊なオブジェクトの安全な処理を検証するため
  */
 
+import * as crypto from 'crypto';
 import { Serializer } from '../../../src/configloder/Serializer';
 
 describe('Serializer', () => {
@@ -102,6 +103,70 @@ describe('Serializer', () => {
     expect(result.env).toBe('default-value');
   });
 
+  /**
+   * 正常系: 型・パターンを指定した環境変数のデシリアライズ
+   */
+  it('正常系: 型・パターンを指定した環境変数のデシリアライズ', () => {
+    Object.assign(process.env, { SER_PORT: '8080', SER_DEBUG: 'Yes', SER_JSON: '{"a":[1]}', SER_HOSTS: 'a; b;', SER_EMPTY: '' });
+    delete process.env.SER_UNSET;
+    const serialized = serializer.serializeObject(`module.exports = {
+      port: new Env({ name: 'SER_PORT', type: 'number', required: true, pattern: /^\\d+$/ }),
+      debug: new Env({ name: 'SER_DEBUG', type: 'boolean' }),
+      json: new Env({ name: 'SER_JSON', type: 'json' }),
+      hosts: new Env({ name: 'SER_HOSTS', type: 'list', separator: ';' }),
+      empty: new Env({ name: 'SER_EMPTY', default: 'fallback' }),
+      timeout: new Env({ name: 'SER_UNSET', type: 'number', default: '30' }),
+    };`) as Record<string, unknown>;
+
+    expect(serialized.port).toEqual({
+      type: 'Env',
+      name: 'SER_PORT',
+      valueType: 'number',
+      required: true,
+      pattern: '^\\d+$',
+    });
+    expect(serializer.deserializeObject(JSON.stringify(serialized))).toEqual({
+      port: 8080,
+      debug: true,
+      json: { a: [1] },
+      hosts: ['a', 'b'],
+      empty: '',
+      timeout: 30,
+    });
+    expect(() => serializer.serializeObject("module.exports = new Env({ name: 'X', type: 'date' });")).toThrow(
+      "Env X: unknown type 'date' (expected string, number, boolean, json, list)"
+    );
+  });
+
+  /**
+   * 異常系: 未設定・不正な環境変数のまとめての通知
+   */
+  it('異常系: 未設定・不正な環境変数のまとめての通知', () => {
+    Object.assign(process.env, { SER_PORT: 'http', SER_DEBUG: 'maybe', SER_JSON: '{', SER_SECRET: 'secret-value' });
+    delete process.env.SER_UNSET;
+    const json = JSON.stringify({
+      server: {
+        port: { type: 'Env', name: 'SER_PORT', valueType: 'number' },
+        debug: { type: 'Env', name: 'SER_DEBUG', valueType: 'boolean' },
+      },
+      json: { type: 'Env', name: 'SER_JSON', valueType: 'json' },
+      url: { type: 'Env', name: 'SER_UNSET', required: true, default: 'x' },
+      key: { type: 'Env', name: 'SER_SECRET', pattern: '^[0-9a-f]+$' },
+    });
+
+    expect(() => serializer.deserializeObject(json)).toThrow(
+      [
+        'invalid environment variables:',
+        '  - SER_PORT (at server.port) is not a number',
+        '  - SER_DEBUG (at server.debug) is not a boolean (true/false, 1/0, yes/no, on/off)',
+        '  - SER_JSON (at json) is not valid JSON',
+        '  - SER_UNSET (at url) is required but not set',
+        '  - SER_SECRET (at key) does not match /^[0-9a-f]+$/',
+      ].join('\n')
+    );
+    expect(() => serializer.deserializeObject(json)).not.toThrow('secret-value');
+  });
+
   /**
    * 異常系: 不正なJSON形式
    */
@@ -193,6 +258,165 @@ describe('Serializer', () => {
     >;
 
     expect(result.secret).toEqual({ password: 'mysecret' });
+    expect(serialized.secret).toEqual({
+      type: 'Secret',
+      version: 2,
+      alg: 'aes-256-gcm',
+      iv: expect.stringMatching(/^[0-9a-f]{24}$/),
+      tag: expect.stringMatching(/^[0-9a-f]{32}$/),
+      hex: expect.any(String),
+    });
+  });
+
+  /**
+   * 正常系: 旧形式（aes-256-cbc）の Secret のデシリアライズ
+   */
+  it('正常系: 旧形式（aes-256-cbc）の Secret のデシリアライズ', () => {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', cryptokey, iv);
+    const hex = cipher.update('"legacy"', 'utf-8', 'hex') + cipher.final('hex');
+    const json = JSON.stringify({ secret: { type: 'Secret', iv: iv.toString('hex'), hex } });
+
+    expect(serializer.deserializeObject(json)).toEqual({ secret: 'legacy' });
+  });
+
+  /**
+   * 異常系: 改ざんされた Secret のデシリアライズ
+   */
+  it('異常系: 改ざんされた Secret のデシリアライズ', () => {
+    const serialized = serializer.serializeObject(
+      'module.exports = { db: { hosts: [{ password: new Secret("p") }] } };'
+    ) as { db: { hosts: Array<{ password: Record<string, string> }> } };
+    const secret = serialized.db.hosts[0].password;
+    secret.hex = (parseInt(secret.hex.slice(0, 2), 16) ^ 1).toString(16).padStart(2, '0') + secret.hex.slice(2);
+
+    expect(() => serializer.deserializeObject(JSON.stringify(serialized))).toThrow(
+      'Secret integrity check failed at db.hosts.0.password'
+    );
+    expect(() =>
+      new Serializer(Serializer.generatekey('other')).deserializeObject(
+        JSON.stringify({ secret: { ...secret, alg: 'aes-128-ecb' } })
+      )
+    ).toThrow("unsupported Secret algorithm 'aes-128-ecb' at secret");
+  });
+
+  /**
+   * 異常系: 認証タグの切り詰め・旧形式への書き換え
+   */
+  it('異常系: 認証タグの切り詰め・旧形式への書き換え', () => {
+    const secret = (serializer.serializeObject('module.exports = { s: new Secret("p") };') as { s: Record<string, unknown> })
+      .s;
+    const deserialize = (changed: Record<string, unknown>): unknown =>
+      serializer.deserializeObject(JSON.stringify({ s: changed }));
+
+    expect(deserialize(secret)).toEqual({ s: 'p' });
+    for (const tag of [(secret.tag as string).slice(0, 8), (secret.tag as string).slice(0, 24), '', undefined]) {
+      expect(() => deserialize({ ...secret, tag })).toThrow(
+        `Secret integrity check failed at s: value was tampered with or the key is wrong (Error: authentication tag must be 16 bytes (got ${(tag || '').length / 2}))`
+      );
+    }
+    const { alg: _alg, ...withoutAlg } = secret;
+    expect(() => deserialize(withoutAlg)).toThrow(
+      "unsupported Secret algorithm '(none)' at s (version 2 requires aes-256-gcm)"
+    );
+    expect(() => deserialize({ ...secret, alg: 'aes-256-cbc' })).toThrow(
+      "unsupported Secret algorithm 'aes-256-cbc' at s (version 2 requires aes-256-gcm)"
+    );
+    expect(() => deserialize({ ...secret, version: 3 })).toThrow("unsupported Secret version '3' at s");
+    const { version: _version, ...withoutVersion } = secret;
+    expect(() => deserialize(withoutVersion)).toThrow(
+      "unsupported Secret algorithm 'aes-256-gcm' at s (a Secret without version uses aes-256-cbc)"
+    );
+  });
+
+  /**
+   * 正常系: パスワードのみでの Secret の復号
+   */
+  it('正常系: パスワードのみでの Secret の復号', () => {
+    const keyDerivation = Serializer.createKeyDerivation({ N: 1024 });
+    const writer = Serializer.fromPassword('passphrase', keyDerivation);
+    const serialized = writer.serializeObject(
+      'module.exports = { a: new Secret("x"), b: new Secret(1) };'
+    ) as Record<string, Record<string, unknown>>;
+
+    expect(serialized.a.kdf).toEqual({ name: 'scrypt', salt: keyDerivation.salt, N: 1024, r: 8, p: 1 });
+    expect(Serializer.deriveKey('passphrase', keyDerivation)).toEqual(
+      Serializer.deriveKey('passphrase', keyDerivation)
+    );
+    const json = JSON.stringify(serialized);
+    expect(Serializer.fromPassword('passphrase').deserializeObject(json)).toEqual({ a: 'x', b: 1 });
+    expect(() => Serializer.fromPassword('wrong').deserializeObject(json)).toThrow(
+      'Secret integrity check failed at a'
+    );
+    expect(() =>
+      Serializer.fromPassword('passphrase').deserializeObject(
+        JSON.stringify({ a: { ...serialized.a, kdf: { name: 'pbkdf2' } } })
+      )
+    ).toThrow("key derivation failed at a: Error: unsupported key derivation 'pbkdf2'");
+    // 改ざんされたコストパラメータで過大なメモリ・CPUを消費しない
+    expect(() =>
+      Serializer.fromPassword('passphrase').deserializeObject(
+        JSON.stringify({ a: { ...serialized.a, kdf: { ...keyDerivation, N: 2 ** 24, r: 64, p: 1 } } })
+      )
+    ).toThrow(
+      'key derivation failed at a: Error: invalid key derivation parameters: ' +
+        'N must be a power of two up to 131072, r must be an integer from 1 to 8'
+    );
+    expect(() => Serializer.deriveKey('passphrase', { ...keyDerivation, N: 1000, p: 0, salt: 'zz' })).toThrow(
+      'salt must be 8 to 64 bytes of hex, N must be a power of two up to 131072, p must be an integer from 1 to 4'
+    );
+  });
+
+  /**
+   * 正常系: 暗号化キーのローテーション
+   */
+  it('正常系: 暗号化キーのローテーション', () => {
+    const serialized = serializer.serializeObject(`
+      module.exports = { z: 1, list: [new Secret({ user: 'u' })], a: { secret: new Secret('s'), b: /x/ } };
+    `) as Record<string, unknown>;
+    const next = new Serializer(Serializer.generatekey('next'));
+
+    const rotated = serializer.rotateKey(serialized, next) as typeof serialized;
+
+    expect(Object.keys(rotated)).toEqual(['z', 'list', 'a']);
+    expect(rotated.z).toBe(1);
+    expect((rotated.a as Record<string, unknown>).b).toEqual((serialized.a as Record<string, unknown>).b);
+    expect((rotated.a as Record<string, unknown>).secret).not.toEqual((serialized.a as Record<string, unknown>).secret);
+    const restored = next.deserializeObject(JSON.stringify(rotated)) as Record<string, unknown>;
+    expect(restored.list).toEqual([{ user: 'u' }]);
+    expect((restored.a as Record<string, unknown>).secret).toBe('s');
+    expect(() => next.rotateKey(serialized, serializer)).toThrow(
+      'キーローテーションエラー: Error: Secret integrity check failed at list.0'
+    );
+
+    // YAMLの!secretタグで書かれた未暗号化のSecretは暗号化される
+    const encrypted = serializer.rotateKey({ s: { type: 'Secret', value: 'plain' } }, next) as Record<string, unknown>;
+    expect(encrypted.s).toMatchObject({ type: 'Secret', alg: 'aes-256-gcm' });
+    expect(next.deserializeObject(JSON.stringify(encrypted))).toEqual({ s: 'plain' });
+  });
+
+  /**
+   * 異常系: 未暗号化のSecretのデシリアライズ
+   */
+  it('異常系: 未暗号化のSecretのデシリアライズ', () => {
+    const serialized = serializer.serializeObject('module.exports = { db: { password: new Secret("s") } };') as Record<
+      string,
+      Record<string, unknown>
+    >;
+    // 暗号化済みのSecretを平文に差し替えても、認証タグの検証を迂回できない
+    const swapped = JSON.stringify({ db: { password: { type: 'Secret', value: 'attacker' } }, list: [] });
+
+    expect(() => serializer.deserializeObject(swapped)).toThrow(
+      'Secret at db.password is not encrypted (encrypt it with rotate-key, or call allowPlaintextSecrets() to accept it)'
+    );
+    expect(new Serializer(cryptokey).allowPlaintextSecrets().deserializeObject(swapped)).toEqual({
+      db: { password: 'attacker' },
+      list: [],
+    });
+    const encrypted = serializer.encryptPlaintextSecrets(JSON.parse(swapped)) as typeof serialized;
+    expect(encrypted.db.password).toMatchObject({ type: 'Secret', version: 2, alg: 'aes-256-gcm' });
+    expect(serializer.encryptPlaintextSecrets(serialized)).toEqual(serialized);
+    expect(serializer.deserializeObject(JSON.stringify(encrypted))).toEqual({ db: { password: 'attacker' }, list: [] });
   });
 
   /**
@@ -205,4 +429,134 @@ describe('Serializer', () => {
       serializer.serializeObject(invalidCode);
     }).toThrow('シリアライズエラー');
   });
+
+  /**
+   * 正常系: 特殊オブジェクトのシリアライズ
+   */
+  it('正常系: 特殊オブジェクトのシリアライズ', () => {
+    const jsCode = `
+      module.exports = {
+        pattern: /^test$/gi.setLabel('label'),
+        plain: /x/,
+        buffer: Buffer.from('7f454c46', 'hex'),
+        env: new Env({ name: 'HOME', default: '/root' }),
+        list: [1, new Secret([Buffer.from('00', 'hex')])],
+        date: new Date(0),
+        fn: () => 1,
+      };
+    `;
+
+    const result = serializer.serializeObject(jsCode) as Record<string, unknown>;
+
+    expect(result.pattern).toEqual({ type: 'RegExp', source: '^test$', flags: 'gi', label: 'label' });
+    expect(result.plain).toEqual({ type: 'RegExp', source: 'x', flags: '', label: '' });
+    expect(result.buffer).toEqual({ type: 'Buffer', hex: '7f454c46' });
+    expect(result.env).toEqual({ type: 'Env', name: 'HOME', default: '/root' });
+    expect(result.date).toBe('1970-01-01T00:00:00.000Z');
+    expect(result.fn).toBeUndefined();
+    const restored = serializer.deserializeObject(JSON.stringify(result)) as Record<string, unknown[]>;
+    expect(restored.list[1]).toEqual([{ type: 'Buffer', hex: '00' }]);
+  });
+
+  /**
+   * 正常系: ホスト側の組み込みオブジェクトを変更しない
+   */
+  it('正常系: ホスト側の組み込みオブジェクトを変更しない', () => {
+    serializer.serializeObject(`
+      RegExp.prototype.toJSON = function () { return 'patched'; };
+      module.exports = { pattern: /a/ };
+    `);
+
+    expect(Object.prototype.hasOwnProperty.call(RegExp.prototype, 'setLabel')).toBe(false);
+    expect(Object.prototype.hasOwnProperty.call(RegExp.prototype, 'toJSON')).toBe(false);
+    expect(Object.prototype.hasOwnProperty.call(Buffer.prototype, '_toJSON')).toBe(false);
+    expect(JSON.stringify(/a/)).toBe('{}');
+  });
+
+  /**
+   * 異常系: 設定コードからホスト側のオブジェクトへの到達
+   */
+  it('異常系: 設定コードからホスト側のオブジェクトへの到達', () => {
+    const result = serializer.serializeObject(`
+      Buffer.prototype.toJSON = function () { return 'PWNED'; };
+      const reach = (fn) => { try { return typeof fn(); } catch (error) { return String(error); } };
+      module.exports = {
+        secret: reach(() => Secret.constructor('return process')()),
+        env: reach(() => Env.constructor('return process')()),
+        buffer: reach(() => Buffer.from.constructor('return process')()),
+        require: reach(() => require.constructor('return process')()),
+        module: reach(() => module.constructor.constructor('return process')()),
+        global: reach(() => this.constructor.constructor('return process')()),
+        hostError: reach(() => { try { Buffer.from('x', 'bogus'); } catch (error) { return error.constructor.constructor('return process')(); } }),
+        buf: Buffer.from('hi'),
+      };
+    `) as Record<string, unknown>;
+
+    const denied = 'ReferenceError: process is not defined';
+    expect(result).toEqual({
+      secret: denied,
+      env: denied,
+      buffer: denied,
+      require: denied,
+      module: denied,
+      global: denied,
+      hostError: denied,
+      buf: { type: 'Buffer', hex: '6869' },
+    });
+    expect(Object.prototype.hasOwnProperty.call(Buffer.prototype, 'toJSON')).toBe(true);
+    expect(JSON.stringify(Buffer.from('hi'))).toBe('{"type":"Buffer","data":[104,105]}');
+  });
+
+  /**
+   * 異常系: シリアライズ中に実行される設定コードからホスト側のオブジェクトへの到達
+   */
+  it('異常系: シリアライズ中に実行される設定コードからホスト側のオブジェクトへの到達', () => {
+    const reach = `
+      const reach = (fn) => { try { return typeof fn(); } catch (error) { return String(error); } };
+      const holders = () => Object.getOwnPropertyNames(globalThis).filter((name) => name.startsWith('__configtool_'));
+      const escape = (self) => ({
+        self: reach(() => self.constructor.constructor('return process')()),
+        holders: holders().map((name) => reach(() => globalThis[name].constructor.constructor('return process')())),
+      });
+    `;
+    const result = serializer.serializeObject(`${reach}
+      module.exports = {
+        json: { toJSON() { return escape(this); } },
+        get getter() { return escape(this); },
+      };
+    `) as Record<string, unknown>;
+
+    const denied = 'ReferenceError: process is not defined';
+    expect(result).toEqual({
+      json: { self: denied, holders: [denied] },
+      getter: { self: denied, holders: [denied] },
+    });
+    expect(() =>
+      serializer.serializeObject(`${reach}
+        throw { toString() { return JSON.stringify(escape(this)); } };
+      `)
+    ).toThrow(`{"self":"${denied}","holders":["${denied}"]}`);
+  });
+
+  /**
+   * 正常系: 許可リストに含まれるモジュールのrequire
+   */
+  it('正常系: 許可リストに含まれるモジュールのrequire', () => {
+    const jsCode = `module.exports = { sep: require('path').sep };`;
+
+    expect(serializer.serializeObject(jsCode, { allowedModules: ['path'] })).toEqual({ sep: '/' });
+    expect(() => serializer.serializeObject(jsCode)).toThrow("require of 'path' is not allowed");
+  });
+
+  /**
+   * 異常系: JavaScriptコードのシリアライズ（実行時エラー・タイムアウト）
+   */
+  it('異常系: JavaScriptコードのシリアライズ（実行時エラー・タイムアウト）', () => {
+    expect(() => serializer.serializeObject('module.exports = process.env;')).toThrow(
+      'シリアライズエラー: ReferenceError: process is not defined'
+    );
+    expect(() =>
+      serializer.serializeObject('while (true) {}', { timeout: 50 })
+    ).toThrow('シリアライズエラー');
+  });
 });
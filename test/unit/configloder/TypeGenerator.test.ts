@@ -0,0 +1,140 @@
+/**
+ * 処理名: TypeGenerator ユニットテスト
+ *
+ * 処理概要:
+ * TypeGeneratorクラスの入れ子のオブジェクト・配列・特殊な値からの型定義の生成をテストする
+ *
+ * 実装理由:
+ * 生成した型定義が設定の構造を表し、同じ設定から常に同じ出力になることを検証するため
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Serializer } from '../../../src/configloder/Serializer';
+import { TypeGenerator } from '../../../src/configloder/TypeGenerator';
+
+describe('TypeGenerator', () => {
+  const HEADER = '// Generated by configtool typegen. Do not edit by hand.\n\n';
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'typegenerator-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 正常系: 入れ子のオブジェクトと配列の型定義
+   */
+  it('正常系: 入れ子のオブジェクトと配列の型定義', () => {
+    const generated = new TypeGenerator().generate({
+      port: 80,
+      name: 'app',
+      database: { host: 'localhost', 'max-connections': 10 },
+      replicas: [{ host: 'db1', port: 5432 }, { host: 'db2', tags: ['a'] }],
+      mixed: [1, 'two', null],
+      empty: [],
+      options: {},
+      nothing: null,
+    });
+
+    expect(generated).toBe(
+      HEADER +
+        [
+          'export interface Config {',
+          '  database: ConfigDatabase;',
+          '  empty: unknown[];',
+          '  mixed: (string | number | null)[];',
+          '  name: string;',
+          '  nothing: null;',
+          '  options: Record<string, never>;',
+          '  port: number;',
+          '  replicas: ConfigReplicasItem[];',
+          '}',
+          '',
+          'export interface ConfigDatabase {',
+          '  host: string;',
+          '  "max-connections": number;',
+          '}',
+          '',
+          'export interface ConfigReplicasItem {',
+          '  host: string;',
+          '  port?: number;',
+          '  tags?: string[];',
+          '}',
+          '',
+        ].join('\n')
+    );
+  });
+
+  /**
+   * 正常系: 特殊な値の型定義
+   */
+  it('正常系: 特殊な値の型定義', () => {
+    const serializer = new Serializer(Serializer.generatekey('typegen'));
+    const data = serializer.serializeObject(
+      'module.exports = { re: /^a$/, buf: Buffer.from("00", "hex"), home: new Env({ name: "HOME" }), ' +
+        'port: new Env({ name: "PORT", type: "number", required: true }), ' +
+        'hosts: new Env({ name: "HOSTS", type: "list", default: "localhost" }), ' +
+        'mode: new Env({ name: "MODE", type: "number" }), debug: new Env({ name: "DEBUG", type: "boolean", default: null }), ' +
+        'db: new Secret({ user: "admin", port: 5432 }) };'
+    );
+
+    expect(new TypeGenerator({ serializer, rootName: 'AppConfig' }).generate(data, 'config.yaml')).toBe(
+      [
+        '// Generated by configtool typegen from config.yaml. Do not edit by hand.',
+        '',
+        'export interface AppConfig {',
+        '  buf: Buffer;',
+        '  db: AppConfigDb;',
+        '  debug: boolean | null;',
+        '  home: string | undefined;',
+        '  hosts: string[];',
+        '  mode: number | undefined;',
+        '  port: number;',
+        '  re: RegExp;',
+        '}',
+        '',
+        'export interface AppConfigDb {',
+        '  port: number;',
+        '  user: string;',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(() => new TypeGenerator().generate(data)).toThrow('Secret at db cannot be typed without a key to decrypt it');
+    expect(() =>
+      new TypeGenerator({ serializer: new Serializer(Serializer.generatekey('other')) }).generate(data)
+    ).toThrow('cannot infer the type of Secret at db');
+  });
+
+  /**
+   * 正常系: オブジェクト以外のルートと名前の重複
+   */
+  it('正常系: オブジェクト以外のルートと名前の重複', () => {
+    expect(new TypeGenerator().generate([{ a: 1 }, 'x'])).toBe(
+      HEADER + 'export type Config = (ConfigItem | string)[];\n\nexport interface ConfigItem {\n  a: number;\n}\n'
+    );
+    const generated = new TypeGenerator().generate({ a: { b: { x: 1 } }, aB: { c: 1 }, port: 1, Port: { d: 1 } });
+    expect(generated).toContain('  aB: ConfigAB2;\n  port: number;\n');
+    expect(generated).toContain('export interface ConfigAB2 {\n  c: number;\n}\n');
+    expect(generated).toContain('export interface ConfigPort {\n  d: number;\n}\n');
+  });
+
+  /**
+   * 正常系: 設定ファイルからの型定義の生成
+   */
+  it('正常系: 設定ファイルからの型定義の生成', async () => {
+    const filepath = path.join(tempDir, 'config.yaml');
+    fs.writeFileSync(filepath, 'server:\n  host: localhost\n  pattern: !regexp /^api/\n');
+
+    const generated = await new TypeGenerator().generateFromFile(filepath);
+
+    expect(generated).toContain('from config.yaml.');
+    expect(generated).toContain('export interface ConfigServer {\n  host: string;\n  pattern: RegExp;\n}\n');
+    expect(await new TypeGenerator().generateFromFile(filepath)).toBe(generated);
+  });
+});
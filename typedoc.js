@@ -9,7 +9,7 @@
  */
 
 module.exports = {
-  entryPoints: ['src/configloder/ConfigLoder.ts', 'src/configloder/FindDifferences.ts', 'src/configloder/Serializer.ts', 'src/tools/index.ts'],
+  entryPoints: ['src/configloder/ConfigAccessor.ts', 'src/configloder/ConfigConverter.ts', 'src/configloder/ConfigDiff.ts', 'src/configloder/ConfigEditor.ts', 'src/configloder/ConfigLoder.ts', 'src/configloder/ConfigMerger.ts', 'src/configloder/ConfigWatcher.ts', 'src/configloder/EnvOverrides.ts', 'src/configloder/FindDifferences.ts', 'src/configloder/FormatRegistry.ts', 'src/configloder/Interpolator.ts', 'src/configloder/JsonPatch.ts', 'src/configloder/KeyProvider.ts', 'src/configloder/Keyring.ts', 'src/configloder/SchemaValidator.ts', 'src/configloder/Serializer.ts', 'src/configloder/TypeGenerator.ts', 'src/tools/index.ts'],
   out: './docs',
   exclude: ['**/*.test.ts'],
   excludeExternals: true,
@@ -18,7 +18,18 @@ module.exports = {
   entry: {
     'configloder': './configloder/ConfigLoder.ts',
     'serializer': './configloder/Serializer.ts',
+    'configeditor': './configloder/ConfigEditor.ts',
+    'configaccessor': './configloder/ConfigAccessor.ts',
+    'typegenerator': './configloder/TypeGenerator.ts',
+    'interpolator': './configloder/Interpolator.ts',
+    'envoverrides': './configloder/EnvOverrides.ts',
+    'configdiff': './configloder/ConfigDiff.ts',
+    'configconverter': './configloder/ConfigConverter.ts',
+    'keyring': './configloder/Keyring.ts',
+    'keyprovider': './configloder/KeyProvider.ts',
+    'formatregistry': './configloder/FormatRegistry.ts',
     'finddifferences': './configloder/FindDifferences.ts',
+    'configwatcher': './configloder/ConfigWatcher.ts',
     'conftool': './tools/index.ts',
   },
   output: {